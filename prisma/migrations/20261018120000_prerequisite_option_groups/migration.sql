@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."prerequisites" ADD COLUMN     "group_index" INTEGER;
+
+-- Existing rows were all required (AND), so give each one its own group
+UPDATE "public"."prerequisites" AS p
+SET "group_index" = numbered."row_number" - 1
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "course_id" ORDER BY "id") AS "row_number"
+    FROM "public"."prerequisites"
+) AS numbered
+WHERE p."id" = numbered."id";
+
+ALTER TABLE "public"."prerequisites" ALTER COLUMN "group_index" SET NOT NULL;
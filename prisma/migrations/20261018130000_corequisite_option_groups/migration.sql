@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."corequisites" ADD COLUMN     "group_index" INTEGER,
+ADD COLUMN     "timing" TEXT NOT NULL DEFAULT 'concurrent';
+
+-- Existing rows were all required (AND), so give each one its own group
+UPDATE "public"."corequisites" AS c
+SET "group_index" = numbered."row_number" - 1
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "course_id" ORDER BY "id") AS "row_number"
+    FROM "public"."corequisites"
+) AS numbered
+WHERE c."id" = numbered."id";
+
+ALTER TABLE "public"."corequisites" ALTER COLUMN "group_index" SET NOT NULL;
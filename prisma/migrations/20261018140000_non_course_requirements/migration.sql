@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "public"."courses" ADD COLUMN     "waived_by_id" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."prerequisites" ALTER COLUMN "prerequisite_id" DROP NOT NULL,
+ADD COLUMN     "min_grade" TEXT,
+ADD COLUMN     "requirement_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."requirements" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "description" TEXT,
+    "min_gpa" DOUBLE PRECISION,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "requirements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."user_requirements" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "requirement_id" TEXT NOT NULL,
+    "satisfied" BOOLEAN NOT NULL DEFAULT true,
+    "note" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_requirements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prerequisites_course_id_requirement_id_key" ON "public"."prerequisites"("course_id", "requirement_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "requirements_code_key" ON "public"."requirements"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_requirements_user_id_requirement_id_key" ON "public"."user_requirements"("user_id", "requirement_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."courses" ADD CONSTRAINT "courses_waived_by_id_fkey" FOREIGN KEY ("waived_by_id") REFERENCES "public"."requirements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."prerequisites" ADD CONSTRAINT "prerequisites_requirement_id_fkey" FOREIGN KEY ("requirement_id") REFERENCES "public"."requirements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."user_requirements" ADD CONSTRAINT "user_requirements_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."user_requirements" ADD CONSTRAINT "user_requirements_requirement_id_fkey" FOREIGN KEY ("requirement_id") REFERENCES "public"."requirements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
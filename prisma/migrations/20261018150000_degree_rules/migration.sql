@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."degree_rules" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" TEXT NOT NULL,
+    "min_credits" INTEGER,
+    "min_courses" INTEGER,
+    "min_level" INTEGER,
+    "prefixes" TEXT[],
+    "min_grade" TEXT,
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "degree_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "degree_rules_code_key" ON "public"."degree_rules"("code");
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "bs_to_ms" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "major" TEXT NOT NULL DEFAULT 'IT';
+
+-- CreateTable
+CREATE TABLE "public"."elective_rules" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "major" TEXT,
+    "course_codes" TEXT[],
+    "elective_level" TEXT,
+    "max_courses" INTEGER,
+    "bs_to_ms_max_courses" INTEGER,
+    "substitutes_for" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "elective_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "elective_rules_code_key" ON "public"."elective_rules"("code");
@@ -0,0 +1,70 @@
+-- CreateTable
+CREATE TABLE "public"."programs" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'major',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "programs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."program_courses" (
+    "id" TEXT NOT NULL,
+    "program_id" TEXT NOT NULL,
+    "course_id" TEXT NOT NULL,
+
+    CONSTRAINT "program_courses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "programs_code_key" ON "public"."programs"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "program_courses_program_id_course_id_key" ON "public"."program_courses"("program_id", "course_id");
+
+-- The two programs that existed implicitly as User.major; the seed keeps them up to date by code
+INSERT INTO "public"."programs" ("id", "code", "name", "type") VALUES
+    ('program_bs_cs', 'BS_CS', 'B.S. Computer Science', 'major'),
+    ('program_bs_it', 'BS_IT', 'B.S. Information Technology', 'major');
+
+-- BS IT keeps the old behaviour (every non-elective course is required)
+INSERT INTO "public"."program_courses" ("id", "program_id", "course_id")
+SELECT gen_random_uuid()::text, 'program_bs_it', "id" FROM "public"."courses" WHERE "is_elective" = false;
+
+INSERT INTO "public"."program_courses" ("id", "program_id", "course_id")
+SELECT gen_random_uuid()::text, 'program_bs_cs', "id" FROM "public"."courses"
+WHERE "code" IN ('MAC1105C', 'MAD2104', 'COP2500C', 'COP3223C', 'COP3330', 'COP3502C', 'COP3503C', 'CDA3103C', 'COP3402', 'CIS3360',
+                 'COP4331C', 'COT4210', 'COP4600', 'COP4020', 'STA2023', 'PHI3626', 'ENC3241', 'ENC3250');
+
+-- AlterTable: students move from a free-text major to a program
+ALTER TABLE "public"."users" ADD COLUMN     "program_id" TEXT;
+
+UPDATE "public"."users" SET "program_id" = CASE "major" WHEN 'CS' THEN 'program_bs_cs' ELSE 'program_bs_it' END;
+
+ALTER TABLE "public"."users" DROP COLUMN "major";
+
+-- AlterTable: elective rules and degree rules are scoped by program instead of major
+ALTER TABLE "public"."elective_rules" ADD COLUMN     "program_id" TEXT;
+
+UPDATE "public"."elective_rules" SET "program_id" = CASE "major" WHEN 'CS' THEN 'program_bs_cs' WHEN 'IT' THEN 'program_bs_it' END;
+
+ALTER TABLE "public"."elective_rules" DROP COLUMN "major";
+
+ALTER TABLE "public"."degree_rules" ADD COLUMN     "program_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "public"."users" ADD CONSTRAINT "users_program_id_fkey" FOREIGN KEY ("program_id") REFERENCES "public"."programs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."program_courses" ADD CONSTRAINT "program_courses_program_id_fkey" FOREIGN KEY ("program_id") REFERENCES "public"."programs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."program_courses" ADD CONSTRAINT "program_courses_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."degree_rules" ADD CONSTRAINT "degree_rules_program_id_fkey" FOREIGN KEY ("program_id") REFERENCES "public"."programs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."elective_rules" ADD CONSTRAINT "elective_rules_program_id_fkey" FOREIGN KEY ("program_id") REFERENCES "public"."programs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,68 @@
+-- CreateTable
+CREATE TABLE "public"."catalog_years" (
+    "id" TEXT NOT NULL,
+    "year" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "is_current" BOOLEAN NOT NULL DEFAULT false,
+    "published_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "catalog_years_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "catalog_years_year_key" ON "public"."catalog_years"("year");
+
+-- Everything seeded so far belongs to the 2025-2026 catalog
+INSERT INTO "public"."catalog_years" ("id", "year", "name", "is_current") VALUES
+    ('catalog_2025_2026', '2025-2026', '2025-2026 Undergraduate Catalog', true);
+
+-- AlterTable: catalog rows are keyed by catalog year
+ALTER TABLE "public"."courses" ADD COLUMN     "catalog_year_id" TEXT NOT NULL DEFAULT 'catalog_2025_2026';
+ALTER TABLE "public"."courses" ALTER COLUMN "catalog_year_id" DROP DEFAULT;
+
+ALTER TABLE "public"."programs" ADD COLUMN     "catalog_year_id" TEXT NOT NULL DEFAULT 'catalog_2025_2026';
+ALTER TABLE "public"."programs" ALTER COLUMN "catalog_year_id" DROP DEFAULT;
+
+ALTER TABLE "public"."degree_rules" ADD COLUMN     "catalog_year_id" TEXT NOT NULL DEFAULT 'catalog_2025_2026';
+ALTER TABLE "public"."degree_rules" ALTER COLUMN "catalog_year_id" DROP DEFAULT;
+
+ALTER TABLE "public"."elective_rules" ADD COLUMN     "catalog_year_id" TEXT NOT NULL DEFAULT 'catalog_2025_2026';
+ALTER TABLE "public"."elective_rules" ALTER COLUMN "catalog_year_id" DROP DEFAULT;
+
+-- AlterTable: existing students entered under the 2025-2026 catalog
+ALTER TABLE "public"."users" ADD COLUMN     "catalog_year_id" TEXT;
+
+UPDATE "public"."users" SET "catalog_year_id" = 'catalog_2025_2026';
+
+-- DropIndex: codes are only unique within a catalog year
+DROP INDEX "public"."courses_code_key";
+DROP INDEX "public"."programs_code_key";
+DROP INDEX "public"."degree_rules_code_key";
+DROP INDEX "public"."elective_rules_code_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "courses_catalog_year_id_code_key" ON "public"."courses"("catalog_year_id", "code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "programs_catalog_year_id_code_key" ON "public"."programs"("catalog_year_id", "code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "degree_rules_catalog_year_id_code_key" ON "public"."degree_rules"("catalog_year_id", "code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "elective_rules_catalog_year_id_code_key" ON "public"."elective_rules"("catalog_year_id", "code");
+
+-- AddForeignKey
+ALTER TABLE "public"."users" ADD CONSTRAINT "users_catalog_year_id_fkey" FOREIGN KEY ("catalog_year_id") REFERENCES "public"."catalog_years"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."courses" ADD CONSTRAINT "courses_catalog_year_id_fkey" FOREIGN KEY ("catalog_year_id") REFERENCES "public"."catalog_years"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."programs" ADD CONSTRAINT "programs_catalog_year_id_fkey" FOREIGN KEY ("catalog_year_id") REFERENCES "public"."catalog_years"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."degree_rules" ADD CONSTRAINT "degree_rules_catalog_year_id_fkey" FOREIGN KEY ("catalog_year_id") REFERENCES "public"."catalog_years"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."elective_rules" ADD CONSTRAINT "elective_rules_catalog_year_id_fkey" FOREIGN KEY ("catalog_year_id") REFERENCES "public"."catalog_years"("id") ON DELETE CASCADE ON UPDATE CASCADE;
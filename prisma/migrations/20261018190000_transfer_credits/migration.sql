@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."transfer_credits" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "institution" TEXT,
+    "exam_name" TEXT,
+    "score" TEXT,
+    "course_id" TEXT,
+    "credits" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transfer_credits_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."transfer_credits" ADD CONSTRAINT "transfer_credits_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."transfer_credits" ADD CONSTRAINT "transfer_credits_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."user_courses" ADD COLUMN     "grade" TEXT;
@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "public"."user_courses_user_id_course_id_key";
+
+-- AlterTable
+ALTER TABLE "public"."user_courses" ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'completed';
+
+-- Existing rows are single completions; an F is a failed attempt
+UPDATE "public"."user_courses" SET "status" = 'failed', "completed" = false WHERE "grade" = 'F';
+
+-- CreateIndex
+CREATE INDEX "user_courses_user_id_course_id_idx" ON "public"."user_courses"("user_id", "course_id");
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "public"."course_offerings" (
+    "id" TEXT NOT NULL,
+    "course_id" TEXT NOT NULL,
+    "term" TEXT NOT NULL,
+    "years" TEXT NOT NULL DEFAULT 'every',
+    "delivery" TEXT NOT NULL DEFAULT 'in_person',
+
+    CONSTRAINT "course_offerings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "course_offerings_course_id_term_delivery_key" ON "public"."course_offerings"("course_id", "term", "delivery");
+
+-- AddForeignKey
+ALTER TABLE "public"."course_offerings" ADD CONSTRAINT "course_offerings_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
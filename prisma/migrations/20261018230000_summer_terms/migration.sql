@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "public"."schedule_items" ADD COLUMN     "session" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."summer_terms" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "max_credits" INTEGER NOT NULL DEFAULT 12,
+    "sessions" TEXT[] DEFAULT ARRAY['A', 'B']::TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "summer_terms_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "summer_terms_user_id_year_key" ON "public"."summer_terms"("user_id", "year");
+
+-- AddForeignKey
+ALTER TABLE "public"."summer_terms" ADD CONSTRAINT "summer_terms_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."planning_preferences" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "min_credits" INTEGER NOT NULL DEFAULT 12,
+    "max_credits" INTEGER NOT NULL DEFAULT 18,
+    "full_time" BOOLEAN NOT NULL DEFAULT true,
+    "start_term" TEXT,
+    "target_graduation_term" TEXT,
+    "blocked_terms" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "planning_preferences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "planning_preferences_user_id_key" ON "public"."planning_preferences"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."planning_preferences" ADD CONSTRAINT "planning_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- AlterTable
+ALTER TABLE "public"."schedules" ADD COLUMN     "archived" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "is_primary" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "strategy" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."schedule_revisions" (
+    "id" TEXT NOT NULL,
+    "schedule_id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "note" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "schedule_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."schedule_revision_items" (
+    "id" TEXT NOT NULL,
+    "revision_id" TEXT NOT NULL,
+    "course_id" TEXT NOT NULL,
+    "semester" TEXT NOT NULL,
+    "year" INTEGER NOT NULL,
+    "session" TEXT,
+
+    CONSTRAINT "schedule_revision_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schedule_revisions_schedule_id_number_key" ON "public"."schedule_revisions"("schedule_id", "number");
+
+-- AddForeignKey
+ALTER TABLE "public"."schedule_revisions" ADD CONSTRAINT "schedule_revisions_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "public"."schedules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."schedule_revision_items" ADD CONSTRAINT "schedule_revision_items_revision_id_fkey" FOREIGN KEY ("revision_id") REFERENCES "public"."schedule_revisions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."schedule_revision_items" ADD CONSTRAINT "schedule_revision_items_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: each existing plan's history starts with its current courses
+INSERT INTO "public"."schedule_revisions" ("id", "schedule_id", "number", "note")
+SELECT gen_random_uuid()::text, "id", 1, 'Generated' FROM "public"."schedules";
+
+INSERT INTO "public"."schedule_revision_items" ("id", "revision_id", "course_id", "semester", "year", "session")
+SELECT gen_random_uuid()::text, r."id", i."course_id", i."semester", i."year", i."session"
+FROM "public"."schedule_items" i
+JOIN "public"."schedule_revisions" r ON r."schedule_id" = i."schedule_id";
+
+-- Backfill: each student's oldest plan becomes their primary one
+UPDATE "public"."schedules" SET "is_primary" = true
+WHERE "id" IN (
+    SELECT DISTINCT ON ("user_id") "id" FROM "public"."schedules" ORDER BY "user_id", "created_at" ASC
+);
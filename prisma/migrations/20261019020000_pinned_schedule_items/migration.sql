@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."schedule_items" ADD COLUMN     "pinned" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."schedule_revision_items" ADD COLUMN     "pinned" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,73 @@
+-- CreateTable
+CREATE TABLE "public"."course_groups" (
+    "id" TEXT NOT NULL,
+    "catalog_year_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "choose" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "course_groups_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."course_group_courses" (
+    "id" TEXT NOT NULL,
+    "group_id" TEXT NOT NULL,
+    "course_id" TEXT NOT NULL,
+
+    CONSTRAINT "course_group_courses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."course_group_selections" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "group_id" TEXT NOT NULL,
+    "course_id" TEXT NOT NULL,
+
+    CONSTRAINT "course_group_selections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "course_groups_catalog_year_id_name_key" ON "public"."course_groups"("catalog_year_id", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "course_group_courses_group_id_course_id_key" ON "public"."course_group_courses"("group_id", "course_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "course_group_selections_user_id_group_id_course_id_key" ON "public"."course_group_selections"("user_id", "group_id", "course_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."course_groups" ADD CONSTRAINT "course_groups_catalog_year_id_fkey" FOREIGN KEY ("catalog_year_id") REFERENCES "public"."catalog_years"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."course_group_courses" ADD CONSTRAINT "course_group_courses_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "public"."course_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."course_group_courses" ADD CONSTRAINT "course_group_courses_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."course_group_selections" ADD CONSTRAINT "course_group_selections_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."course_group_selections" ADD CONSTRAINT "course_group_selections_group_id_fkey" FOREIGN KEY ("group_id") REFERENCES "public"."course_groups"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."course_group_selections" ADD CONSTRAINT "course_group_selections_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Every existing alternative pair becomes a choose-one group (pairs are often
+-- stored both ways round, so each unordered pair is added once)
+INSERT INTO "public"."course_groups" ("id", "catalog_year_id", "name", "choose")
+SELECT DISTINCT 'group_' || LEAST(a."course_id", a."alternative_id") || '_' || GREATEST(a."course_id", a."alternative_id"),
+       c."catalog_year_id",
+       LEAST(c."code", o."code") || ' or ' || GREATEST(c."code", o."code"),
+       1
+FROM "public"."alternatives" a
+JOIN "public"."courses" c ON c."id" = a."course_id"
+JOIN "public"."courses" o ON o."id" = a."alternative_id";
+
+INSERT INTO "public"."course_group_courses" ("id", "group_id", "course_id")
+SELECT gen_random_uuid()::text, g."id", c."id"
+FROM "public"."course_groups" g
+JOIN "public"."alternatives" a ON g."id" = 'group_' || LEAST(a."course_id", a."alternative_id") || '_' || GREATEST(a."course_id", a."alternative_id")
+JOIN "public"."courses" c ON c."id" IN (a."course_id", a."alternative_id")
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."elective_selections" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "slot" INTEGER NOT NULL,
+    "course_id" TEXT NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "elective_selections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "elective_selections_user_id_slot_key" ON "public"."elective_selections"("user_id", "slot");
+
+-- AddForeignKey
+ALTER TABLE "public"."elective_selections" ADD CONSTRAINT "elective_selections_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."elective_selections" ADD CONSTRAINT "elective_selections_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "public"."courses" ADD COLUMN     "workload" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."workload_reports" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "course_id" TEXT NOT NULL,
+    "rating" INTEGER NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "workload_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "workload_reports_user_id_course_id_key" ON "public"."workload_reports"("user_id", "course_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."workload_reports" ADD CONSTRAINT "workload_reports_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."workload_reports" ADD CONSTRAINT "workload_reports_course_id_fkey" FOREIGN KEY ("course_id") REFERENCES "public"."courses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { isAdminEmail } from "@/lib/admin"
+import { getCurrentCatalogYear } from "@/lib/catalog-years"
+import { CourseOfferingRecord, isValidOffering } from "@/lib/offerings"
+
+const prisma = new PrismaClient()
+
+// Every course in a catalog year (the current one unless ?catalogYearId= is given) with its offering pattern
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!isAdminEmail(session?.user?.email)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const catalogYearId = request.nextUrl.searchParams.get("catalogYearId")
+      ?? (await getCurrentCatalogYear(prisma))?.id
+
+    // Without a year the filter would drop out and mix every catalog together
+    if (!catalogYearId) {
+      return NextResponse.json({ error: "No current catalog year; pass ?catalogYearId=" }, { status: 404 })
+    }
+
+    const courses = await prisma.course.findMany({
+      where: { catalogYearId },
+      select: { id: true, code: true, name: true, offerings: true },
+      orderBy: { code: 'asc' }
+    })
+
+    return NextResponse.json(courses)
+  } catch (error) {
+    console.error("Error fetching course offerings:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch course offerings" },
+      { status: 500 }
+    )
+  }
+}
+
+// Replace a course's offering pattern; an empty list goes back to every Fall and Spring
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!isAdminEmail(session?.user?.email)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { courseId, offerings } = await request.json()
+
+    if (typeof courseId !== "string" || !courseId) {
+      return NextResponse.json({ error: "courseId is required" }, { status: 400 })
+    }
+
+    if (!Array.isArray(offerings) || offerings.some(offering => typeof offering !== "object" || offering === null)) {
+      return NextResponse.json({ error: "offerings must be a list" }, { status: 400 })
+    }
+
+    const records: CourseOfferingRecord[] = offerings.map(offering => ({
+      term: offering.term,
+      years: offering.years || "every",
+      delivery: offering.delivery || "in_person",
+    }))
+
+    const invalid = records.find(record => !isValidOffering(record))
+    if (invalid) {
+      return NextResponse.json({ error: `Invalid offering: ${JSON.stringify(invalid)}` }, { status: 400 })
+    }
+
+    const course = await prisma.course.findUnique({ where: { id: courseId } })
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    }
+
+    await prisma.$transaction([
+      prisma.courseOffering.deleteMany({ where: { courseId } }),
+      prisma.courseOffering.createMany({
+        data: records.map(record => ({ ...record, courseId })),
+        skipDuplicates: true,
+      }),
+    ])
+
+    const updated = await prisma.courseOffering.findMany({ where: { courseId } })
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error("Error updating course offerings:", error)
+    return NextResponse.json(
+      { error: "Failed to update course offerings" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { isAdminEmail } from "@/lib/admin"
+import { getCurrentCatalogYear } from "@/lib/catalog-years"
+import { getWorkloadScore, isValidWorkload } from "@/lib/workload"
+
+const prisma = new PrismaClient()
+
+// Every course in a catalog year (the current one unless ?catalogYearId= is
+// given) with its admin-set workload, the students' reports and the score the
+// scheduler uses
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!isAdminEmail(session?.user?.email)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const catalogYearId = request.nextUrl.searchParams.get("catalogYearId")
+      ?? (await getCurrentCatalogYear(prisma))?.id
+
+    // Without a year the filter would drop out and mix every catalog together
+    if (!catalogYearId) {
+      return NextResponse.json({ error: "No current catalog year; pass ?catalogYearId=" }, { status: 404 })
+    }
+
+    const courses = await prisma.course.findMany({
+      where: { catalogYearId },
+      select: { id: true, code: true, name: true, workload: true, workloadReports: { select: { rating: true } } },
+      orderBy: { code: 'asc' }
+    })
+
+    return NextResponse.json(courses.map(({ workloadReports, ...course }) => {
+      const ratings = workloadReports.map(report => report.rating)
+      return { ...course, reports: ratings.length, score: getWorkloadScore(course.workload, ratings) }
+    }))
+  } catch (error) {
+    console.error("Error fetching course workload:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch course workload" },
+      { status: 500 }
+    )
+  }
+}
+
+// Set a course's workload (1 to 5); null goes back to the students' reports
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!isAdminEmail(session?.user?.email)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { courseId, workload } = await request.json()
+
+    if (typeof courseId !== "string" || !courseId) {
+      return NextResponse.json({ error: "courseId is required" }, { status: 400 })
+    }
+
+    if (workload !== null && !isValidWorkload(workload)) {
+      return NextResponse.json({ error: "Workload must be a whole number from 1 to 5" }, { status: 400 })
+    }
+
+    const course = await prisma.course.findUnique({ where: { id: courseId } })
+    if (!course) {
+      return NextResponse.json({ error: "Course not found" }, { status: 404 })
+    }
+
+    const updated = await prisma.course.update({
+      where: { id: courseId },
+      data: { workload },
+      select: { id: true, code: true, workload: true }
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    console.error("Error updating course workload:", error)
+    return NextResponse.json(
+      { error: "Failed to update course workload" },
+      { status: 500 }
+    )
+  }
+}
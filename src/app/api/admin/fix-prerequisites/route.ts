@@ -7,15 +7,18 @@ export async function POST() {
   try {
     console.log('🔧 Fixing prerequisite data...')
 
+    // Only the current catalog year is fixed; older years keep their prerequisites
+    const currentCatalogYear = { catalogYear: { isCurrent: true } }
+
     // Delete all existing prerequisites
-    await prisma.prerequisite.deleteMany()
+    await prisma.prerequisite.deleteMany({ where: { course: currentCatalogYear } })
     console.log('✅ Cleared existing prerequisites')
 
-    // Define correct prerequisites
-    const prerequisiteData = [
+    // Define correct prerequisites (a nested array lists options, any one of which satisfies it)
+    const prerequisiteData: { course: string, prerequisites: (string | string[])[] }[] = [
       // Math foundations
-      { course: 'MAC1114C', prerequisites: ['MAC1105C', 'MAC1140'] }, // Options: either MAC1105C or MAC1140
-      { course: 'STA2023', prerequisites: ['MAC1105C', 'MAC1140'] }, // Options: either MAC1105C or MAC1140
+      { course: 'MAC1114C', prerequisites: [['MAC1105C', 'MAC1140']] }, // Options: either MAC1105C or MAC1140
+      { course: 'STA2023', prerequisites: [['MAC1105C', 'MAC1140']] }, // Options: either MAC1105C or MAC1140
 
       // Physics
       { course: 'PHY2053', prerequisites: ['MAC1114C'] },
@@ -32,7 +35,7 @@ export async function POST() {
       { course: 'CGS3763', prerequisites: ['COP3223C'] },
       { course: 'CIS3921', prerequisites: ['COP3223C'] },
       { course: 'COP3502C', prerequisites: ['COP3223C'] },
-      { course: 'MAD2104', prerequisites: ['MAC1105C', 'MAC1140'] },
+      { course: 'MAD2104', prerequisites: [['MAC1105C', 'MAC1140']] },
     ]
 
     let created = 0
@@ -40,8 +43,8 @@ export async function POST() {
 
     for (const data of prerequisiteData) {
       // Find the course
-      const course = await prisma.course.findUnique({
-        where: { code: data.course }
+      const course = await prisma.course.findFirst({
+        where: { code: data.course, ...currentCatalogYear }
       })
 
       if (!course) {
@@ -50,28 +53,33 @@ export async function POST() {
         continue
       }
 
-      // Add each prerequisite
-      for (const prereqCode of data.prerequisites) {
-        const prerequisite = await prisma.course.findUnique({
-          where: { code: prereqCode }
-        })
+      // Add each prerequisite group
+      for (const [groupIndex, entry] of data.prerequisites.entries()) {
+        const options = Array.isArray(entry) ? entry : [entry]
 
-        if (!prerequisite) {
-          console.log(`⚠️  Prerequisite not found: ${prereqCode}`)
-          skipped++
-          continue
-        }
+        for (const prereqCode of options) {
+          const prerequisite = await prisma.course.findFirst({
+            where: { code: prereqCode, ...currentCatalogYear }
+          })
 
-        // Create the prerequisite relationship
-        await prisma.prerequisite.create({
-          data: {
-            courseId: course.id,
-            prerequisiteId: prerequisite.id
+          if (!prerequisite) {
+            console.log(`⚠️  Prerequisite not found: ${prereqCode}`)
+            skipped++
+            continue
           }
-        })
 
-        created++
-        console.log(`✅ ${prereqCode} → ${data.course}`)
+          // Create the prerequisite relationship
+          await prisma.prerequisite.create({
+            data: {
+              courseId: course.id,
+              prerequisiteId: prerequisite.id,
+              groupIndex
+            }
+          })
+
+          created++
+          console.log(`✅ ${prereqCode} → ${data.course}`)
+        }
       }
     }
 
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { getDegreeAudit } from "@/lib/audit"
+
+const prisma = new PrismaClient()
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const audit = await getDegreeAudit(prisma, user.id)
+
+    return NextResponse.json(audit)
+  } catch (error) {
+    console.error("Error running degree audit:", error)
+    return NextResponse.json(
+      { error: "Failed to run degree audit" },
+      { status: 500 }
+    )
+  }
+}
@@ -3,17 +3,22 @@ import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { PrismaClient } from "@prisma/client"
 import { GoogleGenerativeAI } from "@google/generative-ai"
+import { describePrerequisites } from "@/lib/prerequisites"
+import { describeCorequisites } from "@/lib/corequisites"
+import { findAuditRule, getDegreeAudit } from "@/lib/audit"
+import { formatGpa } from "@/lib/grades"
+import { ATTEMPT_STATUSES, describeAttemptTerm, getEffectiveAttempts } from "@/lib/course-attempts"
+import { describeTerm } from "@/lib/terms"
+import { ProgramScope, scopeCoursesToProgram } from "@/lib/programs"
+import { describeTransferCredit } from "@/lib/transfer-credits"
 
 const prisma = new PrismaClient()
 
-// Cache for course catalog (refreshes every 5 minutes)
-let courseCatalogCache: {
-  data: string | null
+// Cache for course catalog per program and catalog year (refreshes every 5 minutes)
+const courseCatalogCache = new Map<string, {
+  data: string
   timestamp: number
-} = {
-  data: null,
-  timestamp: 0
-}
+}>()
 
 const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
 
@@ -21,32 +26,36 @@ const CACHE_TTL = 5 * 60 * 1000 // 5 minutes
 const rateLimitMap = new Map<string, number>()
 const RATE_LIMIT_MS = 2000 // 2 seconds between requests
 
-// Helper function to get or build course catalog
-async function getCourseCatalog(): Promise<string> {
+// Helper function to get or build the course catalog for a program
+async function getCourseCatalog(scope: ProgramScope): Promise<string> {
   const now = Date.now()
+  const cacheKey = `${scope.catalogYearId}:${scope.programId}`
 
   // Return cached data if still valid
-  if (courseCatalogCache.data && now - courseCatalogCache.timestamp < CACHE_TTL) {
-    return courseCatalogCache.data
+  const cached = courseCatalogCache.get(cacheKey)
+  if (cached && now - cached.timestamp < CACHE_TTL) {
+    return cached.data
   }
 
   // Fetch and build course catalog
   const allCourses = await prisma.course.findMany({
+    where: { catalogYearId: scope.catalogYearId ?? undefined },
     include: {
-      prerequisites: {
+      // requiredBy = the prerequisites that THIS course requires
+      requiredBy: {
+        orderBy: {
+          groupIndex: 'asc'
+        },
         include: {
-          prerequisite: {
-            include: {
-              alternatives: {
-                include: {
-                  alternative: true
-                }
-              }
-            }
-          }
+          prerequisite: true,
+          requirement: true
         }
       },
-      corequisites: {
+      // corequisiteOf = the corequisites that THIS course requires
+      corequisiteOf: {
+        orderBy: {
+          groupIndex: 'asc'
+        },
         include: {
           corequisite: true
         }
@@ -54,16 +63,11 @@ async function getCourseCatalog(): Promise<string> {
     }
   })
 
-  const courseDetails = allCourses.map(course => {
-    const prereqs = course.prerequisites.map(p => {
-      if (p.prerequisite.alternatives && p.prerequisite.alternatives.length > 0) {
-        const alts = p.prerequisite.alternatives.map(a => a.alternative.code).join(' OR ')
-        return `${p.prerequisite.code} (alternatives: ${alts})`
-      }
-      return p.prerequisite.code
-    })
+  const courseDetails = scopeCoursesToProgram(allCourses, scope).map(course => {
+    // One entry per prerequisite group, e.g. "CGS3269 or CDA3103C"
+    const prereqs = describePrerequisites(course.requiredBy)
 
-    const coreqs = course.corequisites.map(c => c.corequisite.code)
+    const coreqs = describeCorequisites(course.corequisiteOf)
 
     let courseInfo = `${course.code}: ${course.name} (${course.credits} credits)`
     if (prereqs.length > 0) courseInfo += ` | Prerequisites: ${prereqs.join(', ')}`
@@ -74,8 +78,7 @@ async function getCourseCatalog(): Promise<string> {
   }).join('\n')
 
   // Update cache
-  courseCatalogCache.data = courseDetails
-  courseCatalogCache.timestamp = now
+  courseCatalogCache.set(cacheKey, { data: courseDetails, timestamp: now })
 
   return courseDetails
 }
@@ -114,14 +117,15 @@ export async function POST(request: NextRequest) {
 
     // Get user ID
     const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
+      where: { email: session.user.email },
+      include: { program: true, catalogYear: true }
     })
 
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 })
     }
 
-    // Fetch user's completed courses
+    // Fetch user's course attempts
     const userCourses = await prisma.userCourse.findMany({
       where: { userId: user.id },
       include: {
@@ -129,13 +133,21 @@ export async function POST(request: NextRequest) {
       }
     })
 
-    const completedCourses = userCourses.filter(uc => uc.completed)
+    // A repeated course shows once, with its latest completed attempt
+    const completedCourses = [...getEffectiveAttempts(userCourses).values()]
+    const otherAttempts = userCourses.filter(uc => uc.status !== 'completed')
 
-    // Fetch user's schedules (limit to most recent one)
-    const schedules = await prisma.schedule.findMany({
+    // Transfer, AP/IB and dual-enrollment credit
+    const transferCredits = await prisma.transferCredit.findMany({
       where: { userId: user.id },
+      include: { course: true }
+    })
+
+    // Fetch the plan the student is following (their primary plan, else the newest)
+    const schedules = await prisma.schedule.findMany({
+      where: { userId: user.id, archived: false },
       take: 1,
-      orderBy: { createdAt: 'desc' },
+      orderBy: [{ isPrimary: 'desc' }, { createdAt: 'desc' }],
       include: {
         items: {
           include: {
@@ -151,63 +163,64 @@ export async function POST(request: NextRequest) {
       }
     })
 
-    // Fetch basic course info for progress calculation (no deep includes)
-    const allCourses = await prisma.course.findMany({
-      select: {
-        id: true,
-        code: true,
-        name: true,
-        credits: true,
-        isElective: true,
-        electiveLevel: true
-      }
-    })
-
-    // Calculate degree progress
-    const completedCourseIds = new Set(completedCourses.map(uc => uc.courseId))
-    const requiredCourses = allCourses.filter(c => !c.isElective)
-    const electiveCourses = allCourses.filter(c => c.isElective)
-
-    const completedRequired = requiredCourses.filter(c => completedCourseIds.has(c.id))
-    const remainingRequired = requiredCourses.filter(c => !completedCourseIds.has(c.id))
+    // Degree progress comes from the same audit the dashboard shows
+    const audit = await getDegreeAudit(prisma, user.id)
+    const creditsRemaining = Math.max(0, audit.requiredCredits - audit.totalCredits)
 
-    const completedElectives = electiveCourses.filter(c => completedCourseIds.has(c.id))
-    const totalCreditsCompleted = completedCourses.reduce((sum, uc) => sum + uc.course.credits, 0)
-    const creditsRemaining = 120 - totalCreditsCompleted
+    const coreRule = findAuditRule(audit, 'required_courses')
+    const remainingRequired = coreRule?.remainingCourses ?? []
 
-    // Categorize electives
-    const elective4000 = electiveCourses.filter(c => c.electiveLevel === '4000_level')
-    const completed4000Electives = elective4000.filter(c => completedCourseIds.has(c.id))
-
-    // Calculate electives needed (UCF IT degree requires 2 electives per flowchart)
-    const electivesNeeded = 2
+    const electiveRule = findAuditRule(audit, 'elective_courses')
+    const completedElectives = electiveRule?.appliedCourses ?? []
+    const electivesNeeded = electiveRule?.required ?? 0
     const electivesRemaining = Math.max(0, electivesNeeded - completedElectives.length)
 
+    // Electives the student picked on the roadmap for their elective slots
+    const electiveSelections = await prisma.electiveSelection.findMany({
+      where: { userId: user.id },
+      orderBy: { slot: 'asc' },
+      include: { course: { select: { code: true, name: true } } }
+    })
+
     // Build comprehensive context for AI - single API call approach prevents 429 errors
     const context = `You are an academic advisor for DegreeMe, a UCF CS/IT degree planning application.
 
+PROGRAM: ${user.program?.name ?? 'Not selected yet (ask the student to pick one on the dashboard)'}
+CATALOG YEAR: ${user.catalogYear?.name ?? 'Current catalog'}
+
 STUDENT PROGRESS SUMMARY:
-- Total Credits: ${totalCreditsCompleted}/120 (${creditsRemaining} remaining)
-- Required Courses: ${completedRequired.length}/${requiredCourses.length} completed (${remainingRequired.length} remaining)
+- Total Credits: ${audit.totalCredits}/${audit.requiredCredits} (${creditsRemaining} remaining, ${audit.transferCredits} from transfer/AP/IB/dual enrollment)
+- Required Courses: ${coreRule?.earned ?? 0}/${coreRule?.required ?? 0} completed (${remainingRequired.length} remaining)
 - Electives: ${completedElectives.length}/${electivesNeeded} completed (${electivesRemaining} remaining)
-- 4000-level Electives: ${completed4000Electives.length} completed
+- Elective picks: ${electiveSelections.length > 0 ? electiveSelections.map(es => `${es.course.code} (${es.course.name})`).join(', ') : 'None yet (chosen on the roadmap)'}
+- GPA: ${formatGpa(audit.gpa)} overall, ${formatGpa(audit.majorGpa)} in the major
+
+DEGREE AUDIT:
+${audit.rules.map(rule => `- ${rule.name}: ${rule.status.replace('_', ' ')} (${rule.earned}/${rule.required} ${rule.unit})`).join('\n')}
 
 COMPLETED COURSES (${completedCourses.length} total):
-${completedCourses.map(uc => `- ${uc.course.code}: ${uc.course.name} (${uc.course.credits} credits)`).join('\n')}
+${completedCourses.map(uc => `- ${uc.course.code}: ${uc.course.name} (${uc.course.credits} credits${uc.grade ? `, grade ${uc.grade}` : ''})`).join('\n')}
+
+OTHER ATTEMPTS (planned, enrolled, withdrawn or failed):
+${otherAttempts.length > 0
+  ? otherAttempts.map(uc => `- ${uc.course.code}: ${ATTEMPT_STATUSES[uc.status] ?? uc.status}, ${describeAttemptTerm(uc)}${uc.grade ? `, grade ${uc.grade}` : ''}`).join('\n')
+  : 'None'}
+
+TRANSFER CREDIT (${transferCredits.length} records):
+${transferCredits.length > 0
+  ? transferCredits.map(tc => `- ${describeTransferCredit(tc)}: ${tc.course ? `counts as ${tc.course.code}` : 'unassigned elective credit'} (${tc.credits} credits)`).join('\n')
+  : 'None'}
 
 REMAINING REQUIRED COURSES (${remainingRequired.length} courses):
 ${remainingRequired.map(c => `- ${c.code}: ${c.name} (${c.credits} credits)`).join('\n')}
 
 ${schedules.length > 0 ? `CURRENT SCHEDULE:
 ${schedules[0].items.map(item =>
-  `${item.semester} ${item.year}: ${item.course.code} - ${item.course.name} (${item.course.credits} credits)`
+  `${describeTerm(item)}: ${item.course.code} - ${item.course.name} (${item.course.credits} credits)`
 ).join('\n')}` : 'No schedule generated yet.'}
 
 DEGREE REQUIREMENTS:
-- Total Credits: 120
-- Required Core Courses: ${requiredCourses.length} courses
-- Electives: 2 CS/IT 3/4xxx restricted electives
-- Minimum Grade: C (2.0) in all major courses
+${audit.rules.map(rule => `- ${rule.name}${rule.description ? `: ${rule.description}` : ''}`).join('\n')}
 
 Respond in plain text only. Be concise, friendly, and helpful.`
 
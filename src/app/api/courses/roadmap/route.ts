@@ -1,27 +1,63 @@
 import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
 import { PrismaClient } from "@prisma/client"
+import { getProgramScopeForEmail, scopeCoursesToProgram } from "@/lib/programs"
 
 const prisma = new PrismaClient()
 
+type GroupMember = { id: string, code: string }
+
+// A prerequisite's alternatives: the other members of the course groups it's in
+function withGroupAlternatives<T extends GroupMember & { groups: { group: { courses: { course: GroupMember }[] } }[] }>(
+  { groups, ...course }: T
+) {
+  return {
+    ...course,
+    alternatives: groups
+      .flatMap(({ group }) => group.courses.map(member => member.course))
+      .filter(member => member.id !== course.id),
+  }
+}
+
 export async function GET() {
   try {
     console.log("API: Fetching courses for roadmap...")
 
+    const session = await getServerSession(authOptions)
+    const scope = await getProgramScopeForEmail(prisma, session?.user?.email)
+
     // Fetch all courses with their REQUIREMENTS (not what they're prerequisites for)
     const courses = await prisma.course.findMany({
+      where: { catalogYearId: scope.catalogYearId ?? undefined },
       include: {
+        waivedBy: true,
+        offerings: true,
         // requiredBy = the prerequisites that THIS course requires
         requiredBy: {
+          orderBy: {
+            groupIndex: 'asc'
+          },
           include: {
+            // The course groups it's in, whose other members stand in for it
             prerequisite: {
               include: {
-                alternatives: {
+                groups: {
                   include: {
-                    alternative: true
+                    group: {
+                      include: {
+                        courses: {
+                          include: {
+                            course: { select: { id: true, code: true } }
+                          }
+                        }
+                      }
+                    }
                   }
                 }
               }
-            }
+            },
+            requirement: true
           }
         }
       },
@@ -30,11 +66,14 @@ export async function GET() {
       }
     })
 
-    // Transform to match expected structure
-    const transformedCourses = courses.map(course => ({
+    // Transform to match expected structure (rows sharing a groupIndex are OR options)
+    const transformedCourses = scopeCoursesToProgram(courses, scope).map(course => ({
       ...course,
       prerequisites: course.requiredBy.map(req => ({
-        prerequisite: req.prerequisite
+        groupIndex: req.groupIndex,
+        minGrade: req.minGrade,
+        prerequisite: req.prerequisite && withGroupAlternatives(req.prerequisite),
+        requirement: req.requirement
       }))
     }))
 
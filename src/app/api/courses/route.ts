@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
 import { PrismaClient } from "@prisma/client"
+import { getProgramScopeForEmail, scopeCoursesToProgram } from "@/lib/programs"
 
 // Create a new Prisma client instance
 const prisma = new PrismaClient({
@@ -10,11 +13,16 @@ export async function GET() {
   try {
     console.log("API: Starting to fetch courses...")
     
-    const courses = await prisma.course.findMany({
+    // Signed-in students only see their catalog year and their program's required courses and electives
+    const session = await getServerSession(authOptions)
+    const scope = await getProgramScopeForEmail(prisma, session?.user?.email)
+
+    const courses = scopeCoursesToProgram(await prisma.course.findMany({
+      where: { catalogYearId: scope.catalogYearId ?? undefined },
       orderBy: [
         { code: 'asc' }
       ]
-    })
+    }), scope)
     
     console.log(`API: Successfully fetched ${courses.length} courses`)
     
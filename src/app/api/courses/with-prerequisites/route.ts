@@ -1,5 +1,8 @@
 import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
 import { PrismaClient } from "@prisma/client"
+import { getProgramScopeForEmail, scopeCoursesToProgram } from "@/lib/programs"
 
 const prisma = new PrismaClient()
 
@@ -7,14 +10,27 @@ export async function GET() {
   try {
     console.log("API: Fetching courses with prerequisites...")
     
+    const session = await getServerSession(authOptions)
+    const scope = await getProgramScopeForEmail(prisma, session?.user?.email)
+
     const courses = await prisma.course.findMany({
+      where: { catalogYearId: scope.catalogYearId ?? undefined },
       include: {
-        prerequisites: {
+        // requiredBy = the prerequisites that THIS course requires
+        requiredBy: {
+          orderBy: {
+            groupIndex: 'asc'
+          },
           include: {
-            prerequisite: true
+            prerequisite: true,
+            requirement: true
           }
         },
-        corequisites: {
+        // corequisiteOf = the corequisites that THIS course requires
+        corequisiteOf: {
+          orderBy: {
+            groupIndex: 'asc'
+          },
           include: {
             corequisite: true
           }
@@ -23,16 +39,34 @@ export async function GET() {
           include: {
             alternative: true
           }
-        }
+        },
+        // Terms the course runs in, for the scheduler
+        offerings: true
       },
       orderBy: [
         { code: 'asc' }
       ]
     })
+
+    // Expose requirements as `prerequisites`/`corequisites`; rows sharing a groupIndex are OR options
+    const transformedCourses = scopeCoursesToProgram(courses, scope).map(({ requiredBy, corequisiteOf, ...course }) => ({
+      ...course,
+      prerequisites: requiredBy.map(req => ({
+        groupIndex: req.groupIndex,
+        minGrade: req.minGrade,
+        prerequisite: req.prerequisite,
+        requirement: req.requirement
+      })),
+      corequisites: corequisiteOf.map(req => ({
+        groupIndex: req.groupIndex,
+        timing: req.timing,
+        corequisite: req.corequisite
+      }))
+    }))
     
-    console.log(`API: Successfully fetched ${courses.length} courses with prerequisites`)
+    console.log(`API: Successfully fetched ${transformedCourses.length} courses with prerequisites`)
     
-    return NextResponse.json(courses)
+    return NextResponse.json(transformedCourses)
   } catch (error) {
     console.error("Error fetching courses with prerequisites:", error)
     return NextResponse.json(
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { getProgramScope } from "@/lib/programs"
+import { getWorkloadScore, isValidWorkload } from "@/lib/workload"
+
+const prisma = new PrismaClient()
+
+// Workload score of every course in the student's catalog year, and the
+// ratings the student reported themselves
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const scope = await getProgramScope(prisma, user)
+    const courses = await prisma.course.findMany({
+      where: { catalogYearId: scope.catalogYearId ?? undefined },
+      select: { id: true, workload: true, workloadReports: { select: { userId: true, rating: true } } }
+    })
+
+    const scores: Record<string, number> = {}
+    const ratings: Record<string, number> = {}
+    for (const course of courses) {
+      scores[course.id] = getWorkloadScore(course.workload, course.workloadReports.map(report => report.rating))
+      const own = course.workloadReports.find(report => report.userId === user.id)
+      if (own) ratings[course.id] = own.rating
+    }
+
+    return NextResponse.json({ scores, ratings })
+  } catch (error) {
+    console.error("Error fetching course workload:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch course workload" },
+      { status: 500 }
+    )
+  }
+}
+
+// Rate how heavy a course was (1 to 5), once the student has taken it;
+// a null rating takes the report back
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseId, rating } = await request.json()
+
+    if (typeof courseId !== "string" || (rating !== null && !isValidWorkload(rating))) {
+      return NextResponse.json({ error: "Rating must be a whole number from 1 to 5" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    // Only a finished attempt (passed or failed) says how heavy the course is
+    const taken = await prisma.userCourse.findFirst({
+      where: { userId: user.id, courseId, status: { in: ["completed", "failed"] } }
+    })
+
+    if (!taken) {
+      return NextResponse.json({ error: "Only courses you've taken can be rated" }, { status: 400 })
+    }
+
+    if (rating === null) {
+      await prisma.workloadReport.deleteMany({ where: { userId: user.id, courseId } })
+      return NextResponse.json({ success: true })
+    }
+
+    const report = await prisma.workloadReport.upsert({
+      where: { userId_courseId: { userId: user.id, courseId } },
+      update: { rating },
+      create: { userId: user.id, courseId, rating }
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error("Error saving workload report:", error)
+    return NextResponse.json(
+      { error: "Failed to save workload report" },
+      { status: 500 }
+    )
+  }
+}
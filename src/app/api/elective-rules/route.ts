@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { getProgramScopeForEmail } from "@/lib/programs"
+
+const prisma = new PrismaClient()
+
+export async function GET() {
+  try {
+    // Rules from the student's catalog year
+    const session = await getServerSession(authOptions)
+    const scope = await getProgramScopeForEmail(prisma, session?.user?.email)
+
+    const rules = await prisma.electiveRule.findMany({
+      where: { catalogYearId: scope.catalogYearId ?? undefined },
+      orderBy: { code: 'asc' }
+    })
+
+    return NextResponse.json(rules)
+  } catch (error) {
+    console.error("Error fetching elective rules:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch elective rules" },
+      { status: 500 }
+    )
+  }
+}
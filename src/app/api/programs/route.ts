@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+
+const prisma = new PrismaClient()
+
+export async function GET() {
+  try {
+    // Every published catalog year, newest first; picking a program pins its year
+    const programs = await prisma.program.findMany({
+      include: {
+        catalogYear: {
+          select: { id: true, year: true, name: true, isCurrent: true }
+        },
+        _count: {
+          select: { courses: true }
+        }
+      },
+      orderBy: [{ catalogYear: { year: 'desc' } }, { name: 'asc' }]
+    })
+
+    return NextResponse.json(programs)
+  } catch (error) {
+    console.error("Error fetching programs:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch programs" },
+      { status: 500 }
+    )
+  }
+}
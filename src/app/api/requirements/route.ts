@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+
+const prisma = new PrismaClient()
+
+export async function GET() {
+  try {
+    // Placements, exams, GPA gates and consents that courses can list as prerequisites
+    const requirements = await prisma.requirement.findMany({
+      include: {
+        waives: {
+          select: {
+            id: true,
+            code: true
+          }
+        }
+      },
+      orderBy: [
+        { type: 'asc' },
+        { name: 'asc' }
+      ]
+    })
+
+    return NextResponse.json(requirements)
+  } catch (error) {
+    console.error("Error fetching requirements:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch requirements" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { getUniquePlanName, PLAN_INCLUDE, savePlanRevision } from "@/lib/schedule-plans"
+
+const prisma = new PrismaClient()
+
+// Copy a plan (its current courses, not its history) into a new one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const plan = await prisma.schedule.findFirst({
+      where: { id: params.id, userId: user.id },
+      include: { items: true }
+    })
+
+    if (!plan) {
+      return NextResponse.json({ error: "Plan not found" }, { status: 404 })
+    }
+
+    const existingNames = (await prisma.schedule.findMany({
+      where: { userId: user.id },
+      select: { name: true }
+    })).map(p => p.name)
+
+    const copy = await prisma.schedule.create({
+      data: {
+        userId: user.id,
+        name: getUniquePlanName(existingNames, `Copy of ${plan.name}`),
+        strategy: plan.strategy
+      }
+    })
+    await savePlanRevision(prisma, copy.id, plan.items, `Duplicated from ${plan.name}`)
+
+    const schedule = await prisma.schedule.findUnique({
+      where: { id: copy.id },
+      include: PLAN_INCLUDE
+    })
+
+    return NextResponse.json({ schedule })
+  } catch (error) {
+    console.error("Error duplicating plan:", error)
+    return NextResponse.json(
+      { error: "Failed to duplicate plan" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { validatePlan } from "@/lib/plan-validation"
+import { applyPlanEdit, PLAN_INCLUDE, PlanEditAction, savePlanRevision } from "@/lib/schedule-plans"
+import { loadSchedulingContext } from "@/lib/scheduling-context"
+import { describeTerm, isValidSummerSession, TERM_ORDER } from "@/lib/terms"
+
+const prisma = new PrismaClient()
+
+const EDIT_ACTIONS: PlanEditAction[] = ["move", "add", "remove", "swap", "pin"]
+
+// Problems with the plan as it stands: prerequisites, corequisites,
+// offerings, credit caps and terms off
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const plan = await prisma.schedule.findFirst({
+      where: { id: params.id, userId: user.id },
+      include: { items: true }
+    })
+
+    if (!plan) {
+      return NextResponse.json({ error: "Plan not found" }, { status: 404 })
+    }
+
+    const context = await loadSchedulingContext(prisma, user)
+
+    return NextResponse.json({ violations: validatePlan({ ...context, items: plan.items }) })
+  } catch (error) {
+    console.error("Error validating plan:", error)
+    return NextResponse.json(
+      { error: "Failed to validate plan" },
+      { status: 500 }
+    )
+  }
+}
+
+// Move a course to another term, add or remove one, swap an elective, or
+// pin a course to its term so regenerating keeps it there.
+// Edits are saved even when they break a rule; the violations come back
+// with the plan so the page can show them next to the courses.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { action, courseId, semester, year, session: summerSession, replacementCourseId, pinned } = await request.json()
+
+    if (!EDIT_ACTIONS.includes(action) || typeof courseId !== "string") {
+      return NextResponse.json({ error: "Invalid plan edit" }, { status: 400 })
+    }
+
+    if (action === "move" || action === "add") {
+      if (!TERM_ORDER.includes(semester) || !Number.isInteger(year)) {
+        return NextResponse.json({ error: "Invalid term" }, { status: 400 })
+      }
+      if (semester === "Summer" && summerSession && !isValidSummerSession(summerSession)) {
+        return NextResponse.json({ error: "Invalid summer session" }, { status: 400 })
+      }
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const plan = await prisma.schedule.findFirst({
+      where: { id: params.id, userId: user.id },
+      include: { items: true }
+    })
+
+    if (!plan) {
+      return NextResponse.json({ error: "Plan not found" }, { status: 404 })
+    }
+
+    const context = await loadSchedulingContext(prisma, user)
+    const courseById = new Map(context.courses.map(course => [course.id, course]))
+    const course = courseById.get(courseId)
+
+    if (action === "add" && !course) {
+      return NextResponse.json({ error: "Course isn't part of your program" }, { status: 400 })
+    }
+
+    // Only an elective can stand in for an elective
+    if (action === "swap") {
+      const replacement = courseById.get(replacementCourseId)
+      if (!course?.isElective || !replacement?.isElective) {
+        return NextResponse.json({ error: "Only electives can be swapped" }, { status: 400 })
+      }
+    }
+
+    const edited = applyPlanEdit(plan.items, { action, courseId, semester, year, session: summerSession, replacementCourseId, pinned })
+    if ("error" in edited) {
+      return NextResponse.json({ error: edited.error }, { status: 400 })
+    }
+
+    const code = course?.code ?? "course"
+    const term = describeTerm({ semester, year, session: semester === "Summer" ? summerSession : null })
+    const item = plan.items.find(item => item.courseId === courseId)
+    const notes: Record<PlanEditAction, string> = {
+      move: `Moved ${code} to ${term}`,
+      add: `Added ${code} in ${term}`,
+      remove: `Removed ${code}`,
+      swap: `Swapped ${code} for ${courseById.get(replacementCourseId)?.code}`,
+      pin: pinned && item ? `Pinned ${code} to ${describeTerm(item)}` : `Unpinned ${code}`,
+    }
+    await savePlanRevision(prisma, plan.id, edited.items, notes[action as PlanEditAction])
+
+    const schedule = await prisma.schedule.findUnique({
+      where: { id: plan.id },
+      include: PLAN_INCLUDE
+    })
+
+    return NextResponse.json({ schedule, violations: validatePlan({ ...context, items: edited.items }) })
+  } catch (error) {
+    console.error("Error editing plan:", error)
+    return NextResponse.json(
+      { error: "Failed to edit plan" },
+      { status: 500 }
+    )
+  }
+}
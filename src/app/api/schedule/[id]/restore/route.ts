@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { PLAN_INCLUDE, savePlanRevision } from "@/lib/schedule-plans"
+
+const prisma = new PrismaClient()
+
+// Bring back an earlier revision; it becomes the plan's newest revision
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { revisionId } = await request.json()
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const revision = await prisma.scheduleRevision.findFirst({
+      where: {
+        id: revisionId,
+        scheduleId: params.id,
+        schedule: { userId: user.id }
+      },
+      include: { items: true }
+    })
+
+    if (!revision) {
+      return NextResponse.json({ error: "Revision not found" }, { status: 404 })
+    }
+
+    await savePlanRevision(prisma, params.id, revision.items, `Restored revision ${revision.number}`)
+
+    const schedule = await prisma.schedule.findUnique({
+      where: { id: params.id },
+      include: PLAN_INCLUDE
+    })
+
+    return NextResponse.json({ schedule })
+  } catch (error) {
+    console.error("Error restoring plan revision:", error)
+    return NextResponse.json(
+      { error: "Failed to restore revision" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+
+const prisma = new PrismaClient()
+
+// A plan's version history, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const revisions = await prisma.scheduleRevision.findMany({
+      where: {
+        scheduleId: params.id,
+        schedule: { userId: user.id }
+      },
+      include: {
+        items: {
+          include: {
+            course: {
+              select: { code: true, credits: true }
+            }
+          }
+        }
+      },
+      orderBy: { number: 'desc' }
+    })
+
+    return NextResponse.json({ revisions })
+  } catch (error) {
+    console.error("Error fetching plan history:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch plan history" },
+      { status: 500 }
+    )
+  }
+}
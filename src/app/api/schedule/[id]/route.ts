@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { ensurePrimaryPlan, PLAN_INCLUDE, setPrimaryPlan } from "@/lib/schedule-plans"
+
+const prisma = new PrismaClient()
+
+// Rename, archive/unarchive or make a plan the primary one
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { name, archived, isPrimary } = await request.json()
+
+    if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+      return NextResponse.json({ error: "Plan name can't be empty" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const plan = await prisma.schedule.findFirst({
+      where: { id: params.id, userId: user.id }
+    })
+
+    if (!plan) {
+      return NextResponse.json({ error: "Plan not found" }, { status: 404 })
+    }
+
+    await prisma.schedule.update({
+      where: { id: plan.id },
+      data: {
+        name: name !== undefined ? name.trim() : undefined,
+        // An archived plan can't stay primary
+        archived: typeof archived === "boolean" ? archived : undefined,
+        isPrimary: archived === true ? false : undefined,
+      }
+    })
+
+    if (isPrimary === true) {
+      await setPrimaryPlan(prisma, user.id, plan.id)
+    }
+    await ensurePrimaryPlan(prisma, user.id)
+
+    const updated = await prisma.schedule.findUnique({
+      where: { id: plan.id },
+      include: PLAN_INCLUDE
+    })
+
+    return NextResponse.json({ schedule: updated })
+  } catch (error) {
+    console.error("Error updating plan:", error)
+    return NextResponse.json(
+      { error: "Failed to update plan" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    await prisma.schedule.deleteMany({
+      where: {
+        id: params.id,
+        userId: user.id
+      }
+    })
+    await ensurePrimaryPlan(prisma, user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting plan:", error)
+    return NextResponse.json(
+      { error: "Failed to delete plan" },
+      { status: 500 }
+    )
+  }
+}
@@ -2,30 +2,18 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { PrismaClient } from "@prisma/client"
+import { getSelectedElectiveIds, loadElectiveSlots, planElectives } from "@/lib/elective-selections"
+import { DEFAULT_PLANNING_PREFERENCES, PlanningPreferences, validatePlanningPreferences } from "@/lib/planning-preferences"
+import { Infeasibility, PinConflict, ScheduledCourse, ScheduleResult } from "@/lib/scheduler"
+import { generateStrategySchedules, SCHEDULE_STRATEGIES } from "@/lib/schedule-strategies"
+import { deleteUntouchedGeneratedPlans, ensurePrimaryPlan, getUniquePlanName, PLAN_INCLUDE, savePlanRevision } from "@/lib/schedule-plans"
+import { loadSchedulingContext, ProgramCourse } from "@/lib/scheduling-context"
+import { describeTerm } from "@/lib/terms"
 
 const prisma = new PrismaClient()
 
-interface Course {
-  id: string
-  code: string
-  name: string
-  credits: number
-  gepRequirement: boolean
-  category: string | null
-  description: string | null
-  note: string | null
-  isElective: boolean
-  electiveLevel: string | null
-  prerequisites: { prerequisite: Course }[]
-  corequisites: { corequisite: Course }[]
-}
-
-interface UserCourse {
-  id: string
-  courseId: string
-  completed: boolean
-  course: Course
-}
+// What a client may send; the catalog and the student's history always come from the database
+const ACCEPTED_FIELDS = ["planId", "selectedElectiveIds", "preferences"]
 
 export async function POST(request: NextRequest) {
   const timeout = setTimeout(() => {
@@ -39,7 +27,47 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const { courses: allCourses, completedCourses, selectedElectiveIds = [] } = await request.json()
+    // With a planId the plan is regenerated in place (as a new revision) with
+    // the strategy it was made with, around the courses pinned in it;
+    // otherwise a new plan per strategy is created. `preferences` overrides
+    // the saved planning preferences and `selectedElectiveIds` the saved
+    // elective picks, for this run only.
+    const body = await request.json()
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      clearTimeout(timeout)
+      return NextResponse.json({ error: "Request body must be an object" }, { status: 400 })
+    }
+    const { selectedElectiveIds, planId, preferences: preferenceOverrides } = body
+
+    const unexpected = Object.keys(body).filter(field => !ACCEPTED_FIELDS.includes(field))
+    if (unexpected.length > 0) {
+      clearTimeout(timeout)
+      return NextResponse.json({
+        error: `Unexpected field${unexpected.length > 1 ? "s" : ""} ${unexpected.join(", ")}: the catalog and course history are loaded from your record`
+      }, { status: 400 })
+    }
+
+    if (planId !== undefined && (typeof planId !== "string" || !planId)) {
+      clearTimeout(timeout)
+      return NextResponse.json({ error: "planId must be a plan id" }, { status: 400 })
+    }
+
+    if (selectedElectiveIds !== undefined && (
+      !Array.isArray(selectedElectiveIds) || selectedElectiveIds.some(id => typeof id !== "string")
+    )) {
+      clearTimeout(timeout)
+      return NextResponse.json({ error: "selectedElectiveIds must be a list of course ids" }, { status: 400 })
+    }
+
+    if (preferenceOverrides !== undefined && (
+      typeof preferenceOverrides !== "object" || preferenceOverrides === null ||
+      Object.keys(preferenceOverrides).some(key => !(key in DEFAULT_PLANNING_PREFERENCES))
+    )) {
+      clearTimeout(timeout)
+      return NextResponse.json({
+        error: `preferences can only set ${Object.keys(DEFAULT_PLANNING_PREFERENCES).join(", ")}`
+      }, { status: 400 })
+    }
 
     // Get user ID
     const user = await prisma.user.findUnique({
@@ -47,138 +75,209 @@ export async function POST(request: NextRequest) {
     })
 
     if (!user) {
+      clearTimeout(timeout)
       return NextResponse.json({ error: "User not found" }, { status: 404 })
     }
 
-    console.log("Generating schedule for user:", user.id)
-    console.log("Completed courses count:", completedCourses.length)
-    console.log("Total courses available:", allCourses.length)
-    console.log("Selected elective IDs:", selectedElectiveIds)
+    const existingPlan = planId
+      ? await prisma.schedule.findFirst({ where: { id: planId, userId: user.id }, include: { items: true } })
+      : null
 
-    // Get the electives the user has selected from the roadmap
-    let selectedElectives: Course[] = []
-    if (selectedElectiveIds.length > 0) {
-      selectedElectives = allCourses.filter((course: Course) =>
-        selectedElectiveIds.includes(course.id)
-      )
-      console.log("Found selected electives:", selectedElectives.map(e => e.code).join(', '))
+    if (planId && !existingPlan) {
+      clearTimeout(timeout)
+      return NextResponse.json({ error: "Plan not found" }, { status: 404 })
     }
 
-    // Check how many electives are already completed
-    const completedElectiveCount = completedCourses.filter(uc =>
-      uc.course.isElective && uc.completed
-    ).length
-    console.log("Completed electives:", completedElectiveCount)
-
-    // Need 2 total electives, so we need to schedule (2 - completed)
-    const electivesNeeded = Math.max(0, 2 - completedElectiveCount)
-    console.log("Electives needed in schedule:", electivesNeeded)
+    // The student's program (required courses plus electives), completions
+    // with transfer equivalents, placements on record, summers and preferences
+    const context = await loadSchedulingContext(prisma, user)
+    const { scope, courses: allCourses, completions, satisfiedRequirementIds, summerTerms, courseGroups } = context
+    const courseById = new Map(allCourses.map(course => [course.id, course]))
 
-    // If user has selected electives, use those. Otherwise, pick 4000-level electives
-    let electivesToSchedule: Course[] = []
-    if (selectedElectives.length > 0) {
-      // Use selected electives that aren't already completed
-      electivesToSchedule = selectedElectives.filter(elective =>
-        !completedCourses.some(uc => uc.courseId === elective.id && uc.completed)
-      ).slice(0, electivesNeeded)
+    const preferences: PlanningPreferences = { ...context.preferences, ...preferenceOverrides }
+    const invalidPreferences = validatePlanningPreferences(preferences)
+    if (invalidPreferences) {
+      clearTimeout(timeout)
+      return NextResponse.json({ error: invalidPreferences }, { status: 400 })
     }
 
-    // If we still need more electives, fill with 4000-level electives
-    if (electivesToSchedule.length < electivesNeeded) {
-      const fourThousandLevelElectives = allCourses.filter((course: Course) =>
-        course.isElective &&
-        course.electiveLevel === '4000_level' &&
-        !completedCourses.some(uc => uc.courseId === course.id && uc.completed) &&
-        !electivesToSchedule.some(e => e.id === course.id)
-      )
-      const additionalNeeded = electivesNeeded - electivesToSchedule.length
-      electivesToSchedule = [...electivesToSchedule, ...fourThousandLevelElectives.slice(0, additionalNeeded)]
+    // The student's saved elective picks unless the request names its own.
+    // Picks sent with the request have to be electives of the student's own
+    // program; saved ones that no longer are (after a program switch) are skipped.
+    const electiveSlots = await loadElectiveSlots(prisma, user.id, scope)
+    const isProgramElective = (id: string) => !!courseById.get(id)?.isElective
+    const notElectives = (selectedElectiveIds as string[] | undefined)?.filter(id => !isProgramElective(id)) ?? []
+    if (notElectives.length > 0) {
+      clearTimeout(timeout)
+      return NextResponse.json({
+        error: "Selected electives aren't electives in your program",
+        courseIds: notElectives
+      }, { status: 400 })
     }
+    const pickedElectiveIds: string[] = selectedElectiveIds ?? getSelectedElectiveIds(electiveSlots).filter(isProgramElective)
+
+    // Elective restrictions for the student's program (IT-course cap, excluded courses, graduate limit)
+    const electiveRules = await prisma.electiveRule.findMany({
+      where: {
+        catalogYearId: scope.catalogYearId ?? undefined,
+        OR: [{ programId: null }, { programId: user.programId }]
+      }
+    })
+
+    console.log("Generating schedule for user:", user.id, scope.programName ?? "(no program)")
+    console.log("Completed courses count:", completions.length)
+    console.log("Total courses available:", allCourses.length)
+    console.log("Selected elective IDs:", pickedElectiveIds)
+
+    // The program's elective slots, less the electives already completed,
+    // filled with the picks and then 4000-level electives
+    const { completedElectives, electivesNeeded, electives: electivesToSchedule, rejected } = planElectives(
+      allCourses,
+      pickedElectiveIds,
+      electiveSlots.slots,
+      new Set(completions.filter(uc => uc.completed).map(uc => uc.courseId)),
+      satisfiedRequirementIds,
+      electiveRules,
+      { programId: user.programId, bsToMs: user.bsToMs }
+    )
+    console.log("Completed electives:", completedElectives.length)
+    console.log("Electives needed in schedule:", electivesNeeded)
+    rejected.forEach(({ course, violation }) =>
+      console.log(`Skipping selected elective ${course.code}: ${violation.rule.description}`)
+    )
 
     console.log("Electives to schedule:", electivesToSchedule.map(e => e.code).join(', '))
 
-    // Generate single schedule with selected/recommended electives
+    // One schedule per strategy (fastest, balanced, even difficulty, light load, summer-inclusive),
+    // all with the same selected/recommended electives
+    const pins = existingPlan?.items.filter(item => item.pinned) ?? []
+    const strategySchedules = generateStrategySchedules({
+      courses: allCourses,
+      electives: electivesToSchedule,
+      completions,
+      satisfiedRequirementIds,
+      summerTerms,
+      preferences,
+      today: new Date(),
+      pins,
+      courseGroups,
+    })
+
+    // Plans without a known strategy (duplicates, older plans) regenerate as the fastest one
+    const planStrategy = existingPlan?.strategy && existingPlan.strategy in SCHEDULE_STRATEGIES
+      ? existingPlan.strategy
+      : "fastest"
+
     const scheduleVariations: Array<{
+      strategy: string
       name: string
-      scheduledCourses: Array<{courseId: string, semester: string, year: number}>
+      scheduledCourses: ScheduledCourse[]
       electiveIds: string[]
-    }> = []
-
-    if (electivesToSchedule.length > 0) {
-      const scheduled = generatePrerequisiteAwareSchedule(allCourses, completedCourses, electivesToSchedule)
-      scheduleVariations.push({
-        name: "Your Schedule",
-        scheduledCourses: scheduled,
-        electiveIds: electivesToSchedule.map(e => e.id)
-      })
-    }
-
-    // If no variations were generated (not enough electives), generate a schedule without electives
-    if (scheduleVariations.length === 0) {
-      console.log("No electives available or selected, generating schedule with required courses only")
-      const scheduled = generatePrerequisiteAwareSchedule(allCourses, completedCourses, [])
-      scheduleVariations.push({
-        name: "Your Schedule",
-        scheduledCourses: scheduled,
-        electiveIds: []
+      infeasibilities: Infeasibility[]
+      pinConflicts: PinConflict[]
+      runsPastTarget: boolean
+      belowMinimumTerms: string[]
+      optimal: boolean
+    }> = strategySchedules
+      .filter(({ strategy }) => !existingPlan || strategy === planStrategy)
+      .map(({ strategy, name, result }) => {
+        console.log(`\n=== ${name} ===`)
+        logScheduleResult(result, allCourses)
+        return {
+          strategy,
+          name,
+          scheduledCourses: result.scheduledCourses,
+          electiveIds: electivesToSchedule.map(e => e.id),
+          infeasibilities: result.infeasibilities,
+          pinConflicts: result.pinConflicts,
+          runsPastTarget: result.runsPastTarget,
+          belowMinimumTerms: result.terms.filter(term => term.belowMinimum).map(term => describeTerm(term.term)),
+          optimal: result.optimal
+        }
       })
-    }
 
     console.log(`Generated ${scheduleVariations.length} schedule variations`)
 
-    // Delete all existing schedules for this user
-    await prisma.schedule.deleteMany({
-      where: { userId: user.id }
-    })
+    // A plan that can't keep its pins isn't saved; the student unpins or moves them
+    if (existingPlan && scheduleVariations[0].pinConflicts.length > 0) {
+      clearTimeout(timeout)
+      return NextResponse.json({
+        error: "Pinned courses can't all be kept in their terms",
+        pinConflicts: scheduleVariations[0].pinConflicts.map(conflict => ({
+          ...conflict,
+          code: conflict.courseId ? courseById.get(conflict.courseId)?.code ?? conflict.courseId : null
+        }))
+      }, { status: 400 })
+    }
 
-    // Create all schedule variations
-    const createdSchedules = []
-    for (const variation of scheduleVariations) {
-      const schedule = await prisma.schedule.create({
-        data: {
-          userId: user.id,
-          name: variation.name,
-          items: {
-            create: variation.scheduledCourses.map(item => ({
-              courseId: item.courseId,
-              semester: item.semester,
-              year: item.year
-            }))
-          }
-        },
-        include: {
-          items: {
-            include: {
-              course: {
-                include: {
-                  prerequisites: {
-                    include: {
-                      prerequisite: true
-                    }
-                  },
-                  corequisites: {
-                    include: {
-                      corequisite: true
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
-      })
-      createdSchedules.push(schedule)
-      console.log(`Created schedule "${variation.name}" with ${schedule.items.length} courses`)
+    // A new batch replaces the last one's untouched plans; plans the student
+    // edited, renamed, shared or follows are kept, and new ones get their own names
+    const planIds: string[] = []
+    if (existingPlan) {
+      // Pins on courses completed since drop out with the courses themselves
+      const pinnedIds = new Set(pins.map(pin => pin.courseId))
+      const items = scheduleVariations[0].scheduledCourses.map(course => ({ ...course, pinned: pinnedIds.has(course.courseId) }))
+      const pinnedCount = items.filter(item => item.pinned).length
+      await savePlanRevision(
+        prisma,
+        existingPlan.id,
+        items,
+        pinnedCount > 0 ? `Regenerated around ${pinnedCount} pinned course${pinnedCount > 1 ? "s" : ""}` : "Regenerated"
+      )
+      planIds.push(existingPlan.id)
+    } else {
+      await deleteUntouchedGeneratedPlans(prisma, user.id)
+      const existingNames = (await prisma.schedule.findMany({
+        where: { userId: user.id },
+        select: { name: true }
+      })).map(plan => plan.name)
+
+      for (const variation of scheduleVariations) {
+        const name = getUniquePlanName(existingNames, variation.name)
+        existingNames.push(name)
+
+        const plan = await prisma.schedule.create({
+          data: { userId: user.id, name, strategy: variation.strategy }
+        })
+        await savePlanRevision(prisma, plan.id, variation.scheduledCourses, "Generated")
+        planIds.push(plan.id)
+        console.log(`Created plan "${name}" with ${variation.scheduledCourses.length} courses`)
+      }
     }
+    await ensurePrimaryPlan(prisma, user.id)
+
+    const createdSchedules = await prisma.schedule.findMany({
+      where: { id: { in: planIds } },
+      include: PLAN_INCLUDE,
+      orderBy: { createdAt: 'asc' }
+    })
 
     // Return the first schedule as the primary one (for backwards compatibility)
     const primarySchedule = createdSchedules[0]
     console.log(`Successfully generated ${createdSchedules.length} schedules`)
     clearTimeout(timeout)
 
+    // Courses the fastest plan couldn't fit, and why (no feasible plan covers them)
+    const infeasibilities = scheduleVariations[0].infeasibilities.map(infeasibility => ({
+      ...infeasibility,
+      code: courseById.get(infeasibility.courseId)?.code ?? infeasibility.courseId
+    }))
+
+    // Where each plan misses the student's graduation target or minimum load,
+    // and whether it's proven to be the shortest
+    const planNotes = scheduleVariations.map((variation, index) => ({
+      planId: planIds[index],
+      runsPastTarget: variation.runsPastTarget,
+      targetGraduationTerm: preferences.targetGraduationTerm,
+      belowMinimumTerms: variation.belowMinimumTerms,
+      optimal: variation.optimal,
+    }))
+
     return NextResponse.json({
       schedule: primarySchedule,
-      schedules: createdSchedules
+      schedules: createdSchedules,
+      infeasibilities,
+      planNotes
     })
   } catch (error) {
     console.error("Error generating schedule:", error)
@@ -190,299 +289,25 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function generatePrerequisiteAwareSchedule(
-  allCourses: Course[],
-  completedCourses: UserCourse[],
-  selectedElectives: Course[]
-) {
-  console.log("Starting NEW prerequisite-aware schedule generation...")
-
-  const completedCourseIds = new Set(
-    completedCourses.filter(uc => uc.completed).map(uc => uc.courseId)
-  )
-
-  // Step 1: Separate required courses using isElective field
-  const allRequiredCourses = allCourses.filter(course => !course.isElective && !completedCourseIds.has(course.id))
-
-  console.log("Course breakdown:")
-  console.log("- Completed:", completedCourseIds.size)
-  console.log("- Required remaining:", allRequiredCourses.length)
-  console.log("- Selected electives:", selectedElectives.length, selectedElectives.map(e => e.code).join(', '))
-
-  // Step 2: Handle alternatives - only include ONE course from each alternatives group
-  // Build alternatives graph using the JSON data
-  const alternativesGraph = new Map<string, Set<string>>()
-  allCourses.forEach(course => {
-    // In our data structure, alternatives would need to be loaded from the database
-    // For now, we'll handle common cases manually
-    const knownAlternatives = [
-      ['MAC1105C', 'MAC1140'],  // College Algebra alternatives
-      ['ENC3241', 'ENC3250'],   // Technical Writing alternatives
-    ]
-
-    for (const altGroup of knownAlternatives) {
-      if (altGroup.includes(course.code)) {
-        const group = new Set(altGroup.map(code => {
-          const c = allCourses.find(ac => ac.code === code)
-          return c?.id || ''
-        }).filter(id => id !== ''))
-        alternativesGraph.set(course.id, group)
-      }
-    }
-  })
-
-  // Filter out alternatives that are already completed or scheduled
-  const requiredCoursesFiltered: Course[] = []
-  const processedAlternatives = new Set<string>()
+// What the scheduler decided, term by term, for the server log
+function logScheduleResult(result: ScheduleResult, allCourses: ProgramCourse[]) {
+  const codeOf = (id: string) => allCourses.find(c => c.id === id)?.code ?? id
 
-  for (const course of allRequiredCourses) {
-    const alternatives = alternativesGraph.get(course.id)
-
-    if (alternatives) {
-      // Check if any alternative was already processed or completed
-      const anyCompleted = Array.from(alternatives).some(altId =>
-        completedCourseIds.has(altId) || processedAlternatives.has(altId)
-      )
-
-      if (!anyCompleted) {
-        // Include the first course from the alternatives group
-        requiredCoursesFiltered.push(course)
-        alternatives.forEach(altId => processedAlternatives.add(altId))
-      }
-    } else {
-      // Not part of alternatives group, include it
-      requiredCoursesFiltered.push(course)
-    }
+  for (const planned of result.terms) {
+    const courses = planned.courseIds.map(codeOf).join(', ') || 'nothing available'
+    console.log(`${describeTerm(planned.term)}: ${courses} (${planned.credits} cr, workload ${planned.workload})${planned.belowMinimum ? ' - below minimum load' : ''}`)
   }
-
-  console.log(`After alternatives filtering: ${requiredCoursesFiltered.length} required courses`)
-
-  // Step 3: Combine all courses to schedule (required + selected electives)
-  const allCoursesToSchedule = [
-    ...requiredCoursesFiltered,
-    ...selectedElectives.filter(e => !completedCourseIds.has(e.id))
-  ]
-
-  console.log(`Total courses to schedule: ${allCoursesToSchedule.length}`)
-
-  // Step 4: Create prerequisite and corequisite mappings
-  const prerequisiteMap = new Map<string, string[]>()
-  const corequisiteMap = new Map<string, string[]>()
-
-  allCoursesToSchedule.forEach(course => {
-    if (course.prerequisites && course.prerequisites.length > 0) {
-      prerequisiteMap.set(course.id, course.prerequisites.map(p => p.prerequisite.id))
-    }
-    if (course.corequisites && course.corequisites.length > 0) {
-      corequisiteMap.set(course.id, course.corequisites.map(c => c.corequisite.id))
-    }
-  })
-
-  // Step 5: Generate semester timeline
-  const currentYear = new Date().getFullYear()
-  const currentMonth = new Date().getMonth()
-
-  // Determine starting semester (Fall if before July, Spring if July or later)
-  const startSemester = currentMonth < 7 ? 'Fall' : 'Spring'
-  const startYear = currentMonth < 7 ? currentYear : currentYear + 1
-
-  const semesterOrder = ['Fall', 'Spring', 'Summer']
-  const maxSemesters = 12 // Plan for up to 4 years (3 semesters per year)
-  const semesterPlan: Array<{semester: string, year: number}> = []
-
-  let semIndex = semesterOrder.indexOf(startSemester)
-  let yearOffset = 0
-
-  for (let i = 0; i < maxSemesters; i++) {
-    const semester = semesterOrder[semIndex]
-    const year = startYear + yearOffset
-
-    // Skip summer semesters (most students don't take summer courses)
-    if (semester !== 'Summer') {
-      semesterPlan.push({ semester, year })
-    }
-
-    semIndex = (semIndex + 1) % semesterOrder.length
-    if (semIndex === 0) yearOffset++
+  for (const infeasibility of result.infeasibilities) {
+    console.log(`⚠️  Couldn't schedule ${codeOf(infeasibility.courseId)}: ${infeasibility.detail}`)
   }
-
-  console.log(`Semester plan: ${semesterPlan.map(s => `${s.semester} ${s.year}`).join(', ')}`)
-
-  // Step 6: Schedule courses with prerequisite and corequisite awareness
-  const scheduledCourses: Array<{courseId: string, semester: string, year: number}> = []
-  const scheduledCourseIds = new Set<string>([...completedCourseIds])
-
-  for (let i = 0; i < semesterPlan.length; i++) {
-    const semesterInfo = semesterPlan[i]
-    const { semester, year } = semesterInfo
-    console.log(`\n=== Planning ${semester} ${year} ===`)
-
-    // Find available courses (prerequisites met, not yet scheduled)
-    const availableCourses = allCoursesToSchedule.filter(course => {
-      if (scheduledCourseIds.has(course.id)) return false
-
-      const prereqs = prerequisiteMap.get(course.id) || []
-      const prereqsMet = prereqs.every(prereqId => scheduledCourseIds.has(prereqId))
-
-      return prereqsMet
-    })
-
-    if (availableCourses.length === 0) {
-      console.log(`No courses available for ${semester} ${year}`)
-      continue
-    }
-
-    console.log(`Available: ${availableCourses.map(c => c.code).join(', ')}`)
-
-    // Calculate remaining courses total
-    const remainingTotal = allCoursesToSchedule.filter(c => !scheduledCourseIds.has(c.id)).length
-
-    // CONSOLIDATION RULE: If ≤3 courses remain and they're ALL available, schedule them all in ONE semester
-    // OR if we have few courses available (≤3) and few remaining overall, try to consolidate
-    const shouldConsolidate = (remainingTotal <= 3 && availableCourses.length === remainingTotal) ||
-                              (availableCourses.length <= 3 && remainingTotal <= 3)
-
-    if (shouldConsolidate) {
-      console.log(`🎯 CONSOLIDATING: ${remainingTotal} remaining courses, ${availableCourses.length} available - scheduling in one semester`)
-
-      let currentCredits = 0
-      const maxCredits = 18
-      const processedCoreqs = new Set<string>()
-      const coursesToSchedule: Course[] = []
-
-      for (const course of availableCourses) {
-        if (processedCoreqs.has(course.id)) continue
-
-        // Get corequisites
-        const coreqs = corequisiteMap.get(course.id) || []
-        const coreqCourses = coreqs
-          .map(coreqId => availableCourses.find(c => c.id === coreqId))
-          .filter(c => c && !processedCoreqs.has(c.id)) as Course[]
-
-        const totalCredits = currentCredits + course.credits +
-          coreqCourses.reduce((sum, c) => sum + c.credits, 0)
-
-        if (totalCredits <= maxCredits) {
-          coursesToSchedule.push(course)
-          currentCredits += course.credits
-          processedCoreqs.add(course.id)
-
-          for (const coreqCourse of coreqCourses) {
-            coursesToSchedule.push(coreqCourse)
-            currentCredits += coreqCourse.credits
-            processedCoreqs.add(coreqCourse.id)
-          }
-        }
-      }
-
-      // Schedule all courses
-      for (const course of coursesToSchedule) {
-        scheduledCourses.push({ courseId: course.id, semester, year })
-        scheduledCourseIds.add(course.id)
-        console.log(`✓ ${course.code} (${course.credits} cr)`)
-      }
-
-      console.log(`${semester} ${year}: ${coursesToSchedule.length} courses, ${currentCredits} credits - FINAL SEMESTER`)
-      break // We're done!
-    }
-
-    // NORMAL SCHEDULING: Frontload earlier semesters (more courses early, fewer later)
-    // Calculate what semester we're in (0 = first semester)
-    const semestersScheduled = scheduledCourses.reduce((acc, course) => {
-      const key = `${course.semester}-${course.year}`
-      return acc.has(key) ? acc : acc.add(key)
-    }, new Set()).size
-
-    // Frontload strategy: Start with 5-6 courses, reduce to 3-4 towards the end
-    // Use a curve: earlier = more courses, later = fewer courses
-    const maxCoursesPerSemester = 6
-    const minCoursesPerSemester = 3
-
-    // Calculate remaining semesters in the plan
-    const remainingSemesters = semesterPlan.length - semestersScheduled
-
-    // Frontloading: Prioritize 5-6 courses in first few semesters, 3-4 in later ones
-    const targetCoursesPerSemester = semestersScheduled < 3
-      ? Math.min(maxCoursesPerSemester, Math.max(5, availableCourses.length))  // First 3 semesters: 5-6 courses
-      : Math.min(5, Math.max(4, Math.ceil(remainingTotal / (remainingSemesters || 1)))) // Later: 4-5 courses
-
-    const maxCredits = 18
-
-    console.log(`Semester ${semestersScheduled + 1}: Target ${targetCoursesPerSemester} courses (frontloading strategy)`)
-
-    // If we can only schedule <3 courses but there are more courses coming later, skip this semester
-    if (availableCourses.length < minCoursesPerSemester && remainingTotal > availableCourses.length) {
-      console.log(`⏭️ SKIPPING: Only ${availableCourses.length} available, but ${remainingTotal} total remain - waiting for prerequisites`)
-      continue
-    }
-
-    const coursesToSchedule: Course[] = []
-    const processedCoreqs = new Set<string>()
-    let currentCredits = 0
-
-    for (const course of availableCourses) {
-      if (processedCoreqs.has(course.id)) continue
-
-      // Stop if we've reached target number of courses
-      if (coursesToSchedule.length >= targetCoursesPerSemester) break
-
-      // Get corequisites for this course
-      const coreqs = corequisiteMap.get(course.id) || []
-      const coreqCourses = coreqs
-        .map(coreqId => allCoursesToSchedule.find(c => c.id === coreqId))
-        .filter(c => c && !scheduledCourseIds.has(c.id) && !processedCoreqs.has(c.id)) as Course[]
-
-      // Calculate total credits including corequisites
-      const totalCredits = currentCredits + course.credits +
-        coreqCourses.reduce((sum, c) => sum + c.credits, 0)
-
-      // Only add if it doesn't exceed max credits
-      if (totalCredits <= maxCredits) {
-        coursesToSchedule.push(course)
-        currentCredits += course.credits
-        processedCoreqs.add(course.id)
-
-        // Add corequisites
-        for (const coreqCourse of coreqCourses) {
-          coursesToSchedule.push(coreqCourse)
-          currentCredits += coreqCourse.credits
-          processedCoreqs.add(coreqCourse.id)
-        }
-      }
-    }
-
-    // Schedule the selected courses
-    for (const course of coursesToSchedule) {
-      scheduledCourses.push({
-        courseId: course.id,
-        semester,
-        year
-      })
-      scheduledCourseIds.add(course.id)
-      console.log(`✓ ${course.code} (${course.credits} cr)`)
-    }
-
-    console.log(`${semester} ${year}: ${coursesToSchedule.length} courses, ${currentCredits} credits`)
-
-    // Stop if all courses are scheduled
-    if (scheduledCourseIds.size - completedCourseIds.size >= allCoursesToSchedule.length) {
-      console.log("All courses scheduled!")
-      break
-    }
+  for (const conflict of result.pinConflicts) {
+    console.log(`⚠️  Pin ${conflict.courseId ? codeOf(conflict.courseId) : ''} ${conflict.term}: ${conflict.detail}`)
   }
-
-  console.log(`\nGenerated schedule with ${scheduledCourses.length} courses`)
-
-  // Deduplicate: keep only the last occurrence of each course (latest semester)
-  const deduplicatedMap = new Map<string, {courseId: string, semester: string, year: number}>()
-  for (const item of scheduledCourses) {
-    deduplicatedMap.set(item.courseId, item)
+  if (result.runsPastTarget) {
+    console.log("⚠️  Plan runs past the target graduation term")
   }
-  const deduplicatedSchedule = Array.from(deduplicatedMap.values())
-
-  if (deduplicatedSchedule.length !== scheduledCourses.length) {
-    console.log(`⚠️  Removed ${scheduledCourses.length - deduplicatedSchedule.length} duplicate courses`)
+  if (!result.optimal) {
+    console.log("Search stopped at the shortest plan it found; a shorter one may exist")
   }
-
-  return deduplicatedSchedule
-}
\ No newline at end of file
+  console.log(`Generated schedule with ${result.scheduledCourses.length} courses`)
+}
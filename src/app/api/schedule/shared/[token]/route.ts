@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { PrismaClient } from "@prisma/client"
+import { resolveCatalogYearId } from "@/lib/catalog-years"
 
 const prisma = new PrismaClient()
 
@@ -39,7 +40,8 @@ export async function GET(
         },
         user: {
           select: {
-            name: true
+            name: true,
+            catalogYearId: true
           }
         }
       }
@@ -52,7 +54,7 @@ export async function GET(
     // Get user's completed courses
     const completedCourses = await prisma.userCourse.findMany({
       where: {
-        userId: schedule.user?.id || "",
+        userId: schedule.userId,
         completed: true
       },
       include: {
@@ -60,8 +62,10 @@ export async function GET(
       }
     })
 
-    // Get all courses for search functionality
+    // Get all courses for search functionality (from the owner's catalog year)
+    const catalogYearId = await resolveCatalogYearId(prisma, schedule.user.catalogYearId)
     const allCourses = await prisma.course.findMany({
+      where: { catalogYearId: catalogYearId ?? undefined },
       include: {
         prerequisites: {
           include: {
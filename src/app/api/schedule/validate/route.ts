@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { loadAuditCatalog, runDegreeAudit } from "@/lib/audit"
+import { isValidGrade } from "@/lib/grades"
+import { getUnmetRequirements, PlanViolation, validatePlan } from "@/lib/plan-validation"
+import { DEFAULT_PLANNING_PREFERENCES } from "@/lib/planning-preferences"
+import { getProgramScope } from "@/lib/programs"
+import type { SchedulerCompletion } from "@/lib/scheduler"
+import type { PlanItem } from "@/lib/schedule-plans"
+import { loadCourseGroups, loadProgramCourses, loadSchedulingContext } from "@/lib/scheduling-context"
+import { getUnassignedTransferCredits } from "@/lib/transfer-credits"
+import { DEFAULT_SUMMER_CREDITS, describeTerm, parseSessionTerm, Term } from "@/lib/terms"
+
+const prisma = new PrismaClient()
+
+interface PlanTermInput {
+  term: string // "Fall 2027", "Summer 2028" or "Summer A 2028"
+  courses: string[] // Course codes
+}
+
+interface HistoryInput {
+  code: string
+  grade?: string | null
+}
+
+// Check any plan, e.g. one an advisor built elsewhere:
+//   { terms: [{ term: "Fall 2027", courses: ["COP3502C", ...] }, ...],
+//     history?: [{ code: "MAC2311C", grade: "B" }, ...],
+//     programId?: string, maxCredits?: number }
+// Without `history` the plan is checked against the signed-in student's own
+// record; without `programId`, against their program. Every summer in the
+// plan counts as open, with the default summer credit cap.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { terms, history, programId, maxCredits } = await request.json()
+
+    if (!Array.isArray(terms) || terms.some((t: PlanTermInput) => typeof t?.term !== "string" || !Array.isArray(t.courses))) {
+      return NextResponse.json({ error: "terms must be a list of { term, courses }" }, { status: 400 })
+    }
+
+    const parsedTerms: (Term & { courses: string[] })[] = []
+    for (const { term, courses } of terms as PlanTermInput[]) {
+      const parsed = parseSessionTerm(term)
+      if (!parsed) {
+        return NextResponse.json({ error: `Invalid term "${term}"` }, { status: 400 })
+      }
+      parsedTerms.push({ ...parsed, courses: courses.map(code => String(code).trim().toUpperCase()) })
+    }
+
+    if (history !== undefined && (
+      !Array.isArray(history) ||
+      history.some((h: HistoryInput) => typeof h?.code !== "string" || (h.grade != null && !isValidGrade(h.grade)))
+    )) {
+      return NextResponse.json({ error: "history must be a list of { code, grade }" }, { status: 400 })
+    }
+
+    if (maxCredits !== undefined && (!Number.isInteger(maxCredits) || maxCredits < 1)) {
+      return NextResponse.json({ error: "maxCredits must be a positive whole number" }, { status: 400 })
+    }
+
+    if (programId !== undefined && typeof programId !== "string") {
+      return NextResponse.json({ error: "programId must be a program id" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    if (programId !== undefined && !(await prisma.program.findUnique({ where: { id: programId } }))) {
+      return NextResponse.json({ error: "Program not found" }, { status: 400 })
+    }
+
+    // The program the plan is for (its own catalog year), or the student's
+    const student = programId !== undefined ? { programId, catalogYearId: null } : user
+    const scope = await getProgramScope(prisma, student)
+    const courses = await loadProgramCourses(prisma, scope)
+
+    // Codes resolve across the whole catalog year, so courses outside the
+    // program still count toward prerequisites
+    const historyCodes = (history as HistoryInput[] | undefined)?.map(h => h.code.trim().toUpperCase()) ?? []
+    const catalog = await prisma.course.findMany({
+      where: {
+        catalogYearId: scope.catalogYearId ?? undefined,
+        code: { in: [...historyCodes, ...parsedTerms.flatMap(t => t.courses)] }
+      },
+      select: { id: true, code: true }
+    })
+    const idByCode = new Map(catalog.map(course => [course.code, course.id]))
+    const codeById = new Map(catalog.map(course => [course.id, course.code]))
+
+    const problems: PlanViolation[] = []
+    const unknown = (code: string, term: string | null) => problems.push({
+      kind: "unknown_course",
+      term,
+      courseId: null,
+      message: `${code} isn't in the ${scope.programName ?? "course"} catalog`,
+    })
+
+    const items: PlanItem[] = parsedTerms.flatMap(({ courses: codes, ...term }) => codes.flatMap(code => {
+      const courseId = idByCode.get(code)
+      if (!courseId) {
+        unknown(code, describeTerm(term))
+        return []
+      }
+      return [{ courseId, ...term }]
+    }))
+
+    // The pasted history, or the student's own record (with placements and transfer credit)
+    let completions: SchedulerCompletion[]
+    let satisfiedRequirementIds = new Set<string>()
+    let unassignedTransferCredits = 0
+    if (history !== undefined) {
+      completions = (history as HistoryInput[]).flatMap(({ code, grade }) => {
+        const courseId = idByCode.get(code.trim().toUpperCase())
+        if (!courseId) {
+          unknown(code, null)
+          return []
+        }
+        return [{ courseId, completed: true, grade: grade ?? null }]
+      })
+    } else {
+      const context = await loadSchedulingContext(prisma, user)
+      completions = context.completions
+      satisfiedRequirementIds = context.satisfiedRequirementIds
+      unassignedTransferCredits = getUnassignedTransferCredits(
+        await prisma.transferCredit.findMany({ where: { userId: user.id } })
+      )
+    }
+
+    const auditCatalog = await loadAuditCatalog(prisma, student, user.id)
+    const summerYears = [...new Set(items.filter(item => item.semester === "Summer").map(item => item.year))]
+
+    problems.push(...validatePlan({
+      items,
+      courses,
+      courseGroups: await loadCourseGroups(prisma, scope.catalogYearId, user.id),
+      completions,
+      satisfiedRequirementIds,
+      summerTerms: summerYears.map(year => ({ year, maxCredits: DEFAULT_SUMMER_CREDITS, sessions: ["A", "B", "C"] })),
+      preferences: { ...DEFAULT_PLANNING_PREFERENCES, maxCredits: maxCredits ?? DEFAULT_PLANNING_PREFERENCES.maxCredits },
+    }))
+
+    // Degree requirements, counting every planned course as passed
+    const grades = new Map(completions.map(uc => [uc.courseId, uc.grade ?? null]))
+    const audit = runDegreeAudit({
+      ...auditCatalog,
+      student: { programId: scope.programId, bsToMs: user.bsToMs },
+      completedCourseIds: new Set([...completions.map(uc => uc.courseId), ...items.map(item => item.courseId)]),
+      grades,
+      gpaAttempts: completions.filter(uc => uc.grade).map(uc => ({ courseId: uc.courseId, grade: uc.grade ?? null })),
+      transferCourseIds: new Set(),
+      unassignedTransferCredits,
+      satisfiedRequirementIds,
+    })
+    problems.push(...getUnmetRequirements(audit))
+
+    return NextResponse.json({
+      valid: problems.length === 0,
+      problems: problems.map(problem => ({
+        ...problem,
+        code: problem.courseId ? codeById.get(problem.courseId) ?? null : null,
+      })),
+    })
+  } catch (error) {
+    console.error("Error validating plan:", error)
+    return NextResponse.json(
+      { error: "Failed to validate plan" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { compareWhatIf, validateWhatIfScenario, WhatIfScenario } from "@/lib/what-if"
+
+const prisma = new PrismaClient()
+
+// Try a hypothetical change against the signed-in student's record without
+// saving anything:
+//   { programId?: string, electiveSwaps?: [{ fromId, toId }],
+//     failedCourseIds?: string[], skippedTerms?: ["Spring 2027"] }
+// Returns the current record and the scenario side by side: credits, terms
+// and graduation term of a plan for each, laid out with the strategy and pins
+// of the student's primary plan.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { programId, electiveSwaps, failedCourseIds, skippedTerms } = await request.json()
+    const scenario: WhatIfScenario = { programId, electiveSwaps, failedCourseIds, skippedTerms }
+
+    const invalid = validateWhatIfScenario(scenario)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const result = await compareWhatIf(prisma, user, scenario)
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json(result.comparison)
+  } catch (error) {
+    console.error("Error running what-if scenario:", error)
+    return NextResponse.json(
+      { error: "Failed to run what-if scenario" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { getProgramScope, isRequiredCourse, scopeCoursesToProgram } from "@/lib/programs"
+import { loadCourseGroups } from "@/lib/scheduling-context"
+
+const prisma = new PrismaClient()
+
+// Course groups the student's program requires (one of ENC3241 or ENC3250),
+// with the members they can plan and the ones they picked
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const scope = await getProgramScope(prisma, user)
+    const groups = await loadCourseGroups(prisma, scope.catalogYearId, user.id)
+    const members = scopeCoursesToProgram(
+      await prisma.course.findMany({
+        where: { id: { in: groups.flatMap(group => group.courseIds) } },
+        select: { id: true, code: true, name: true, credits: true, isElective: true },
+        orderBy: { code: 'asc' }
+      }),
+      scope
+    )
+
+    const courseGroups = groups
+      .map(group => ({ ...group, courses: members.filter(course => group.courseIds.includes(course.id)) }))
+      .filter(group => group.courses.some(course => isRequiredCourse(course, scope)))
+
+    return NextResponse.json(courseGroups)
+  } catch (error) {
+    console.error("Error fetching course groups:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch course groups" },
+      { status: 500 }
+    )
+  }
+}
+
+// Pick which members of a group to plan; an empty list goes back to the
+// catalog's default. The next generated schedule uses the picks.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { groupId, courseIds } = await request.json()
+
+    if (typeof groupId !== "string" || !Array.isArray(courseIds)) {
+      return NextResponse.json({ error: "Invalid course choice" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const group = await prisma.courseGroup.findUnique({
+      where: { id: groupId },
+      include: { courses: { select: { courseId: true } } }
+    })
+
+    if (!group) {
+      return NextResponse.json({ error: "Course group not found" }, { status: 404 })
+    }
+
+    const memberIds = group.courses.map(member => member.courseId)
+    if (courseIds.some((courseId: string) => !memberIds.includes(courseId))) {
+      return NextResponse.json({ error: `Pick from the courses in ${group.name}` }, { status: 400 })
+    }
+
+    if (courseIds.length > group.choose) {
+      return NextResponse.json({ error: `${group.name} only needs ${group.choose}` }, { status: 400 })
+    }
+
+    await prisma.$transaction([
+      prisma.courseGroupSelection.deleteMany({ where: { userId: user.id, groupId } }),
+      prisma.courseGroupSelection.createMany({
+        data: [...new Set<string>(courseIds)].map(courseId => ({ userId: user.id, groupId, courseId }))
+      }),
+    ])
+
+    return NextResponse.json({ groupId, chosenIds: courseIds })
+  } catch (error) {
+    console.error("Error saving course choice:", error)
+    return NextResponse.json(
+      { error: "Failed to save course choice" },
+      { status: 500 }
+    )
+  }
+}
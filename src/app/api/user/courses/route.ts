@@ -2,6 +2,14 @@ import { NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth"
 import { PrismaClient } from "@prisma/client"
+import { isValidGrade } from "@/lib/grades"
+import {
+  ATTEMPT_TERMS,
+  canRepeatCourse,
+  getEffectiveAttempts,
+  isValidAttemptStatus,
+  resolveAttemptStatus,
+} from "@/lib/course-attempts"
 
 const prisma = new PrismaClient()
 
@@ -41,6 +49,9 @@ export async function GET() {
   }
 }
 
+// Two shapes: { courseId, completed, grade } marks a course done or not done
+// (the roadmap toggle), while { courseId, status, grade, semester, year }
+// records an attempt, or updates attempt `id` when given
 export async function POST(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
@@ -49,7 +60,28 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const { courseId, completed } = await request.json()
+    const { id, courseId, completed, status, grade, semester, year } = await request.json()
+
+    if (typeof courseId !== "string" || !courseId) {
+      return NextResponse.json({ error: "courseId is required" }, { status: 400 })
+    }
+
+    // grade: undefined leaves it as is, null clears it
+    if (grade && !isValidGrade(grade)) {
+      return NextResponse.json({ error: "Invalid grade" }, { status: 400 })
+    }
+
+    if (status !== undefined && !isValidAttemptStatus(status)) {
+      return NextResponse.json({ error: "Invalid attempt status" }, { status: 400 })
+    }
+
+    if (semester && !ATTEMPT_TERMS.includes(semester)) {
+      return NextResponse.json({ error: "Invalid semester" }, { status: 400 })
+    }
+
+    if (year !== undefined && year !== null && !Number.isInteger(year)) {
+      return NextResponse.json({ error: "Invalid year" }, { status: 400 })
+    }
 
     const user = await prisma.user.findUnique({
       where: { email: session.user.email }
@@ -59,32 +91,64 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "User not found" }, { status: 404 })
     }
 
-    if (completed) {
-      // Add or update the course as completed
-      await prisma.userCourse.upsert({
-        where: {
-          userId_courseId: {
+    const attempts = await prisma.userCourse.findMany({
+      where: { userId: user.id, courseId }
+    })
+
+    if (status !== undefined) {
+      const attemptStatus = resolveAttemptStatus(status, grade)
+      const data = {
+        status: attemptStatus,
+        completed: attemptStatus === "completed",
+        grade,
+        semester,
+        year,
+      }
+
+      if (id) {
+        if (!attempts.some(attempt => attempt.id === id)) {
+          return NextResponse.json({ error: "Attempt not found" }, { status: 404 })
+        }
+        await prisma.userCourse.update({ where: { id }, data })
+      } else {
+        if (!canRepeatCourse(attempts, courseId)) {
+          return NextResponse.json(
+            { error: "Course already passed with a C or better and can't be repeated" },
+            { status: 400 }
+          )
+        }
+        await prisma.userCourse.create({
+          data: { ...data, userId: user.id, courseId, grade: grade ?? null }
+        })
+      }
+    } else if (completed) {
+      // Update the latest completed attempt, or record one
+      const attemptStatus = resolveAttemptStatus("completed", grade)
+      const latest = getEffectiveAttempts(attempts).get(courseId)
+
+      if (latest) {
+        await prisma.userCourse.update({
+          where: { id: latest.id },
+          data: { status: attemptStatus, completed: attemptStatus === "completed", grade }
+        })
+      } else {
+        await prisma.userCourse.create({
+          data: {
             userId: user.id,
-            courseId: courseId
+            courseId: courseId,
+            status: attemptStatus,
+            completed: attemptStatus === "completed",
+            grade: grade ?? null
           }
-        },
-        update: {
-          completed: true
-        },
-        create: {
-          userId: user.id,
-          courseId: courseId,
-          completed: true
-        }
-      })
+        })
+      }
     } else {
-      // Remove the course completion
-      await prisma.userCourse.deleteMany({
-        where: {
-          userId: user.id,
-          courseId: courseId
-        }
-      })
+      // Remove the latest completed attempt only; earlier graded attempts
+      // (and withdrawn, failed and planned ones) stay on record for the GPA
+      const latest = getEffectiveAttempts(attempts).get(courseId)
+      if (latest) {
+        await prisma.userCourse.delete({ where: { id: latest.id } })
+      }
     }
 
     return NextResponse.json({ success: true })
@@ -95,4 +159,49 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await request.json()
+
+    // Without an id the filter below would match every attempt
+    if (typeof id !== "string" || !id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    // Scoped to the user so one student can't remove another's attempts
+    const { count } = await prisma.userCourse.deleteMany({
+      where: {
+        id,
+        userId: user.id
+      }
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Course attempt not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error removing course attempt:", error)
+    return NextResponse.json(
+      { error: "Failed to remove course attempt" },
+      { status: 500 }
+    )
+  }
+}
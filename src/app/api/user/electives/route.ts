@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { loadElectiveSlots, validateElectiveSlots } from "@/lib/elective-selections"
+import { getProgramScope } from "@/lib/programs"
+import { loadSchedulingContext } from "@/lib/scheduling-context"
+
+const prisma = new PrismaClient()
+
+// The student's elective slots (as many as their program requires) and what's picked in each
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const scope = await getProgramScope(prisma, user)
+
+    return NextResponse.json(await loadElectiveSlots(prisma, user.id, scope))
+  } catch (error) {
+    console.error("Error fetching elective selections:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch elective selections" },
+      { status: 500 }
+    )
+  }
+}
+
+// Save the picks, one course id (or null for an open slot) per slot; the
+// next generated schedule plans them
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { courseIds } = await request.json()
+
+    if (!Array.isArray(courseIds) || courseIds.some(id => id !== null && typeof id !== "string")) {
+      return NextResponse.json({ error: "courseIds must be a list of course ids or nulls" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const { scope, courses, completions } = await loadSchedulingContext(prisma, user)
+    const { slots } = await loadElectiveSlots(prisma, user.id, scope)
+    const electiveRules = await prisma.electiveRule.findMany({
+      where: { catalogYearId: scope.catalogYearId ?? undefined }
+    })
+    const completedElectives = courses.filter(course =>
+      course.isElective && completions.some(uc => uc.courseId === course.id && uc.completed)
+    )
+
+    const invalid = validateElectiveSlots(
+      courseIds,
+      slots,
+      courses,
+      completedElectives,
+      electiveRules,
+      { programId: user.programId, bsToMs: user.bsToMs }
+    )
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    await prisma.$transaction([
+      prisma.electiveSelection.deleteMany({ where: { userId: user.id } }),
+      prisma.electiveSelection.createMany({
+        data: courseIds.flatMap((courseId: string | null, slot: number) =>
+          courseId ? [{ userId: user.id, slot, courseId }] : []
+        )
+      }),
+    ])
+
+    return NextResponse.json(await loadElectiveSlots(prisma, user.id, scope))
+  } catch (error) {
+    console.error("Error saving elective selections:", error)
+    return NextResponse.json(
+      { error: "Failed to save elective selections" },
+      { status: 500 }
+    )
+  }
+}
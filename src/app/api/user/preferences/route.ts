@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import {
+  DEFAULT_PLANNING_PREFERENCES,
+  PlanningPreferences,
+  toPlanningPreferences,
+  validatePlanningPreferences,
+} from "@/lib/planning-preferences"
+
+const prisma = new PrismaClient()
+
+// The student's planning preferences, or the defaults when none are saved
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      include: { planningPreferences: true }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(toPlanningPreferences(user.planningPreferences))
+  } catch (error) {
+    console.error("Error fetching planning preferences:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch planning preferences" },
+      { status: 500 }
+    )
+  }
+}
+
+// Save the preferences; the next generated schedule uses them
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const preferences: PlanningPreferences = {
+      minCredits: body.minCredits ?? DEFAULT_PLANNING_PREFERENCES.minCredits,
+      maxCredits: body.maxCredits ?? DEFAULT_PLANNING_PREFERENCES.maxCredits,
+      fullTime: body.fullTime ?? DEFAULT_PLANNING_PREFERENCES.fullTime,
+      startTerm: body.startTerm || null,
+      targetGraduationTerm: body.targetGraduationTerm || null,
+      blockedTerms: body.blockedTerms ?? [],
+    }
+
+    const invalid = validatePlanningPreferences(preferences)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const saved = await prisma.planningPreferences.upsert({
+      where: { userId: user.id },
+      update: preferences,
+      create: { userId: user.id, ...preferences }
+    })
+
+    return NextResponse.json(toPlanningPreferences(saved))
+  } catch (error) {
+    console.error("Error saving planning preferences:", error)
+    return NextResponse.json(
+      { error: "Failed to save planning preferences" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { getCatalogYearMoves } from "@/lib/catalog-years"
+
+const prisma = new PrismaClient()
+
+const profileSelect = {
+  programId: true,
+  program: {
+    select: { id: true, code: true, name: true, type: true }
+  },
+  catalogYear: {
+    select: { id: true, year: true, name: true, isCurrent: true }
+  },
+  bsToMs: true
+}
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: profileSelect
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    return NextResponse.json(user)
+  } catch (error) {
+    console.error("Error fetching user profile:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch profile" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { programId, bsToMs } = await request.json()
+
+    // null clears the program and keeps the catalog year
+    if (programId !== undefined && programId !== null && typeof programId !== "string") {
+      return NextResponse.json({ error: "Invalid program" }, { status: 400 })
+    }
+
+    const current = await prisma.user.findUnique({
+      where: { email: session.user.email },
+      select: { id: true }
+    })
+
+    if (!current) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    // A program belongs to one catalog year, so picking it also pins that year
+    let catalogYearId: string | undefined
+    if (typeof programId === "string") {
+      const program = await prisma.program.findUnique({ where: { id: programId } })
+      if (!program) {
+        return NextResponse.json({ error: "Invalid program" }, { status: 400 })
+      }
+      catalogYearId = program.catalogYearId
+    }
+
+    // The record follows the catalog year in the same transaction, so nothing
+    // is left pointing at the old year's courses
+    const moves = catalogYearId ? await getCatalogYearMoves(prisma, current.id, catalogYearId) : []
+    const [user] = await prisma.$transaction([
+      prisma.user.update({
+        where: { id: current.id },
+        data: {
+          programId,
+          catalogYearId,
+          bsToMs: bsToMs === undefined ? undefined : Boolean(bsToMs)
+        },
+        select: profileSelect
+      }),
+      ...moves,
+    ])
+
+    return NextResponse.json(user)
+  } catch (error) {
+    console.error("Error updating user profile:", error)
+    return NextResponse.json(
+      { error: "Failed to update profile" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { GPA_REQUIREMENT_TYPE, loadSatisfiedRequirementIds } from "@/lib/requirements"
+
+const prisma = new PrismaClient()
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const userRequirements = await prisma.userRequirement.findMany({
+      where: { userId: user.id, requirement: { type: { not: GPA_REQUIREMENT_TYPE } } },
+      include: {
+        requirement: true
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    })
+
+    // GPA requirements aren't recorded: they're listed as met when the GPA meets them
+    const satisfiedIds = await loadSatisfiedRequirementIds(prisma, user.id)
+    const gpaRequirements = await prisma.requirement.findMany({
+      where: { type: GPA_REQUIREMENT_TYPE, id: { in: [...satisfiedIds] } }
+    })
+
+    return NextResponse.json([
+      ...userRequirements,
+      ...gpaRequirements.map(requirement => ({
+        id: `gpa-${requirement.id}`,
+        userId: user.id,
+        requirementId: requirement.id,
+        satisfied: true,
+        note: null,
+        requirement,
+      })),
+    ])
+  } catch (error) {
+    console.error("Error fetching user requirements:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch user requirements" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { requirementId, satisfied, note } = await request.json()
+
+    // Without a requirementId the delete below would match every record
+    if (typeof requirementId !== "string" || !requirementId) {
+      return NextResponse.json({ error: "requirementId is required" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const requirement = await prisma.requirement.findUnique({ where: { id: requirementId } })
+    if (!requirement) {
+      return NextResponse.json({ error: "Requirement not found" }, { status: 404 })
+    }
+
+    if (requirement.type === GPA_REQUIREMENT_TYPE) {
+      return NextResponse.json({ error: `${requirement.name} is met once your GPA reaches it` }, { status: 400 })
+    }
+
+    if (satisfied) {
+      // Record the requirement as met (note holds e.g. an exam score)
+      await prisma.userRequirement.upsert({
+        where: {
+          userId_requirementId: {
+            userId: user.id,
+            requirementId: requirementId
+          }
+        },
+        update: {
+          satisfied: true,
+          note: note ?? null
+        },
+        create: {
+          userId: user.id,
+          requirementId: requirementId,
+          satisfied: true,
+          note: note ?? null
+        }
+      })
+    } else {
+      // Remove the record
+      await prisma.userRequirement.deleteMany({
+        where: {
+          userId: user.id,
+          requirementId: requirementId
+        }
+      })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error updating user requirement:", error)
+    return NextResponse.json(
+      { error: "Failed to update requirement" },
+      { status: 500 }
+    )
+  }
+}
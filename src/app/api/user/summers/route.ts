@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { DEFAULT_SUMMER_CREDITS, isValidSummerSession } from "@/lib/terms"
+
+const prisma = new PrismaClient()
+
+// Summers the student has opted into, with their credit caps and sessions
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const summerTerms = await prisma.summerTerm.findMany({
+      where: { userId: user.id },
+      orderBy: { year: 'asc' }
+    })
+
+    return NextResponse.json(summerTerms)
+  } catch (error) {
+    console.error("Error fetching summer terms:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch summer terms" },
+      { status: 500 }
+    )
+  }
+}
+
+// Turn a summer on (or update it); the next generated schedule uses it
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { year, maxCredits = DEFAULT_SUMMER_CREDITS, sessions = ["A", "B"] } = await request.json()
+
+    if (!Number.isInteger(year)) {
+      return NextResponse.json({ error: "Invalid year" }, { status: 400 })
+    }
+
+    if (!Number.isInteger(maxCredits) || maxCredits <= 0) {
+      return NextResponse.json({ error: "Credit cap must be a positive whole number" }, { status: 400 })
+    }
+
+    if (!Array.isArray(sessions) || sessions.length === 0 || !sessions.every(isValidSummerSession)) {
+      return NextResponse.json({ error: "Pick at least one of Summer A, B or C" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const summerTerm = await prisma.summerTerm.upsert({
+      where: { userId_year: { userId: user.id, year } },
+      update: { maxCredits, sessions },
+      create: { userId: user.id, year, maxCredits, sessions }
+    })
+
+    return NextResponse.json(summerTerm)
+  } catch (error) {
+    console.error("Error saving summer term:", error)
+    return NextResponse.json(
+      { error: "Failed to save summer term" },
+      { status: 500 }
+    )
+  }
+}
+
+// Turn a summer back off
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { year } = await request.json()
+
+    // Without a year the filter below would match every summer
+    if (!Number.isInteger(year)) {
+      return NextResponse.json({ error: "Invalid year" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    await prisma.summerTerm.deleteMany({
+      where: {
+        userId: user.id,
+        year
+      }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error removing summer term:", error)
+    return NextResponse.json(
+      { error: "Failed to remove summer term" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { PrismaClient } from "@prisma/client"
+import { TRANSFER_SOURCES } from "@/lib/transfer-credits"
+
+const prisma = new PrismaClient()
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    const transferCredits = await prisma.transferCredit.findMany({
+      where: { userId: user.id },
+      include: {
+        course: {
+          select: { id: true, code: true, name: true, credits: true }
+        }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    })
+
+    return NextResponse.json(transferCredits)
+  } catch (error) {
+    console.error("Error fetching transfer credits:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch transfer credits" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { source, institution, examName, score, courseId, credits } = await request.json()
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    if (typeof source !== "string" || !Object.hasOwn(TRANSFER_SOURCES, source)) {
+      return NextResponse.json({ error: "Invalid credit source" }, { status: 400 })
+    }
+
+    if (courseId != null && typeof courseId !== "string") {
+      return NextResponse.json({ error: "Invalid equivalent course" }, { status: 400 })
+    }
+
+    // An equivalent course defaults the hours to that course's credits
+    const course = courseId ? await prisma.course.findUnique({ where: { id: courseId } }) : null
+    if (courseId && !course) {
+      return NextResponse.json({ error: "Invalid equivalent course" }, { status: 400 })
+    }
+
+    const hours = Number(credits ?? course?.credits)
+    if (!Number.isInteger(hours) || hours <= 0) {
+      return NextResponse.json({ error: "Credits must be a positive whole number" }, { status: 400 })
+    }
+
+    const transferCredit = await prisma.transferCredit.create({
+      data: {
+        userId: user.id,
+        source,
+        institution: institution || null,
+        examName: examName || null,
+        score: score ? String(score) : null,
+        courseId: course?.id ?? null,
+        credits: hours
+      },
+      include: {
+        course: {
+          select: { id: true, code: true, name: true, credits: true }
+        }
+      }
+    })
+
+    return NextResponse.json(transferCredit)
+  } catch (error) {
+    console.error("Error adding transfer credit:", error)
+    return NextResponse.json(
+      { error: "Failed to add transfer credit" },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { id } = await request.json()
+
+    // Without an id the filter below would match every credit
+    if (typeof id !== "string" || !id) {
+      return NextResponse.json({ error: "id is required" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: session.user.email }
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 })
+    }
+
+    // Scoped to the user so one student can't remove another's credit
+    const { count } = await prisma.transferCredit.deleteMany({
+      where: {
+        id,
+        userId: user.id
+      }
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: "Transfer credit not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error removing transfer credit:", error)
+    return NextResponse.json(
+      { error: "Failed to remove transfer credit" },
+      { status: 500 }
+    )
+  }
+}
@@ -17,6 +17,9 @@ import {
 } from "@/components/ui/dropdown-menu"
 import Link from "next/link"
 import { HelpTour } from "@/components/help-tour"
+import { ProgramPicker } from "@/components/program-picker"
+import { DegreeAudit, findAuditRule } from "@/lib/audit"
+import { CourseAttempt, getEffectiveAttempts } from "@/lib/course-attempts"
 
 interface Course {
   id: string
@@ -32,9 +35,12 @@ interface Course {
   prerequisites: { prerequisite: Course }[]
 }
 
-interface UserCourse {
-  id: string
-  courseId: string
+interface Profile {
+  programId: string | null
+  program: { id: string; code: string; name: string } | null
+}
+
+interface UserCourse extends CourseAttempt {
   completed: boolean
   course: Course
 }
@@ -42,8 +48,10 @@ interface UserCourse {
 export default function Dashboard() {
   const { data: session, status } = useSession()
   const router = useRouter()
-  const [courses, setCourses] = useState<Course[]>([])
+  const [audit, setAudit] = useState<DegreeAudit | null>(null)
   const [userCourses, setUserCourses] = useState<UserCourse[]>([])
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [programPickerOpen, setProgramPickerOpen] = useState(false)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -56,46 +64,52 @@ export default function Dashboard() {
 
   const fetchData = async () => {
     try {
-      const [coursesRes, userCoursesRes] = await Promise.all([
-        fetch("/api/courses"),
-        fetch("/api/user/courses")
+      const [auditRes, userCoursesRes, profileRes] = await Promise.all([
+        fetch("/api/audit"),
+        fetch("/api/user/courses"),
+        fetch("/api/user/profile")
       ])
 
-      if (!coursesRes.ok || !userCoursesRes.ok) {
+      if (!auditRes.ok || !userCoursesRes.ok || !profileRes.ok) {
         throw new Error("Failed to fetch data")
       }
 
-      const coursesData = await coursesRes.json()
+      const auditData = await auditRes.json()
       const userCoursesData = await userCoursesRes.json()
+      const profileData: Profile = await profileRes.json()
 
-      setCourses(Array.isArray(coursesData) ? coursesData : [])
+      setAudit(auditData)
       setUserCourses(Array.isArray(userCoursesData) ? userCoursesData : [])
+      setProfile(profileData)
+
+      // New students pick their program before anything else
+      if (!profileData.programId) {
+        setProgramPickerOpen(true)
+      }
     } catch (error) {
       console.error("Error fetching data:", error)
-      setCourses([])
+      setAudit(null)
       setUserCourses([])
     } finally {
       setLoading(false)
     }
   }
 
-  const completedCourses = userCourses.filter(uc => uc.completed)
-  const totalCredits = completedCourses.reduce((sum, uc) => sum + uc.course.credits, 0) + 27
-  const remainingCredits = 120 - totalCredits
+  // Repeated courses count once
+  const completedCourses = [...getEffectiveAttempts(userCourses).values()]
 
-  const requiredCourses = courses.filter(course =>
-    !course.category || !course.category.toLowerCase().includes('elective')
-  )
-  const completedRequired = requiredCourses.filter(c =>
-    userCourses.some(uc => uc.courseId === c.id && uc.completed)
-  ).length
-  const completedElectives = courses.filter(c =>
-    c.category && c.category.toLowerCase().includes('elective') &&
-    userCourses.some(uc => uc.courseId === c.id && uc.completed)
-  ).length
+  // All progress numbers come from the server-side degree audit
+  const totalCredits = audit?.totalCredits ?? 0
+  const requiredCredits = audit?.requiredCredits ?? 0
+  const remainingCredits = Math.max(0, requiredCredits - totalCredits)
 
-  const overallProgress = requiredCourses.length > 0
-    ? Math.round((completedRequired / requiredCourses.length) * 100)
+  const coreRule = findAuditRule(audit, "required_courses")
+  const requiredCount = coreRule?.required ?? 0
+  const completedRequired = coreRule?.earned ?? 0
+  const completedElectives = findAuditRule(audit, "elective_courses")?.earned ?? 0
+
+  const overallProgress = requiredCount > 0
+    ? Math.round((completedRequired / requiredCount) * 100)
     : 0
 
   if (status === "loading" || loading) {
@@ -163,6 +177,9 @@ export default function Dashboard() {
                   <DropdownMenuItem asChild>
                     <Link href="/schedule" className="text-black">Schedule</Link>
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setProgramPickerOpen(true)} className="text-black">
+                    Change Program
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator className="bg-black/10" />
                   <DropdownMenuItem onClick={() => signOut({ callbackUrl: "/" })} className="text-destructive">
                     Sign Out
@@ -184,6 +201,7 @@ export default function Dashboard() {
             </h1>
             <p className="text-[19px] text-muted-foreground">
               Here&apos;s an overview of your degree progress
+              {profile?.program && <> in <span className="text-black">{profile.program.name}</span></>}
             </p>
           </div>
 
@@ -198,7 +216,7 @@ export default function Dashboard() {
                   {overallProgress}%
                 </div>
                 <p className="text-[13px] text-muted-foreground">
-                  {completedRequired} of {requiredCourses.length} required courses
+                  {completedRequired} of {requiredCount} required courses
                 </p>
               </CardContent>
             </Card>
@@ -210,7 +228,8 @@ export default function Dashboard() {
               <CardContent>
                 <div className="text-4xl font-semibold text-black mb-2">{totalCredits}</div>
                 <p className="text-[13px] text-muted-foreground">
-                  {remainingCredits} remaining of 120
+                  {remainingCredits} remaining of {requiredCredits}
+                  {audit?.transferCredits ? ` (${audit.transferCredits} transfer)` : ""}
                 </p>
               </CardContent>
             </Card>
@@ -221,10 +240,10 @@ export default function Dashboard() {
               </CardHeader>
               <CardContent>
                 <div className="text-4xl font-semibold text-black mb-2">
-                  {completedRequired}/{requiredCourses.length}
+                  {completedRequired}/{requiredCount}
                 </div>
                 <p className="text-[13px] text-muted-foreground">
-                  {requiredCourses.length - completedRequired} remaining
+                  {requiredCount - completedRequired} remaining
                 </p>
               </CardContent>
             </Card>
@@ -333,6 +352,12 @@ export default function Dashboard() {
         </div>
       </main>
       <HelpTour />
+      <ProgramPicker
+        open={programPickerOpen}
+        onOpenChange={setProgramPickerOpen}
+        currentProgramId={profile?.programId ?? null}
+        onProgramChange={fetchData}
+      />
     </div>
   )
 }
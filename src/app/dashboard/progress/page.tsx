@@ -6,6 +6,8 @@ import { useRouter } from "next/navigation"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,6 +17,15 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import Link from "next/link"
+import { AuditStatus, DegreeAudit, findAuditRule } from "@/lib/audit"
+import { StudentProfile } from "@/lib/elective-rules"
+import type { ElectiveSlots } from "@/lib/elective-selections"
+import { formatGpa } from "@/lib/grades"
+import { CourseAttempt, getEffectiveAttempts } from "@/lib/course-attempts"
+import { toast } from "sonner"
+import { ProgramPicker } from "@/components/program-picker"
+import { TransferCreditsCard } from "@/components/transfer-credits-card"
+import { WhatIfCard } from "@/components/what-if-card"
 
 interface Course {
   id: string
@@ -30,18 +41,24 @@ interface Course {
   prerequisites: { prerequisite: Course }[]
 }
 
-interface UserCourse {
-  id: string
-  courseId: string
+interface UserCourse extends CourseAttempt {
   completed: boolean
   course: Course
 }
 
+interface Profile extends StudentProfile {
+  program: { id: string; code: string; name: string } | null
+}
+
 export default function ProgressPage() {
   const { data: session, status } = useSession()
   const router = useRouter()
   const [courses, setCourses] = useState<Course[]>([])
   const [userCourses, setUserCourses] = useState<UserCourse[]>([])
+  const [audit, setAudit] = useState<DegreeAudit | null>(null)
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [electiveSlots, setElectiveSlots] = useState<ElectiveSlots | null>(null)
+  const [programPickerOpen, setProgramPickerOpen] = useState(false)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -54,59 +71,105 @@ export default function ProgressPage() {
 
   const fetchData = async () => {
     try {
-      const [coursesRes, userCoursesRes] = await Promise.all([
+      const [coursesRes, userCoursesRes, auditRes, profileRes, electivesRes] = await Promise.all([
         fetch("/api/courses"),
-        fetch("/api/user/courses")
+        fetch("/api/user/courses"),
+        fetch("/api/audit"),
+        fetch("/api/user/profile"),
+        fetch("/api/user/electives")
       ])
 
-      if (!coursesRes.ok || !userCoursesRes.ok) {
+      if (!coursesRes.ok || !userCoursesRes.ok || !auditRes.ok || !profileRes.ok) {
         throw new Error("Failed to fetch data")
       }
 
       const coursesData = await coursesRes.json()
       const userCoursesData = await userCoursesRes.json()
+      const auditData = await auditRes.json()
+      const profileData = await profileRes.json()
 
       setCourses(Array.isArray(coursesData) ? coursesData : [])
       setUserCourses(Array.isArray(userCoursesData) ? userCoursesData : [])
+      setAudit(auditData)
+      setProfile(profileData)
+      // Elective picks are extra; the page works without them
+      setElectiveSlots(electivesRes.ok ? await electivesRes.json() : null)
     } catch (error) {
       console.error("Error fetching data:", error)
       setCourses([])
       setUserCourses([])
+      setAudit(null)
     } finally {
       setLoading(false)
     }
   }
 
-  const completedCourses = userCourses.filter(uc => uc.completed)
-  const totalCredits = completedCourses.reduce((sum, uc) => sum + uc.course.credits, 0) + 21
-  const remainingCredits = 120 - totalCredits
+  // Program and BS to MS track decide which elective restrictions the audit applies
+  const updateProfile = async (changes: Partial<StudentProfile>) => {
+    try {
+      const response = await fetch("/api/user/profile", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(changes),
+      })
 
-  const requiredCourses = courses.filter(course =>
-    !course.category || !course.category.toLowerCase().includes('elective')
-  )
-  const electiveCourses = courses.filter(course =>
-    course.category && course.category.toLowerCase().includes('elective')
-  )
+      if (response.ok) {
+        fetchData()
+      } else {
+        toast.error("Failed to update profile")
+      }
+    } catch (error) {
+      console.error("Error updating profile:", error)
+      toast.error("An error occurred")
+    }
+  }
+
+  // Repeated courses count once
+  const completedCourses = [...getEffectiveAttempts(userCourses).values()]
 
-  const completedRequired = requiredCourses.filter(c =>
-    userCourses.some(uc => uc.courseId === c.id && uc.completed)
-  ).length
-  const completedElectives = electiveCourses.filter(c =>
-    userCourses.some(uc => uc.courseId === c.id && uc.completed)
-  ).length
+  // Totals and targets come from the degree audit rules
+  const totalCredits = audit?.totalCredits ?? 0
+  const requiredCredits = audit?.requiredCredits ?? 0
+  const remainingCredits = Math.max(0, requiredCredits - totalCredits)
+
+  const coreRule = findAuditRule(audit, "required_courses")
+  const requiredCount = coreRule?.required ?? 0
+  const completedRequired = coreRule?.earned ?? 0
+
+  const electiveRule = findAuditRule(audit, "elective_courses")
+  const completedElectives = electiveRule?.earned ?? 0
+  const minElectives = electiveRule?.required ?? 0
+  // Electives picked on the roadmap that aren't completed yet
+  const plannedElectives = (electiveSlots?.courseIds ?? [])
+    .map(id => courses.find(course => course.id === id))
+    .filter((course): course is Course =>
+      !!course && !completedCourses.some(attempt => attempt.courseId === course.id && attempt.completed)
+    )
 
   // Three different metrics:
   // 1. Degree Completion - based on credit hours (actual graduation requirement)
-  const degreeProgress = Math.round((totalCredits / 120) * 100)
+  const degreeProgress = requiredCredits > 0
+    ? Math.min(Math.round((totalCredits / requiredCredits) * 100), 100)
+    : 0
 
   // 2. Core Requirements - required courses only
-  const coreProgress = requiredCourses.length > 0
-    ? Math.round((completedRequired / requiredCourses.length) * 100)
+  const coreProgress = requiredCount > 0
+    ? Math.round((completedRequired / requiredCount) * 100)
     : 0
 
-  // 3. Elective Progress - elective courses completed (need at least 2 for CS/IT)
-  const minElectives = 2
-  const electiveProgress = Math.min(Math.round((completedElectives / minElectives) * 100), 100)
+  // 3. Elective Progress - restricted electives completed
+  const electiveProgress = minElectives > 0
+    ? Math.min(Math.round((completedElectives / minElectives) * 100), 100)
+    : 100
+
+  const statusStyles: Record<AuditStatus, { label: string, className: string }> = {
+    satisfied: { label: "Satisfied", className: "bg-green-50 text-green-700 border-green-200" },
+    in_progress: { label: "In Progress", className: "bg-yellow-50 text-yellow-700 border-yellow-200" },
+    missing: { label: "Missing", className: "bg-red-50 text-red-700 border-red-200" },
+    violated: { label: "Violated", className: "bg-red-50 text-red-700 border-red-200" },
+  }
 
   if (status === "loading" || loading) {
     return (
@@ -232,7 +295,7 @@ export default function ProgressPage() {
                   </div>
                   <h3 className="text-xl font-semibold text-black mb-1">Degree Completion</h3>
                   <p className="text-[13px] text-muted-foreground">
-                    {totalCredits} of 120 credit hours
+                    {totalCredits} of {requiredCredits} credit hours
                   </p>
                 </div>
               </CardContent>
@@ -271,7 +334,7 @@ export default function ProgressPage() {
                   </div>
                   <h3 className="text-xl font-semibold text-black mb-1">Core Requirements</h3>
                   <p className="text-[13px] text-muted-foreground">
-                    {completedRequired} of {requiredCourses.length} required courses
+                    {completedRequired} of {requiredCount} required courses
                   </p>
                 </div>
               </CardContent>
@@ -312,6 +375,11 @@ export default function ProgressPage() {
                   <p className="text-[13px] text-muted-foreground">
                     {completedElectives} of {minElectives} elective courses
                   </p>
+                  {plannedElectives.length > 0 && (
+                    <p className="text-[13px] text-muted-foreground mt-1">
+                      Planned: {plannedElectives.map(course => course.code).join(", ")}
+                    </p>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -348,7 +416,7 @@ export default function ProgressPage() {
                 <div className="flex justify-between items-center pb-3 border-b border-black/10">
                   <span className="text-[15px] text-black">Required Courses</span>
                   <Badge variant="secondary" className="bg-white text-black">
-                    {completedRequired}/{requiredCourses.length}
+                    {completedRequired}/{requiredCount}
                   </Badge>
                 </div>
                 <div className="flex justify-between items-center">
@@ -371,7 +439,7 @@ export default function ProgressPage() {
                 <div className="flex justify-between items-center pb-3 border-b border-black/10">
                   <span className="text-[15px] text-black">Total Required</span>
                   <Badge variant="secondary" className="bg-white text-black">
-                    120 credits
+                    {requiredCredits} credits
                   </Badge>
                 </div>
                 <div className="flex justify-between items-center pb-3 border-b border-black/10">
@@ -380,12 +448,30 @@ export default function ProgressPage() {
                     {totalCredits} credits
                   </Badge>
                 </div>
+                <div className="flex justify-between items-center pb-3 border-b border-black/10">
+                  <span className="text-[15px] text-black">From Transfer &amp; Exams</span>
+                  <Badge variant="secondary" className="bg-white text-black">
+                    {audit?.transferCredits ?? 0} credits
+                  </Badge>
+                </div>
                 <div className="flex justify-between items-center pb-3 border-b border-black/10">
                   <span className="text-[15px] text-black">Remaining</span>
                   <Badge variant="secondary" className="bg-white text-black">
                     {remainingCredits} credits
                   </Badge>
                 </div>
+                <div className="flex justify-between items-center pb-3 border-b border-black/10">
+                  <span className="text-[15px] text-black">Overall GPA</span>
+                  <Badge variant="secondary" className="bg-white text-black">
+                    {formatGpa(audit?.gpa)}
+                  </Badge>
+                </div>
+                <div className="flex justify-between items-center pb-3 border-b border-black/10">
+                  <span className="text-[15px] text-black">Major GPA</span>
+                  <Badge variant="secondary" className="bg-white text-black">
+                    {formatGpa(audit?.majorGpa)}
+                  </Badge>
+                </div>
                 <div className="flex justify-between items-center pb-3 border-b border-black/10">
                   <span className="text-[15px] text-black">Average per Course</span>
                   <Badge variant="secondary" className="bg-white text-black">
@@ -403,8 +489,107 @@ export default function ProgressPage() {
               </CardContent>
             </Card>
           </div>
+
+          {/* Degree Audit */}
+          {audit && (
+            <Card className="border-black/10 bg-white mt-8">
+              <CardHeader>
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                  <div>
+                    <CardTitle className="text-xl text-black">Degree Audit</CardTitle>
+                    <CardDescription className="text-muted-foreground">
+                      Each program requirement and the courses applied to it
+                    </CardDescription>
+                  </div>
+                  {profile && (
+                    <div className="flex items-center gap-4">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setProgramPickerOpen(true)}
+                        className="rounded-full text-[12px] border-2 bg-white text-black border-black/20 hover:bg-gray-50 hover:text-black transition-all-smooth"
+                      >
+                        {profile.program?.name ?? "Choose Program"}
+                      </Button>
+                      <label className="flex items-center gap-2 text-[13px] text-black cursor-pointer">
+                        <Checkbox
+                          checked={profile.bsToMs}
+                          onCheckedChange={(checked) => updateProfile({ bsToMs: checked === true })}
+                        />
+                        BS to MS
+                      </label>
+                    </div>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {audit.rules.map(rule => (
+                  <div key={rule.code} className="pb-4 border-b border-black/10 last:border-0 last:pb-0">
+                    <div className="flex justify-between items-start gap-4 mb-1">
+                      <div>
+                        <p className="text-[15px] font-medium text-black">{rule.name}</p>
+                        {rule.description && (
+                          <p className="text-[13px] text-muted-foreground">{rule.description}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <span className="text-[13px] text-black">
+                          {rule.earned}/{rule.required} {rule.unit}
+                        </span>
+                        <Badge variant="secondary" className={statusStyles[rule.status].className}>
+                          {statusStyles[rule.status].label}
+                        </Badge>
+                      </div>
+                    </div>
+                    {rule.type !== "total_credits" && rule.type !== "minimum_grade" && rule.appliedCourses.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {rule.appliedCourses.map(course => (
+                          <Badge key={course.id} variant="outline" className="text-[11px] border-green-200 text-green-700">
+                            {course.code}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {rule.violations.length > 0 && (
+                      <ul className="mt-2 space-y-1">
+                        {rule.violations.map(violation => (
+                          <li key={violation} className="text-[12px] text-red-700">{violation}</li>
+                        ))}
+                      </ul>
+                    )}
+                    {rule.remainingCourses.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {rule.remainingCourses.map(course => (
+                          <Badge key={course.id} variant="outline" className="text-[11px] border-black/20 text-black/60">
+                            {course.code}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <TransferCreditsCard courses={courses} onChange={fetchData} />
+
+          <WhatIfCard
+            courses={courses}
+            takenCourseIds={userCourses
+              .filter(uc => uc.status === "completed" || uc.status === "enrolled")
+              .map(uc => uc.courseId)}
+            electiveIds={electiveSlots?.courseIds.filter((id): id is string => id !== null) ?? []}
+            currentProgramId={profile?.programId ?? null}
+          />
         </div>
       </main>
+      <ProgramPicker
+        open={programPickerOpen}
+        onOpenChange={setProgramPickerOpen}
+        currentProgramId={profile?.programId ?? null}
+        onProgramChange={fetchData}
+      />
     </div>
   )
 }
@@ -19,6 +19,17 @@ import {
 import { toast } from "sonner"
 import Link from "next/link"
 import { X } from "lucide-react"
+import { describePrerequisites, isPrerequisiteMet, isPrerequisiteOptionMet } from "@/lib/prerequisites"
+import { ElectiveRule, StudentProfile } from "@/lib/elective-rules"
+import { getTransferCourseIds } from "@/lib/transfer-credits"
+import { GRADES, meetsMinimumGrade } from "@/lib/grades"
+import { CourseAttempt, getEffectiveAttempts } from "@/lib/course-attempts"
+import { CourseAttempts } from "@/components/course-attempts"
+import { WorkloadRating } from "@/components/workload-rating"
+import { CourseOfferingRecord, describeOfferings } from "@/lib/offerings"
+import { getUpcomingTerms } from "@/lib/terms"
+import { DEFAULT_WORKLOAD } from "@/lib/workload"
+import { GPA_REQUIREMENT_TYPE } from "@/lib/requirements"
 
 interface Course {
   id: string
@@ -31,16 +42,34 @@ interface Course {
   note: string | null
   isElective: boolean
   electiveLevel: string | null
+  waivedById: string | null
+  waivedBy: Requirement | null
   prerequisites: {
-    prerequisite: Course & {
-      alternatives?: { alternative: { id: string; code: string } }[]
-    }
+    groupIndex: number
+    minGrade: string | null
+    prerequisite: (Course & {
+      alternatives?: { id: string; code: string }[] // Other members of its course groups
+    }) | null
+    requirement: Requirement | null
   }[]
+  offerings?: CourseOfferingRecord[]
+}
+
+interface Requirement {
+  id: string
+  code: string
+  name: string
+  type: string
+  description: string | null
 }
 
-interface UserCourse {
+interface UserRequirement {
   id: string
-  courseId: string
+  requirementId: string
+  satisfied: boolean
+}
+
+interface UserCourse extends CourseAttempt {
   completed: boolean
   course: Course
 }
@@ -51,8 +80,15 @@ function RoadmapContent() {
   const searchParams = useSearchParams()
   const [courses, setCourses] = useState<Course[]>([])
   const [userCourses, setUserCourses] = useState<UserCourse[]>([])
+  const [userRequirements, setUserRequirements] = useState<UserRequirement[]>([])
+  const [transferCourseIds, setTransferCourseIds] = useState<Set<string>>(new Set())
+  const [electiveRules, setElectiveRules] = useState<ElectiveRule[]>([])
+  const [profile, setProfile] = useState<StudentProfile | undefined>(undefined)
+  const [workload, setWorkload] = useState<{ scores: Record<string, number>, ratings: Record<string, number> }>({ scores: {}, ratings: {} })
   const [loading, setLoading] = useState(true)
   const [selectedCourse, setSelectedCourse] = useState<Course | null>(null)
+  // Index into upcomingTerms; -1 shows availability for any term
+  const [availabilityTermIndex, setAvailabilityTermIndex] = useState(-1)
   const focusedCourseCode = searchParams.get("course")
 
   useEffect(() => {
@@ -74,24 +110,42 @@ function RoadmapContent() {
 
   const fetchData = async () => {
     try {
-      const [coursesRes, userCoursesRes] = await Promise.all([
+      const [coursesRes, userCoursesRes, userRequirementsRes, electiveRulesRes, profileRes, transferCreditsRes] = await Promise.all([
         fetch("/api/courses/roadmap"),
-        fetch("/api/user/courses")
+        fetch("/api/user/courses"),
+        fetch("/api/user/requirements"),
+        fetch("/api/elective-rules"),
+        fetch("/api/user/profile"),
+        fetch("/api/user/transfer-credits")
       ])
 
-      if (!coursesRes.ok || !userCoursesRes.ok) {
+      if (!coursesRes.ok || !userCoursesRes.ok || !userRequirementsRes.ok || !electiveRulesRes.ok || !profileRes.ok || !transferCreditsRes.ok) {
         throw new Error("Failed to fetch data")
       }
 
       const coursesData = await coursesRes.json()
       const userCoursesData = await userCoursesRes.json()
+      const userRequirementsData = await userRequirementsRes.json()
+      const electiveRulesData = await electiveRulesRes.json()
+      const profileData = await profileRes.json()
+      const transferCreditsData = await transferCreditsRes.json()
 
       setCourses(Array.isArray(coursesData) ? coursesData : [])
       setUserCourses(Array.isArray(userCoursesData) ? userCoursesData : [])
+      setUserRequirements(Array.isArray(userRequirementsData) ? userRequirementsData : [])
+      setElectiveRules(Array.isArray(electiveRulesData) ? electiveRulesData : [])
+      setProfile(profileData)
+      setTransferCourseIds(getTransferCourseIds(Array.isArray(transferCreditsData) ? transferCreditsData : []))
+
+      // Workload scores are extra; the roadmap works without them
+      const workloadRes = await fetch("/api/courses/workload")
+      if (workloadRes.ok) setWorkload(await workloadRes.json())
     } catch (error) {
       console.error("Error fetching data:", error)
       setCourses([])
       setUserCourses([])
+      setUserRequirements([])
+      setElectiveRules([])
     } finally {
       setLoading(false)
     }
@@ -126,26 +180,111 @@ function RoadmapContent() {
     }
   }
 
+  const handleGradeChange = async (courseId: string, grade: string | null) => {
+    const course = courses.find(c => c.id === courseId)
+    const courseName = course?.code || "Course"
+
+    try {
+      const response = await fetch("/api/user/courses", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ courseId, completed: true, grade }),
+      })
+
+      if (response.ok) {
+        fetchData()
+        toast.success(grade ? `${courseName} grade set to ${grade}` : `${courseName} grade cleared`)
+      } else {
+        toast.error("Failed to update grade")
+      }
+    } catch (error) {
+      console.error("Error updating grade:", error)
+      toast.error("An error occurred")
+    }
+  }
+
+  const handleRequirementToggle = async (requirement: Requirement, satisfied: boolean) => {
+    try {
+      const response = await fetch("/api/user/requirements", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ requirementId: requirement.id, satisfied }),
+      })
+
+      if (response.ok) {
+        fetchData()
+        toast.success(
+          satisfied
+            ? `${requirement.name} marked as met`
+            : `${requirement.name} unmarked`
+        )
+      } else {
+        toast.error("Failed to update requirement")
+      }
+    } catch (error) {
+      console.error("Error updating requirement:", error)
+      toast.error("An error occurred")
+    }
+  }
+
+  // Transfer, AP/IB and dual-enrollment equivalents count as completed
   const isCompleted = (courseId: string) => {
-    return userCourses.some(uc => uc.courseId === courseId && uc.completed)
+    return transferCourseIds.has(courseId) || userCourses.some(uc => uc.courseId === courseId && uc.completed)
+  }
+
+  // A repeated course is judged by its latest completed attempt
+  const effectiveAttempts = getEffectiveAttempts(userCourses)
+
+  const getGrade = (courseId: string) => {
+    return effectiveAttempts.get(courseId)?.grade ?? null
   }
 
+  // A prerequisite only counts when it was passed with the grade it asks for
+  const hasPassed = (courseId: string, minGrade: string) => {
+    return isCompleted(courseId) && meetsMinimumGrade(getGrade(courseId), minGrade)
+  }
+
+  const roadmapUserCourses = [
+    ...Array.from(effectiveAttempts.values(), uc => ({ courseId: uc.courseId, completed: true, grade: uc.grade })),
+    ...Array.from(transferCourseIds, courseId => ({ courseId, completed: true })),
+  ]
+
+  const upcomingTerms = getUpcomingTerms(6)
+  const availabilityTerm = upcomingTerms[availabilityTermIndex] ?? null
+
+  const satisfiedRequirementIds = new Set(
+    userRequirements.filter(ur => ur.satisfied).map(ur => ur.requirementId)
+  )
+
   const isLocked = (course: Course) => {
     if (isCompleted(course.id)) return false
-    if (!course.prerequisites || course.prerequisites.length === 0) return false
 
-    // Check if all prerequisites are met (considering alternatives)
-    return !course.prerequisites.every(p => {
+    // Check if every prerequisite group has a met option (considering alternatives)
+    return !isPrerequisiteMet(course.prerequisites, p => isPrerequisiteOptionMet(p, (prerequisite, minGrade) => {
       // Check if the prerequisite itself is completed
-      if (isCompleted(p.prerequisite.id)) return true
+      if (hasPassed(prerequisite.id, minGrade)) return true
 
       // Check if any alternative to this prerequisite is completed
-      if (p.prerequisite.alternatives && p.prerequisite.alternatives.length > 0) {
-        return p.prerequisite.alternatives.some(alt => isCompleted(alt.alternative.id))
+      if (prerequisite.alternatives && prerequisite.alternatives.length > 0) {
+        return prerequisite.alternatives.some(alt => hasPassed(alt.id, minGrade))
       }
 
       return false
-    })
+    }, satisfiedRequirementIds))
+  }
+
+  // Non-course requirements the student can record for a course: its
+  // requirement prerequisites plus anything that waives the course itself
+  const getCourseRequirements = (course: Course) => {
+    const requirements = course.prerequisites
+      .map(p => p.requirement)
+      .filter((requirement): requirement is Requirement => requirement !== null)
+    if (course.waivedBy) requirements.push(course.waivedBy)
+    return requirements
   }
 
   if (status === "loading" || loading) {
@@ -265,7 +404,7 @@ function RoadmapContent() {
               <div className="p-3 bg-gray-50 rounded-lg">
                 <div className="text-xs text-muted-foreground mb-1">Completed</div>
                 <div className="text-2xl font-semibold text-black">
-                  {userCourses.filter(uc => uc.completed).length}
+                  {roadmapUserCourses.filter(uc => uc.completed).length}
                 </div>
               </div>
               <div className="p-3 bg-gray-50 rounded-lg">
@@ -276,6 +415,26 @@ function RoadmapContent() {
               </div>
             </div>
 
+            {/* Term */}
+            <div className="mb-6">
+              <label htmlFor="availability-term" className="text-sm font-semibold text-black mb-2 block">
+                Available In
+              </label>
+              <select
+                id="availability-term"
+                value={availabilityTermIndex}
+                onChange={(e) => setAvailabilityTermIndex(Number(e.target.value))}
+                className="w-full h-9 rounded-md border border-input bg-background px-3 text-sm text-black focus:outline-none focus:ring-2 focus:ring-ring"
+              >
+                <option value={-1}>Any term</option>
+                {upcomingTerms.map((term, index) => (
+                  <option key={`${term.semester}-${term.year}`} value={index}>
+                    {term.semester} {term.year}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             {/* Legend */}
             <div className="mb-6">
               <h3 className="text-sm font-semibold text-black mb-3">Course Status</h3>
@@ -288,6 +447,12 @@ function RoadmapContent() {
                   <div className="w-4 h-4 rounded bg-gradient-to-br from-blue-50 to-blue-100 border-2 border-blue-500" />
                   <span className="text-gray-700">Available</span>
                 </div>
+                {availabilityTerm && (
+                  <div className="flex items-center gap-2">
+                    <div className="w-4 h-4 rounded bg-gradient-to-br from-amber-50 to-amber-100 border-2 border-amber-400" />
+                    <span className="text-gray-700">Not offered in {availabilityTerm.semester} {availabilityTerm.year}</span>
+                  </div>
+                )}
                 <div className="flex items-center gap-2">
                   <div className="w-4 h-4 rounded bg-gradient-to-br from-gray-50 to-gray-100 border-2 border-gray-300" />
                   <span className="text-gray-700">Locked</span>
@@ -315,9 +480,13 @@ function RoadmapContent() {
         <div className="flex-1 relative overflow-hidden">
           <CourseRoadmap
             courses={courses}
-            userCourses={userCourses.map(uc => ({ courseId: uc.courseId, completed: uc.completed }))}
+            userCourses={roadmapUserCourses}
+            satisfiedRequirementIds={satisfiedRequirementIds}
+            electiveRules={electiveRules}
+            student={profile}
             onCourseClick={(course) => setSelectedCourse(course)}
             focusedCourseCode={focusedCourseCode}
+            term={availabilityTerm}
           />
         </div>
 
@@ -352,6 +521,9 @@ function RoadmapContent() {
                       {isCompleted(selectedCourse.id) && (
                         <Badge className="bg-green-100 text-green-700 border-green-200">Completed</Badge>
                       )}
+                      {transferCourseIds.has(selectedCourse.id) && (
+                        <Badge variant="outline" className="border-green-300 text-green-700">Transfer Credit</Badge>
+                      )}
                       {selectedCourse.gepRequirement && (
                         <Badge variant="outline" className="border-black/20 text-black">GEP</Badge>
                       )}
@@ -370,19 +542,71 @@ function RoadmapContent() {
                       </div>
                     )}
 
+                    <div>
+                      <h3 className="text-sm font-semibold text-black mb-2">Offered</h3>
+                      <p className="text-[14px] text-muted-foreground">
+                        {describeOfferings(selectedCourse.offerings)}
+                      </p>
+                    </div>
+
                     {selectedCourse.prerequisites && selectedCourse.prerequisites.length > 0 && (
                       <div>
                         <h3 className="text-sm font-semibold text-black mb-2">Prerequisites</h3>
                         <div className="flex flex-wrap gap-2">
-                          {selectedCourse.prerequisites.map((prereq, index) => (
+                          {describePrerequisites(selectedCourse.prerequisites).map((group, index) => (
                             <Badge key={index} variant="outline" className="border-black/20 text-black">
-                              {prereq.prerequisite.code}
+                              {group}
                             </Badge>
                           ))}
                         </div>
                       </div>
                     )}
 
+                    {getCourseRequirements(selectedCourse).length > 0 && (
+                      <div>
+                        <h3 className="text-sm font-semibold text-black mb-2">Other Requirements</h3>
+                        <div className="space-y-2">
+                          {getCourseRequirements(selectedCourse).map(requirement => {
+                            const satisfied = satisfiedRequirementIds.has(requirement.id)
+                            return (
+                              <div key={requirement.id} className="flex items-center justify-between gap-3 p-2 rounded-lg border border-black/10">
+                                <div>
+                                  <p className="text-[13px] font-medium text-black">
+                                    {requirement.name}
+                                    {requirement.id === selectedCourse.waivedById && (
+                                      <span className="text-muted-foreground font-normal"> (waives this course)</span>
+                                    )}
+                                  </p>
+                                  {requirement.description && (
+                                    <p className="text-xs text-muted-foreground">{requirement.description}</p>
+                                  )}
+                                </div>
+                                {requirement.type === GPA_REQUIREMENT_TYPE ? (
+                                  // Follows from the GPA; it can't be marked by hand
+                                  <span className={`shrink-0 text-[12px] ${satisfied ? "text-green-700" : "text-muted-foreground"}`}>
+                                    {satisfied ? "Met by your GPA" : "Not met yet"}
+                                  </span>
+                                ) : (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => handleRequirementToggle(requirement, !satisfied)}
+                                    className={`shrink-0 rounded-full text-[12px] ${
+                                      satisfied
+                                        ? "bg-green-100 text-green-700 border-green-200 hover:bg-green-200"
+                                        : "bg-white text-black border-black/20 hover:bg-gray-50"
+                                    }`}
+                                  >
+                                    {satisfied ? "Met" : "Mark as Met"}
+                                  </Button>
+                                )}
+                              </div>
+                            )
+                          })}
+                        </div>
+                      </div>
+                    )}
+
                     {selectedCourse.note && (
                       <div className="p-3 bg-blue-50 rounded-lg border border-blue-200">
                         <p className="text-[13px] text-blue-800">
@@ -392,7 +616,11 @@ function RoadmapContent() {
                     )}
 
                     <div className="pt-4 border-t border-black/10">
-                      {isLocked(selectedCourse) ? (
+                      {transferCourseIds.has(selectedCourse.id) ? (
+                        <p className="text-xs text-center text-muted-foreground">
+                          Covered by transfer credit; manage it on the Progress page
+                        </p>
+                      ) : isLocked(selectedCourse) ? (
                         <div className="space-y-2">
                           <Button
                             disabled
@@ -401,7 +629,7 @@ function RoadmapContent() {
                             Locked
                           </Button>
                           <p className="text-xs text-center text-muted-foreground">
-                            Complete prerequisites first
+                            Complete prerequisites and other requirements first
                           </p>
                         </div>
                       ) : (
@@ -416,7 +644,39 @@ function RoadmapContent() {
                           {isCompleted(selectedCourse.id) ? "Mark as Incomplete" : "Mark as Complete"}
                         </Button>
                       )}
+                      {isCompleted(selectedCourse.id) && !transferCourseIds.has(selectedCourse.id) && (
+                        <div className="flex items-center justify-between gap-2 mt-3">
+                          <label htmlFor="course-grade" className="text-[13px] text-muted-foreground">Grade</label>
+                          <select
+                            id="course-grade"
+                            value={getGrade(selectedCourse.id) ?? ""}
+                            onChange={(e) => handleGradeChange(selectedCourse.id, e.target.value || null)}
+                            className="h-9 rounded-md border border-input bg-background px-3 text-sm text-black focus:outline-none focus:ring-2 focus:ring-ring"
+                          >
+                            <option value="">Not recorded</option>
+                            {GRADES.map(grade => (
+                              <option key={grade} value={grade}>{grade}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
                     </div>
+
+                    <WorkloadRating
+                      courseId={selectedCourse.id}
+                      score={workload.scores[selectedCourse.id] ?? DEFAULT_WORKLOAD}
+                      rating={workload.ratings[selectedCourse.id] ?? null}
+                      canRate={userCourses.some(uc =>
+                        uc.courseId === selectedCourse.id && (uc.status === "completed" || uc.status === "failed")
+                      )}
+                      onChange={fetchData}
+                    />
+
+                    {!transferCourseIds.has(selectedCourse.id) && (
+                      <div className="pt-4 border-t border-black/10">
+                        <CourseAttempts courseId={selectedCourse.id} attempts={userCourses} onChange={fetchData} />
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
           </div>
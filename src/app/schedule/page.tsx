@@ -17,6 +17,16 @@ import {
 } from "@/components/ui/dropdown-menu"
 import { toast } from "sonner"
 import Link from "next/link"
+import { SummerTermsCard } from "@/components/summer-terms-card"
+import { PlanningPreferencesCard } from "@/components/planning-preferences-card"
+import { CourseChoicesCard } from "@/components/course-choices-card"
+import { PlanMenu } from "@/components/plan-menu"
+import { AddPlanCourse, PlanEditResult, PlanItemEditor } from "@/components/plan-item-editor"
+import { ScheduleComparison, summarizeSchedule } from "@/components/schedule-comparison"
+import type { PlanViolation } from "@/lib/plan-validation"
+import { SCHEDULE_STRATEGIES } from "@/lib/schedule-strategies"
+import { compareTerms, describeTerm } from "@/lib/terms"
+import { DEFAULT_WORKLOAD, describeTermWorkload, sumWorkload } from "@/lib/workload"
 
 interface Course {
   id: string
@@ -45,12 +55,42 @@ interface ScheduleItem {
   courseId: string
   semester: string
   year: number
+  session: string | null
+  pinned: boolean
   course: Course
 }
 
+// A course the generator couldn't fit into any plan, and why
+interface Infeasibility {
+  courseId: string
+  code: string
+  reason: string
+  detail: string
+}
+
+// A pinned course regenerating couldn't keep in its term
+interface PinConflict {
+  courseId: string | null
+  code: string | null
+  term: string
+  detail: string
+}
+
+// Where a generated plan misses the student's planning preferences, and
+// whether it's proven to be the shortest
+interface PlanNote {
+  planId: string
+  runsPastTarget: boolean
+  targetGraduationTerm: string | null
+  belowMinimumTerms: string[]
+  optimal: boolean
+}
+
 interface Schedule {
   id: string
   name: string
+  isPrimary: boolean
+  archived: boolean
   shareToken: string | null
   items: ScheduleItem[]
 }
@@ -64,14 +104,22 @@ function SchedulePageContent() {
   const [courses, setCourses] = useState<Course[]>([])
   const [userCourses, setUserCourses] = useState<UserCourse[]>([])
   const [schedules, setSchedules] = useState<Schedule[]>([])
+  const [archivedPlans, setArchivedPlans] = useState<Schedule[]>([])
   const [selectedScheduleIndex, setSelectedScheduleIndex] = useState(0)
   const [loading, setLoading] = useState(true)
   const [isSharedView, setIsSharedView] = useState(false)
   const [isSharing, setIsSharing] = useState(false)
   const [isGenerating, setIsGenerating] = useState(false)
+  const [infeasibilities, setInfeasibilities] = useState<Infeasibility[]>([])
+  const [pinConflicts, setPinConflicts] = useState<PinConflict[]>([])
+  const [planNotes, setPlanNotes] = useState<Record<string, PlanNote>>({})
+  const [violationsByPlan, setViolationsByPlan] = useState<Record<string, PlanViolation[]>>({})
   const [ownerName, setOwnerName] = useState<string | null>(null)
+  const [workloadScores, setWorkloadScores] = useState<Record<string, number>>({})
 
   const schedule = schedules[selectedScheduleIndex] || null
+  const violations = (schedule && violationsByPlan[schedule.id]) || []
+  const planNote = schedule ? planNotes[schedule.id] : undefined
 
   useEffect(() => {
     if (shareToken) {
@@ -81,6 +129,44 @@ function SchedulePageContent() {
     }
   }, [status, shareToken])
 
+  // Workload scores for the term difficulty totals; unrated courses count as average
+  useEffect(() => {
+    if (status !== "authenticated") return
+
+    const fetchWorkload = async () => {
+      try {
+        const response = await fetch("/api/courses/workload")
+        if (!response.ok) throw new Error("Failed to fetch course workload")
+        const data = await response.json()
+        setWorkloadScores(data.scores ?? {})
+      } catch (error) {
+        console.error("Error fetching course workload:", error)
+      }
+    }
+
+    fetchWorkload()
+  }, [status])
+
+  const getWorkload = (courseId: string) => workloadScores[courseId] ?? DEFAULT_WORKLOAD
+
+  // Rule problems in the selected plan, shown next to the courses they affect
+  useEffect(() => {
+    if (!schedule || isSharedView) return
+
+    const fetchViolations = async () => {
+      try {
+        const response = await fetch(`/api/schedule/${schedule.id}/items`)
+        if (!response.ok) throw new Error("Failed to validate plan")
+        const data = await response.json()
+        setViolationsByPlan(current => ({ ...current, [schedule.id]: data.violations }))
+      } catch (error) {
+        console.error("Error validating plan:", error)
+      }
+    }
+
+    fetchViolations()
+  }, [schedule, isSharedView])
+
   const fetchSharedSchedule = async () => {
     try {
       const response = await fetch(`/api/schedule/shared/${shareToken}`)
@@ -102,6 +188,28 @@ function SchedulePageContent() {
     }
   }
 
+  // Active plans become the tabs; `selectPlanId` (else the primary plan) is opened
+  const applyPlans = (plans: Schedule[], selectPlanId?: string) => {
+    const active = plans.filter(plan => !plan.archived)
+    setSchedules(active)
+    setArchivedPlans(plans.filter(plan => plan.archived))
+
+    const selected = active.findIndex(plan => plan.id === selectPlanId)
+    const primary = active.findIndex(plan => plan.isPrimary)
+    setSelectedScheduleIndex(selected !== -1 ? selected : Math.max(primary, 0))
+  }
+
+  const refreshPlans = async (selectPlanId?: string) => {
+    try {
+      const response = await fetch("/api/schedule/all")
+      if (!response.ok) throw new Error("Failed to fetch plans")
+      const data = await response.json()
+      applyPlans(Array.isArray(data.schedules) ? data.schedules : [], selectPlanId)
+    } catch (error) {
+      console.error("Error fetching plans:", error)
+    }
+  }
+
   const fetchData = async () => {
     try {
       const [coursesRes, userCoursesRes, schedulesRes] = await Promise.all([
@@ -123,13 +231,13 @@ function SchedulePageContent() {
 
           if (fetchedSchedules.length === 0) {
             // No schedules exist yet, generate them
-            await generateSchedule(coursesData, userCoursesData)
+            await generateSchedule()
           } else {
-            setSchedules(fetchedSchedules)
+            applyPlans(fetchedSchedules)
           }
         } else {
           // API error, try generating anyway
-          await generateSchedule(coursesData, userCoursesData)
+          await generateSchedule()
         }
       }
     } catch (error) {
@@ -139,42 +247,36 @@ function SchedulePageContent() {
     }
   }
 
-  const generateSchedule = async (allCourses: Course[], completedCourses: UserCourse[]) => {
+  // With a planId that plan is regenerated as a new revision; otherwise new plans are added
+  const generateSchedule = async (planId?: string) => {
     try {
       setIsGenerating(true)
 
-      // Get selected electives from localStorage (from roadmap)
-      const selectedElectivesStr = localStorage.getItem('selectedElectives')
-      let selectedElectiveIds: string[] = []
-      if (selectedElectivesStr) {
-        try {
-          const parsed = JSON.parse(selectedElectivesStr)
-          if (Array.isArray(parsed)) {
-            selectedElectiveIds = parsed.filter(id => id !== null)
-          }
-        } catch (e) {
-          console.error('Failed to parse selected electives:', e)
-        }
-      }
-
+      // The server plans the electives saved on the roadmap
       const response = await fetch("/api/schedule/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          courses: allCourses,
-          completedCourses,
-          selectedElectiveIds
-        })
+        body: JSON.stringify({ planId })
       })
 
       if (response.ok) {
         const data = await response.json()
-        setSchedules(data.schedules || [data.schedule])
-        setSelectedScheduleIndex(0)
-        toast.success(`Generated ${data.schedules?.length || 1} schedule${data.schedules?.length > 1 ? 's' : ''}`)
+        await refreshPlans(data.schedule?.id)
+        setInfeasibilities(data.infeasibilities || [])
+        setPinConflicts([])
+        setPlanNotes(notes => ({
+          ...notes,
+          ...Object.fromEntries((data.planNotes || []).map((note: PlanNote) => [note.planId, note]))
+        }))
+        if (data.infeasibilities?.length > 0) {
+          toast.warning(`${data.infeasibilities.length} course${data.infeasibilities.length > 1 ? 's' : ''} couldn't be scheduled`)
+        } else {
+          toast.success(`Generated ${data.schedules?.length || 1} schedule${data.schedules?.length > 1 ? 's' : ''}`)
+        }
       } else {
         const errorData = await response.json().catch(() => ({ error: "Unknown error" }))
         console.error("Schedule generation failed:", errorData)
+        setPinConflicts(errorData.pinConflicts || [])
         toast.error(errorData.error || "Failed to generate schedules")
       }
     } catch (error) {
@@ -185,10 +287,11 @@ function SchedulePageContent() {
     }
   }
 
-  const regenerateSchedules = async () => {
+  // Regenerates `planId` in place, or adds a new plan per strategy (replacing untouched generated ones) without one
+  const regenerateSchedules = async (planId?: string) => {
     try {
       setIsGenerating(true)
-      // Fetch fresh data to ensure we have the latest completed courses and course data
+      // The server plans from the latest record; refresh the page's copy to match
       const [coursesRes, userCoursesRes] = await Promise.all([
         fetch("/api/courses/with-prerequisites"),
         fetch("/api/user/courses")
@@ -198,18 +301,11 @@ function SchedulePageContent() {
         const freshCoursesData = await coursesRes.json()
         const freshUserCoursesData = await userCoursesRes.json()
 
-        // Update state with fresh data
         setCourses(Array.isArray(freshCoursesData) ? freshCoursesData : [])
         setUserCourses(Array.isArray(freshUserCoursesData) ? freshUserCoursesData : [])
-
-        // Generate schedule with fresh data
-        await generateSchedule(
-          Array.isArray(freshCoursesData) ? freshCoursesData : [],
-          Array.isArray(freshUserCoursesData) ? freshUserCoursesData : []
-        )
-      } else {
-        toast.error("Failed to fetch latest course data")
       }
+
+      await generateSchedule(planId)
     } catch (error) {
       console.error("Error regenerating schedule:", error)
       toast.error("Failed to regenerate schedule")
@@ -218,6 +314,26 @@ function SchedulePageContent() {
     }
   }
 
+  const unarchivePlan = async (plan: Schedule) => {
+    try {
+      const response = await fetch(`/api/schedule/${plan.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ archived: false })
+      })
+
+      if (response.ok) {
+        toast.success(`${plan.name} restored`)
+        await refreshPlans(plan.id)
+      } else {
+        toast.error("Failed to restore plan")
+      }
+    } catch (error) {
+      console.error("Error restoring plan:", error)
+      toast.error("Failed to restore plan")
+    }
+  }
+
   const shareSchedule = async () => {
     if (!schedule) return
 
@@ -241,6 +357,16 @@ function SchedulePageContent() {
     }
   }
 
+  // An edit is saved as the plan's next revision; its violations come back with it
+  const applyPlanEdit = ({ schedule: edited, violations }: PlanEditResult<Schedule>) => {
+    setSchedules(schedules.map(plan => plan.id === edited.id ? edited : plan))
+    setViolationsByPlan(current => ({ ...current, [edited.id]: violations }))
+  }
+
+  const plannedCourseIds = new Set(schedule?.items.map(item => item.courseId) ?? [])
+  const unplannedCourses = courses.filter(course => !plannedCourseIds.has(course.id))
+  const unplannedElectives = unplannedCourses.filter(course => course.isElective)
+
   const getCompletedCourseIds = () => {
     return userCourses.filter(uc => uc.completed).map(uc => uc.courseId)
   }
@@ -250,7 +376,7 @@ function SchedulePageContent() {
 
     const grouped: { [key: string]: ScheduleItem[] } = {}
     schedule.items.forEach(item => {
-      const key = `${item.semester} ${item.year}`
+      const key = describeTerm(item)
       if (!grouped[key]) grouped[key] = []
       grouped[key].push(item)
     })
@@ -358,13 +484,24 @@ function SchedulePageContent() {
                 </p>
               </div>
               <div className="flex gap-3">
-                {!isSharedView && schedules.length > 0 && (
+                {!isSharedView && (
                   <Button
-                    onClick={regenerateSchedules}
+                    onClick={() => regenerateSchedules()}
                     disabled={isGenerating}
                     variant="outline"
                     className="bg-white text-black hover:bg-gray-50 hover:text-black border-black/20 px-6 h-10 text-[13px] rounded-full transition-all-smooth"
-                    title="Generate new schedule variations"
+                    title="Generate a new plan for each strategy, replacing generated plans you haven't changed"
+                  >
+                    New Plans
+                  </Button>
+                )}
+                {!isSharedView && schedule && (
+                  <Button
+                    onClick={() => regenerateSchedules(schedule.id)}
+                    disabled={isGenerating}
+                    variant="outline"
+                    className="bg-white text-black hover:bg-gray-50 hover:text-black border-black/20 px-6 h-10 text-[13px] rounded-full transition-all-smooth"
+                    title="Regenerate this plan; the current version stays in its history"
                   >
                     <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -386,6 +523,9 @@ function SchedulePageContent() {
                     {isSharing ? "Sharing..." : "Share"}
                   </Button>
                 )}
+                {!isSharedView && schedule && (
+                  <PlanMenu key={schedule.id} plan={schedule} onChange={refreshPlans} />
+                )}
               </div>
             </div>
 
@@ -396,6 +536,8 @@ function SchedulePageContent() {
                   const totalCourses = sched.items.length
                   const totalCredits = sched.items.reduce((sum, item) => sum + item.course.credits, 0)
                   const electives = sched.items.filter(item => item.course.isElective)
+                  const { graduation } = summarizeSchedule(sched)
+                  const strategy = Object.values(SCHEDULE_STRATEGIES).find(s => s.name === sched.name)
 
                   return (
                     <button
@@ -407,12 +549,28 @@ function SchedulePageContent() {
                           : "bg-white text-black border-black/20 hover:border-black/40"
                       }`}
                     >
-                      <div className="font-semibold text-[15px] mb-1">{sched.name}</div>
+                      <div className="font-semibold text-[15px] mb-1">
+                        {sched.name}
+                        {sched.isPrimary && (
+                          <span className={`ml-2 text-[11px] font-normal ${
+                            selectedScheduleIndex === index ? "text-white/70" : "text-muted-foreground"
+                          }`}>
+                            Primary
+                          </span>
+                        )}
+                      </div>
                       <div className={`text-[12px] ${
                         selectedScheduleIndex === index ? "text-white/70" : "text-muted-foreground"
                       }`}>
-                        {totalCourses} courses • {totalCredits} credits
+                        {totalCourses} courses • {totalCredits} credits{graduation && ` • Graduate ${graduation}`}
                       </div>
+                      {strategy && (
+                        <div className={`text-[11px] mt-1 max-w-[220px] ${
+                          selectedScheduleIndex === index ? "text-white/60" : "text-muted-foreground"
+                        }`}>
+                          {strategy.description}
+                        </div>
+                      )}
                       {electives.length > 0 && (
                         <div className={`text-[11px] mt-2 ${
                           selectedScheduleIndex === index ? "text-white/60" : "text-muted-foreground"
@@ -425,8 +583,116 @@ function SchedulePageContent() {
                 })}
               </div>
             )}
+
+            {!isSharedView && archivedPlans.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mt-3 text-[13px] text-muted-foreground">
+                Archived:
+                {archivedPlans.map(plan => (
+                  <Button
+                    key={plan.id}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => unarchivePlan(plan)}
+                    className="rounded-full text-[12px] border-black/20 bg-white text-black hover:bg-gray-50 hover:text-black"
+                    title="Move back to your active plans"
+                  >
+                    {plan.name}
+                  </Button>
+                ))}
+              </div>
+            )}
           </div>
 
+          {!isSharedView && (
+            <>
+              <PlanningPreferencesCard onChange={() => toast.success("Preferences saved. Regenerate to apply them")} />
+              <SummerTermsCard onChange={() => toast.success("Summer plans updated. Regenerate to apply them")} />
+              <CourseChoicesCard onChange={() => toast.success("Course choice saved. Regenerate to apply it")} />
+            </>
+          )}
+
+          {!isSharedView && schedules.length > 1 && (
+            <ScheduleComparison
+              schedules={schedules}
+              getWorkload={getWorkload}
+              selectedIndex={selectedScheduleIndex}
+              onSelect={setSelectedScheduleIndex}
+            />
+          )}
+
+          {!isSharedView && pinConflicts.length > 0 && (
+            <Card className="border-amber-300 bg-amber-50 mb-6">
+              <CardHeader>
+                <CardTitle className="text-xl text-black">Pinned Courses Don&apos;t Fit</CardTitle>
+                <CardDescription className="text-muted-foreground">
+                  The plan wasn&apos;t changed. Unpin or move these courses, then regenerate
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {pinConflicts.map(conflict => (
+                  <div key={`${conflict.courseId}-${conflict.detail}`} className="flex gap-3 text-[14px]">
+                    <span className="font-semibold text-black w-40 shrink-0">
+                      {conflict.code ? `${conflict.code}, ${conflict.term}` : conflict.term}
+                    </span>
+                    <span className="text-muted-foreground">{conflict.detail}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {!isSharedView && infeasibilities.length > 0 && (
+            <Card className="border-amber-300 bg-amber-50 mb-6">
+              <CardHeader>
+                <CardTitle className="text-xl text-black">Couldn&apos;t Be Scheduled</CardTitle>
+                <CardDescription className="text-muted-foreground">
+                  No plan fits these courses yet
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {infeasibilities.map(infeasibility => (
+                  <div key={infeasibility.courseId} className="flex gap-3 text-[14px]">
+                    <span className="font-semibold text-black w-24 shrink-0">{infeasibility.code}</span>
+                    <span className="text-muted-foreground">{infeasibility.detail}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {!isSharedView && planNote && (planNote.runsPastTarget || planNote.belowMinimumTerms.length > 0 || !planNote.optimal) && (
+            <Card className="border-amber-300 bg-amber-50 mb-6">
+              <CardHeader>
+                <CardTitle className="text-xl text-black">About This Plan</CardTitle>
+                <CardDescription className="text-muted-foreground">
+                  Adjust your planning preferences or summers, then regenerate
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2 text-[14px] text-black">
+                {planNote.runsPastTarget && (
+                  <p>Runs past your target graduation term{planNote.targetGraduationTerm ? ` (${planNote.targetGraduationTerm})` : ""}</p>
+                )}
+                {planNote.belowMinimumTerms.length > 0 && (
+                  <p>Below your minimum credit load in {planNote.belowMinimumTerms.join(", ")}</p>
+                )}
+                {!planNote.optimal && (
+                  <p>The shortest plan the search found; a plan with fewer terms may exist</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {!isSharedView && schedule && (
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+              <p className={`text-[13px] ${violations.length > 0 ? "text-amber-700" : "text-muted-foreground"}`}>
+                {violations.length > 0
+                  ? `${violations.length} issue${violations.length > 1 ? "s" : ""} in this plan, shown with the courses below`
+                  : "Move, add, remove or swap courses; changes are checked as you make them"}
+              </p>
+              <AddPlanCourse planId={schedule.id} courses={unplannedCourses} onEdited={applyPlanEdit} />
+            </div>
+          )}
+
           {Object.keys(groupedSchedule).length === 0 ? (
             <Card className="border-black/10 bg-white">
               <CardContent className="py-20 text-center">
@@ -460,15 +726,15 @@ function SchedulePageContent() {
           ) : (
             <div className="space-y-6">
               {Object.entries(groupedSchedule)
-                .sort(([a], [b]) => {
-                  const [semA, yearA] = a.split(' ')
-                  const [semB, yearB] = b.split(' ')
-                  if (yearA !== yearB) return parseInt(yearA) - parseInt(yearB)
-                  const semOrder = { Fall: 1, Spring: 2, Summer: 3 }
-                  return semOrder[semA as keyof typeof semOrder] - semOrder[semB as keyof typeof semOrder]
-                })
+                .sort(([, a], [, b]) => compareTerms(a[0], b[0]))
                 .map(([semester, items], index) => {
                   const totalCredits = items.reduce((sum, item) => sum + item.course.credits, 0)
+                  const termWorkload = sumWorkload(items.map(item => getWorkload(item.courseId)))
+                  // Summer credit caps cover every session of that summer
+                  const termViolations = violations.filter(violation =>
+                    violation.courseId === null &&
+                    (violation.term === semester || violation.term === `${items[0].semester} ${items[0].year}`)
+                  )
                   return (
                     <Card key={semester} className="border-black/10 bg-white">
                       <CardHeader className="pb-4">
@@ -476,8 +742,13 @@ function SchedulePageContent() {
                           <div>
                             <CardTitle className="text-2xl text-black">{semester}</CardTitle>
                             <CardDescription className="text-[13px] text-muted-foreground mt-1">
-                              {totalCredits} credit hours • {items.length} courses
+                              {totalCredits} credit hours • {items.length} courses • Difficulty {termWorkload} ({describeTermWorkload(termWorkload, items.length)})
                             </CardDescription>
+                            {termViolations.map(violation => (
+                              <p key={violation.message} className="text-[13px] text-amber-700 mt-1">
+                                {violation.message}
+                              </p>
+                            ))}
                           </div>
                           <Badge variant="secondary" className="bg-blue-50 text-blue-700 border-blue-200 text-[13px]">
                             Semester {index + 1}
@@ -488,17 +759,25 @@ function SchedulePageContent() {
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                           {items.map((item) => {
                             const isCompleted = getCompletedCourseIds().includes(item.courseId)
+                            const itemViolations = violations.filter(violation => violation.courseId === item.courseId)
                             return (
                               <div
                                 key={item.id}
                                 className={`p-4 rounded-xl border transition-all-smooth ${
-                                  isCompleted
+                                  itemViolations.length > 0
+                                    ? 'bg-amber-50/40 border-amber-300'
+                                    : isCompleted
                                     ? 'bg-green-50/30 border-green-200'
                                     : 'bg-white border-black/10 hover:border-black/20'
                                 }`}
                               >
                                 <div className="flex justify-between items-start mb-2">
-                                  <h4 className="font-semibold text-[15px] text-black">{item.course.code}</h4>
+                                  <h4 className="font-semibold text-[15px] text-black">
+                                    {item.course.code}
+                                    {item.pinned && (
+                                      <span className="ml-2 text-[11px] font-normal text-muted-foreground">Pinned</span>
+                                    )}
+                                  </h4>
                                   <Badge variant="secondary" className="text-[11px] text-black rounded-full bg-white border-black/10 hover:bg-gray-100 hover:text-black">
                                     {item.course.credits} cr
                                   </Badge>
@@ -535,6 +814,23 @@ function SchedulePageContent() {
                                     )}
                                   </div>
                                 )}
+                                {itemViolations.length > 0 && (
+                                  <ul className="mt-2 space-y-1">
+                                    {itemViolations.map(violation => (
+                                      <li key={violation.message} className="text-[12px] text-amber-700">
+                                        {violation.message}
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                                {!isSharedView && schedule && (
+                                  <PlanItemEditor
+                                    planId={schedule.id}
+                                    item={item}
+                                    electives={unplannedElectives}
+                                    onEdited={applyPlanEdit}
+                                  />
+                                )}
                               </div>
                             )
                           })}
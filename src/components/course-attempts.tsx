@@ -0,0 +1,181 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "sonner"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  ATTEMPT_STATUSES,
+  ATTEMPT_TERMS,
+  canRepeatCourse,
+  compareAttempts,
+  CourseAttempt,
+  describeAttemptTerm,
+} from "@/lib/course-attempts"
+import { GRADES } from "@/lib/grades"
+
+interface CourseAttemptsProps {
+  courseId: string
+  attempts: CourseAttempt[]
+  onChange: () => void
+}
+
+const EMPTY_FORM = { status: "enrolled", semester: "", year: "", grade: "" }
+
+const SELECT_CLASS_NAME = "h-9 rounded-md border border-input bg-background px-2 text-sm text-black focus:outline-none focus:ring-2 focus:ring-ring"
+
+// Attempt history for one course (planned, enrolled, completed, W, failed),
+// with a form to record another attempt when the course can still be repeated
+export function CourseAttempts({ courseId, attempts, onChange }: CourseAttemptsProps) {
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  const courseAttempts = attempts.filter(a => a.courseId === courseId).sort(compareAttempts)
+  const canRepeat = canRepeatCourse(attempts, courseId)
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      const response = await fetch("/api/user/courses", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          courseId,
+          status: form.status,
+          semester: form.semester || null,
+          year: form.year ? Number(form.year) : null,
+          grade: form.grade || null,
+        }),
+      })
+
+      if (response.ok) {
+        toast.success("Attempt recorded")
+        setForm(EMPTY_FORM)
+        onChange()
+      } else {
+        const data = await response.json()
+        toast.error(data.error || "Failed to record attempt")
+      }
+    } catch (error) {
+      console.error("Error recording attempt:", error)
+      toast.error("An error occurred")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (id: string) => {
+    try {
+      const response = await fetch("/api/user/courses", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id }),
+      })
+
+      if (response.ok) {
+        toast.success("Attempt removed")
+        onChange()
+      } else {
+        toast.error("Failed to remove attempt")
+      }
+    } catch (error) {
+      console.error("Error removing attempt:", error)
+      toast.error("An error occurred")
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-semibold text-black text-[15px]">Attempts</h4>
+      {courseAttempts.length > 0 ? (
+        <div className="space-y-2">
+          {courseAttempts.map(attempt => (
+            <div key={attempt.id} className="flex justify-between items-center gap-2 text-[13px]">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="rounded-full text-[11px] border-black/20 text-black">
+                  {ATTEMPT_STATUSES[attempt.status] ?? attempt.status}
+                </Badge>
+                <span className="text-muted-foreground">{describeAttemptTerm(attempt)}</span>
+                {attempt.grade && <span className="text-black">{attempt.grade}</span>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(attempt.id)}
+                className="h-7 px-2 text-[12px] text-muted-foreground hover:text-black"
+              >
+                Remove
+              </Button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-[13px] text-muted-foreground">No attempts recorded</p>
+      )}
+
+      {canRepeat ? (
+        <form onSubmit={handleAdd} className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={form.status}
+              onChange={(e) => setForm({ ...form, status: e.target.value })}
+              className={SELECT_CLASS_NAME}
+              title="Status"
+            >
+              {Object.entries(ATTEMPT_STATUSES).map(([status, label]) => (
+                <option key={status} value={status}>{label}</option>
+              ))}
+            </select>
+            <select
+              value={form.grade}
+              onChange={(e) => setForm({ ...form, grade: e.target.value })}
+              className={SELECT_CLASS_NAME}
+              title="Grade"
+            >
+              <option value="">No grade</option>
+              {GRADES.map(grade => (
+                <option key={grade} value={grade}>{grade}</option>
+              ))}
+            </select>
+            <select
+              value={form.semester}
+              onChange={(e) => setForm({ ...form, semester: e.target.value })}
+              className={SELECT_CLASS_NAME}
+              title="Term"
+            >
+              <option value="">Term</option>
+              {ATTEMPT_TERMS.map(term => (
+                <option key={term} value={term}>{term}</option>
+              ))}
+            </select>
+            <Input
+              type="number"
+              placeholder="Year"
+              value={form.year}
+              onChange={(e) => setForm({ ...form, year: e.target.value })}
+              className="h-9"
+            />
+          </div>
+          <Button
+            type="submit"
+            disabled={saving}
+            variant="outline"
+            className="w-full rounded-full text-[12px] border-black/20 bg-white text-black hover:bg-gray-50 hover:text-black"
+          >
+            {courseAttempts.length > 0 ? "Record Repeat" : "Record Attempt"}
+          </Button>
+        </form>
+      ) : (
+        <p className="text-[12px] text-muted-foreground">
+          Passed with a C or better, so this course can&apos;t be repeated
+        </p>
+      )}
+    </div>
+  )
+}
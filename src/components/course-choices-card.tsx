@@ -0,0 +1,114 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+
+interface CourseGroup {
+  id: string
+  name: string
+  choose: number
+  chosenIds: string[]
+  courses: { id: string; code: string; name: string; credits: number }[]
+}
+
+interface CourseChoicesCardProps {
+  onChange: () => void
+}
+
+// Where the program accepts one course or another (ENC3241 or ENC3250), the
+// student picks which to plan; without a pick the scheduler takes the
+// catalog's first required one
+export function CourseChoicesCard({ onChange }: CourseChoicesCardProps) {
+  const [courseGroups, setCourseGroups] = useState<CourseGroup[]>([])
+
+  const fetchCourseGroups = async () => {
+    try {
+      const response = await fetch("/api/user/course-groups")
+      if (!response.ok) throw new Error("Failed to fetch course groups")
+      const data = await response.json()
+      setCourseGroups(Array.isArray(data) ? data : [])
+    } catch (error) {
+      console.error("Error fetching course groups:", error)
+      setCourseGroups([])
+    }
+  }
+
+  useEffect(() => {
+    fetchCourseGroups()
+  }, [])
+
+  const saveChoice = async (groupId: string, courseIds: string[]) => {
+    try {
+      const response = await fetch("/api/user/course-groups", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ groupId, courseIds }),
+      })
+
+      if (response.ok) {
+        fetchCourseGroups()
+        onChange()
+      } else {
+        const data = await response.json()
+        toast.error(data.error || "Failed to save course choice")
+      }
+    } catch (error) {
+      console.error("Error saving course choice:", error)
+      toast.error("An error occurred")
+    }
+  }
+
+  // Picking a course past the group's limit replaces the oldest pick
+  const toggleCourse = (group: CourseGroup, courseId: string) => {
+    const courseIds = group.chosenIds.includes(courseId)
+      ? group.chosenIds.filter(id => id !== courseId)
+      : [...group.chosenIds, courseId].slice(-group.choose)
+    saveChoice(group.id, courseIds)
+  }
+
+  const choices = courseGroups.filter(group => group.courses.length > group.choose)
+  if (choices.length === 0) return null
+
+  return (
+    <Card className="border-black/10 bg-white mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl text-black">Course Choices</CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Pick which course to take where your program accepts either, then regenerate your schedule
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {choices.map(group => (
+          <div key={group.id} className="flex flex-wrap items-center gap-4 pb-3 border-b border-black/10 last:border-0">
+            <span className="w-48 text-[15px] text-black">
+              {group.choose === 1 ? "Take one of" : `Take ${group.choose} of`}
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {group.courses.map(course => (
+                <Button
+                  key={course.id}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => toggleCourse(group, course.id)}
+                  title={`${course.name} (${course.credits} credits)`}
+                  className={`rounded-full text-[12px] border-2 transition-all-smooth ${
+                    group.chosenIds.includes(course.id)
+                      ? "bg-black text-white hover:bg-black/90 border-black hover:text-white"
+                      : "bg-white text-black border-black/20 hover:bg-gray-50 hover:text-black"
+                  }`}
+                >
+                  {course.code}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
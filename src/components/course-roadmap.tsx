@@ -3,6 +3,12 @@
 import { useEffect, useRef, useState, useCallback, useMemo } from "react"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { isPrerequisiteMet, isPrerequisiteOptionMet } from "@/lib/prerequisites"
+import { meetsMinimumGrade } from "@/lib/grades"
+import { CourseOfferingRecord, isOfferedIn } from "@/lib/offerings"
+import { Term } from "@/lib/terms"
+import { ElectiveRule, findElectiveViolation, StudentProfile } from "@/lib/elective-rules"
+import { toast } from "sonner"
 
 interface Course {
   id: string
@@ -16,24 +22,33 @@ interface Course {
   isElective: boolean
   electiveLevel?: string | null
   prerequisites: {
+    groupIndex: number
     prerequisite: {
       id: string
       code: string
-      alternatives?: { alternative: { id: string; code: string } }[]
-    }
+      waivedById?: string | null
+      alternatives?: { id: string; code: string }[] // Other members of its course groups
+    } | null
+    requirement?: { id: string; name: string } | null
   }[]
+  offerings?: CourseOfferingRecord[]
 }
 
 interface UserCourse {
   courseId: string
   completed: boolean
+  grade?: string | null
 }
 
 interface RoadmapProps {
   courses: Course[]
   userCourses: UserCourse[]
+  satisfiedRequirementIds?: Set<string> // Placements, exams, GPA gates and consents the student has recorded
+  electiveRules?: ElectiveRule[]
+  student?: StudentProfile
   onCourseClick?: (course: Course) => void
   focusedCourseCode?: string | null
+  term?: Term | null // When set, "available" also means the course runs that term
 }
 
 interface Position {
@@ -49,7 +64,20 @@ interface GraphNode {
   prerequisites: string[]
 }
 
-export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCourseCode }: RoadmapProps) {
+const NO_REQUIREMENTS = new Set<string>()
+const NO_ELECTIVE_RULES: ElectiveRule[] = []
+const DEFAULT_STUDENT: StudentProfile = { programId: null, bsToMs: false }
+
+export function CourseRoadmap({
+  courses,
+  userCourses,
+  satisfiedRequirementIds = NO_REQUIREMENTS,
+  electiveRules = NO_ELECTIVE_RULES,
+  student = DEFAULT_STUDENT,
+  onCourseClick,
+  focusedCourseCode,
+  term = null
+}: RoadmapProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const contentRef = useRef<HTMLDivElement>(null)
@@ -62,34 +90,27 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
   const [isDragging, setIsDragging] = useState(false)
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
 
-  // Elective slots state (2 elective slots for CS/IT degree)
-  const [selectedElectives, setSelectedElectives] = useState<(string | null)[]>([
-    null, null
-  ])
+  // One entry per elective slot of the student's program; null when still open
+  const [selectedElectives, setSelectedElectives] = useState<(string | null)[]>([])
 
   // Temporary ghost course for previewing electives not yet selected
   const [ghostCourseId, setGhostCourseId] = useState<string | null>(null)
 
-  // Load selected electives from localStorage on mount
+  // Load the saved elective picks on mount
   useEffect(() => {
-    const saved = localStorage.getItem('selectedElectives')
-    if (saved) {
+    const fetchElectives = async () => {
       try {
-        const parsed = JSON.parse(saved)
-        if (Array.isArray(parsed) && parsed.length === 2) {
-          setSelectedElectives(parsed)
-        }
-      } catch (e) {
-        console.error('Failed to load selected electives:', e)
+        const response = await fetch('/api/user/electives')
+        if (!response.ok) throw new Error('Failed to fetch elective selections')
+        const data = await response.json()
+        setSelectedElectives(Array.isArray(data.courseIds) ? data.courseIds : [])
+      } catch (error) {
+        console.error('Failed to load selected electives:', error)
       }
     }
+    fetchElectives()
   }, [])
 
-  // Save selected electives to localStorage whenever they change
-  useEffect(() => {
-    localStorage.setItem('selectedElectives', JSON.stringify(selectedElectives))
-  }, [selectedElectives])
-
   // Handle ghost course (temporary preview of elective not yet selected)
   useEffect(() => {
     if (focusedCourseCode) {
@@ -113,11 +134,12 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
 
   // Separate electives from required courses
   const electiveCourses = useMemo(() =>
-    courses.filter(c => c.isElective || c.category?.toLowerCase().includes('elective')),
+    // isElective comes scoped to the student's program (an elective's category may not apply)
+    courses.filter(c => c.isElective),
     [courses]
   )
   const requiredCourses = useMemo(() =>
-    courses.filter(c => !c.isElective && (!c.category || !c.category.toLowerCase().includes('elective'))),
+    courses.filter(c => !c.isElective),
     [courses]
   )
 
@@ -128,29 +150,33 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
     return userCourses.some(uc => uc.courseId === courseId && uc.completed)
   }, [userCourses])
 
+  // Completed with at least the grade a prerequisite asks for
+  const hasPassed = useCallback((courseId: string, minGrade: string) => {
+    return userCourses.some(uc => uc.courseId === courseId && uc.completed && meetsMinimumGrade(uc.grade, minGrade))
+  }, [userCourses])
+
   const getCourseStatus = useCallback((course: Course) => {
     const completed = isCompleted(course.id)
     if (completed) return 'completed'
 
-    if (!course.prerequisites || course.prerequisites.length === 0) return 'available'
-
-    // Check if all prerequisites are met (considering alternatives)
-    const prereqsMet = course.prerequisites.every(p => {
+    // Check if every prerequisite group has a met option (considering alternatives)
+    const prereqsMet = isPrerequisiteMet(course.prerequisites, p => isPrerequisiteOptionMet(p, (prerequisite, minGrade) => {
       // Check if the prerequisite itself is completed
-      if (isCompleted(p.prerequisite.id)) return true
+      if (hasPassed(prerequisite.id, minGrade)) return true
 
       // Check if any alternative to this prerequisite is completed
-      if (p.prerequisite.alternatives && p.prerequisite.alternatives.length > 0) {
-        return p.prerequisite.alternatives.some(alt => isCompleted(alt.alternative.id))
+      if (prerequisite.alternatives && prerequisite.alternatives.length > 0) {
+        return prerequisite.alternatives.some(alt => hasPassed(alt.id, minGrade))
       }
 
       return false
-    })
+    }, satisfiedRequirementIds))
 
-    if (prereqsMet) return 'available'
+    if (!prereqsMet) return 'locked'
+    if (term && !isOfferedIn(course.offerings, term)) return 'not_offered'
 
-    return 'locked'
-  }, [isCompleted])
+    return 'available'
+  }, [isCompleted, hasPassed, satisfiedRequirementIds, term])
 
   // Zoom controls
   const handleZoomIn = () => {
@@ -230,13 +256,52 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
     setIsDragging(false)
   }
 
-  // Handle elective selection
-  const handleElectiveSelect = (slotIndex: number, courseId: string) => {
-    setSelectedElectives(prev => {
-      const newElectives = [...prev]
-      newElectives[slotIndex] = courseId || null
-      return newElectives
-    })
+  // The elective rule (IT-course cap, excluded courses, graduate limit) that
+  // putting courseId in this slot would break, counting completed electives
+  // and the other slots
+  const getElectiveViolation = (slotIndex: number, courseId: string) => {
+    const candidate = courses.find(c => c.id === courseId)
+    if (!candidate) return null
+
+    const current = courses.filter(c =>
+      c.id !== courseId && c.isElective && (
+        isCompleted(c.id) ||
+        selectedElectives.some((id, index) => index !== slotIndex && id === c.id)
+      )
+    )
+    return findElectiveViolation(electiveRules, student, current, candidate)
+  }
+
+  // Handle elective selection; the picks are saved for the schedule generator
+  const handleElectiveSelect = async (slotIndex: number, courseId: string) => {
+    const violation = courseId ? getElectiveViolation(slotIndex, courseId) : null
+    if (violation) {
+      const code = courses.find(c => c.id === courseId)?.code
+      toast.error(`${code} can't be selected: ${violation.rule.description}`)
+      return
+    }
+
+    const previous = selectedElectives
+    const newElectives = [...selectedElectives]
+    newElectives[slotIndex] = courseId || null
+    setSelectedElectives(newElectives)
+
+    try {
+      const response = await fetch('/api/user/electives', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ courseIds: newElectives }),
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        toast.error(data.error || 'Failed to save elective')
+        setSelectedElectives(previous)
+      }
+    } catch (error) {
+      console.error('Error saving elective:', error)
+      toast.error('An error occurred')
+      setSelectedElectives(previous)
+    }
   }
 
   useEffect(() => {
@@ -277,13 +342,14 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
         course: course,
         level: -1,
         dependents: [],
-        prerequisites: course.prerequisites?.map(p => p.prerequisite.id) || []
+        // Non-course requirements have no node in the graph
+        prerequisites: course.prerequisites?.flatMap(p => p.prerequisite ? [p.prerequisite.id] : []) || []
       })
 
       // Recursively add prerequisites
       if (course.prerequisites && course.prerequisites.length > 0) {
         course.prerequisites.forEach(p => {
-          const prereqCourse = courses.find(c => c.id === p.prerequisite.id)
+          const prereqCourse = courses.find(c => c.id === p.prerequisite?.id)
           if (prereqCourse) {
             addCourseToGraph(prereqCourse)
           }
@@ -302,7 +368,7 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
     allCoursesToProcess.forEach(course => {
       if (course.prerequisites) {
         course.prerequisites.forEach(p => {
-          const prereqNode = graphNodes.get(p.prerequisite.id)
+          const prereqNode = p.prerequisite && graphNodes.get(p.prerequisite.id)
           if (prereqNode && !prereqNode.dependents.includes(course.id)) {
             prereqNode.dependents.push(course.id)
           }
@@ -571,7 +637,7 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
             <div className="flex items-center gap-2">
               <h3 className="text-sm font-bold text-purple-900">Choose Your Electives:</h3>
               <span className="text-xs text-purple-700 bg-white px-2 py-0.5 rounded-full border border-purple-300">
-                {selectedElectives.filter(e => e !== null).length}/2 Selected
+                {selectedElectives.filter(e => e !== null).length}/{selectedElectives.length} Selected
               </span>
             </div>
             <div className="flex gap-3 flex-1">
@@ -593,11 +659,19 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
                           return level <= 4
                         })
                         .filter(c => !selectedElectives.includes(c.id) || selected === c.id)
-                        .map(course => (
-                          <option key={course.id} value={course.id}>
-                            {course.code}
-                          </option>
-                        ))}
+                        .map(course => {
+                          const violation = selected !== course.id && getElectiveViolation(index, course.id)
+                          return (
+                            <option
+                              key={course.id}
+                              value={course.id}
+                              disabled={!!violation}
+                              title={violation ? violation.rule.description : undefined}
+                            >
+                              {course.code}{violation ? " (not allowed)" : ""}
+                            </option>
+                          )
+                        })}
                     </optgroup>
                   </select>
                 </div>
@@ -683,6 +757,7 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
             const completed = status === 'completed'
             const available = status === 'available'
             const locked = status === 'locked'
+            const notOffered = status === 'not_offered'
 
             return (
               <Card
@@ -699,6 +774,8 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
                     ? 'bg-gradient-to-br from-green-50 to-green-100 border-2 border-green-500'
                     : available
                     ? 'bg-gradient-to-br from-blue-50 to-blue-100 border-2 border-blue-500'
+                    : notOffered
+                    ? 'bg-gradient-to-br from-amber-50 to-amber-100 border-2 border-amber-400'
                     : 'bg-gradient-to-br from-gray-50 to-gray-100 border-2 border-gray-300 opacity-60'
                 }`}
                 style={{
@@ -737,6 +814,9 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
                     {available && !completed && (
                       <span className="text-xs font-bold text-blue-700">Available</span>
                     )}
+                    {notOffered && (
+                      <span className="text-xs font-medium text-amber-700">Not offered</span>
+                    )}
                     {locked && (
                       <span className="text-xs font-medium text-gray-500">Locked</span>
                     )}
@@ -888,6 +968,9 @@ export function CourseRoadmap({ courses, userCourses, onCourseClick, focusedCour
                     {available && !completed && (
                       <span className="text-xs font-bold text-purple-700">Available</span>
                     )}
+                    {status === 'not_offered' && (
+                      <span className="text-xs font-medium text-amber-700">Not offered</span>
+                    )}
                     {locked && (
                       <span className="text-xs font-medium text-gray-500">Locked</span>
                     )}
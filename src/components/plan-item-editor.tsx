@@ -0,0 +1,177 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import type { PlanViolation } from "@/lib/plan-validation"
+import type { PlanEdit } from "@/lib/schedule-plans"
+import { describeTerm, getUpcomingTerms, SUMMER_SESSIONS, Term } from "@/lib/terms"
+
+interface EditableCourse {
+  id: string
+  code: string
+  name: string
+  isElective: boolean
+}
+
+export interface PlanEditResult<T> {
+  schedule: T
+  violations: PlanViolation[]
+}
+
+const SELECT_CLASS_NAME = "h-8 rounded-md border border-input bg-background px-2 text-[12px] text-black focus:outline-none focus:ring-2 focus:ring-ring"
+
+// Terms a course can be moved or added to: whole summers and each session
+const TERM_CHOICES: Term[] = getUpcomingTerms(15).flatMap(term =>
+  term.semester === "Summer"
+    ? [term, ...Object.keys(SUMMER_SESSIONS).map(session => ({ ...term, session }))]
+    : [term]
+)
+
+const findTermChoice = (label: string) => TERM_CHOICES.find(term => describeTerm(term) === label)
+
+// Saves one edit and returns the plan with its violations; null when the
+// edit was refused (not in the plan, not an elective)
+async function editPlan<T>(planId: string, edit: PlanEdit): Promise<PlanEditResult<T> | null> {
+  try {
+    const response = await fetch(`/api/schedule/${planId}/items`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(edit),
+    })
+
+    const data = await response.json()
+    if (response.ok) return data
+    toast.error(data.error || "Failed to edit plan")
+  } catch (error) {
+    console.error("Error editing plan:", error)
+    toast.error("An error occurred")
+  }
+  return null
+}
+
+interface PlanItemEditorProps<T> {
+  planId: string
+  item: { courseId: string, semester: string, year: number, session: string | null, pinned: boolean, course: EditableCourse }
+  electives: EditableCourse[] // Electives that aren't in the plan yet
+  onEdited: (result: PlanEditResult<T>) => void
+}
+
+// Move a planned course to another term, pin it there, swap an elective or remove the course
+export function PlanItemEditor<T>({ planId, item, electives, onEdited }: PlanItemEditorProps<T>) {
+  const [saving, setSaving] = useState(false)
+
+  const submit = async (edit: PlanEdit) => {
+    setSaving(true)
+    const result = await editPlan<T>(planId, edit)
+    setSaving(false)
+    if (result) onEdited(result)
+  }
+
+  const moveTo = (label: string) => {
+    const term = findTermChoice(label)
+    if (term) submit({ action: "move", courseId: item.courseId, ...term })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3">
+      <select
+        value={describeTerm(item)}
+        onChange={(e) => moveTo(e.target.value)}
+        disabled={saving}
+        className={SELECT_CLASS_NAME}
+        title="Move to another term"
+      >
+        {!findTermChoice(describeTerm(item)) && <option>{describeTerm(item)}</option>}
+        {TERM_CHOICES.map(term => (
+          <option key={describeTerm(term)}>{describeTerm(term)}</option>
+        ))}
+      </select>
+      {item.course.isElective && electives.length > 0 && (
+        <select
+          value=""
+          onChange={(e) => submit({ action: "swap", courseId: item.courseId, replacementCourseId: e.target.value })}
+          disabled={saving}
+          className={SELECT_CLASS_NAME}
+          title="Take a different elective instead"
+        >
+          <option value="">Swap for...</option>
+          {electives.map(course => (
+            <option key={course.id} value={course.id}>{course.code}</option>
+          ))}
+        </select>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => submit({ action: "pin", courseId: item.courseId, pinned: !item.pinned })}
+        disabled={saving}
+        className="h-8 px-2 text-[12px] text-muted-foreground hover:text-black"
+        title={item.pinned ? "Let regenerating move this course" : "Keep this course in this term when regenerating"}
+      >
+        {item.pinned ? "Unpin" : "Pin"}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => submit({ action: "remove", courseId: item.courseId })}
+        disabled={saving}
+        className="h-8 px-2 text-[12px] text-muted-foreground hover:text-destructive"
+      >
+        Remove
+      </Button>
+    </div>
+  )
+}
+
+interface AddPlanCourseProps<T> {
+  planId: string
+  courses: EditableCourse[] // Program courses that aren't in the plan yet
+  onEdited: (result: PlanEditResult<T>) => void
+}
+
+// Add a course from the student's program to any upcoming term
+export function AddPlanCourse<T>({ planId, courses, onEdited }: AddPlanCourseProps<T>) {
+  const [courseId, setCourseId] = useState("")
+  const [termLabel, setTermLabel] = useState(describeTerm(TERM_CHOICES[0]))
+  const [saving, setSaving] = useState(false)
+
+  const handleAdd = async () => {
+    const term = findTermChoice(termLabel)
+    if (!courseId || !term) return
+
+    setSaving(true)
+    const result = await editPlan<T>(planId, { action: "add", courseId, ...term })
+    setSaving(false)
+    if (result) {
+      setCourseId("")
+      onEdited(result)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select value={courseId} onChange={(e) => setCourseId(e.target.value)} className={SELECT_CLASS_NAME}>
+        <option value="">Add a course...</option>
+        {courses.map(course => (
+          <option key={course.id} value={course.id}>{course.code} {course.name}</option>
+        ))}
+      </select>
+      <select value={termLabel} onChange={(e) => setTermLabel(e.target.value)} className={SELECT_CLASS_NAME}>
+        {TERM_CHOICES.map(term => (
+          <option key={describeTerm(term)}>{describeTerm(term)}</option>
+        ))}
+      </select>
+      <Button
+        size="sm"
+        onClick={handleAdd}
+        disabled={!courseId || saving}
+        className="h-8 rounded-full bg-black text-white hover:bg-black/90 text-[12px]"
+      >
+        Add
+      </Button>
+    </div>
+  )
+}
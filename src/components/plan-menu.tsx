@@ -0,0 +1,210 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+
+interface Plan {
+  id: string
+  name: string
+  isPrimary: boolean
+  archived: boolean
+}
+
+interface Revision {
+  id: string
+  number: number
+  note: string
+  createdAt: string
+  items: { courseId: string, course: { code: string, credits: number } }[]
+}
+
+interface PlanMenuProps {
+  plan: Plan
+  onChange: (selectPlanId?: string) => void
+}
+
+// Rename, duplicate, archive, delete or make a plan primary, and browse its
+// revisions to restore an earlier one
+export function PlanMenu({ plan, onChange }: PlanMenuProps) {
+  const [renaming, setRenaming] = useState(false)
+  const [name, setName] = useState(plan.name)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [revisions, setRevisions] = useState<Revision[]>([])
+
+  const request = async (url: string, method: string, body: object | undefined, success: string) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        toast.success(success)
+        return data
+      }
+      toast.error(data.error || "Failed to update plan")
+    } catch (error) {
+      console.error("Error updating plan:", error)
+      toast.error("An error occurred")
+    }
+    return null
+  }
+
+  const updatePlan = async (changes: Partial<Plan>, success: string) => {
+    if (await request(`/api/schedule/${plan.id}`, "POST", changes, success)) onChange(plan.id)
+  }
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault()
+    await updatePlan({ name }, "Plan renamed")
+    setRenaming(false)
+  }
+
+  const handleDuplicate = async () => {
+    const data = await request(`/api/schedule/${plan.id}/duplicate`, "POST", undefined, "Plan duplicated")
+    if (data) onChange(data.schedule.id)
+  }
+
+  const handleDelete = async () => {
+    if (await request(`/api/schedule/${plan.id}`, "DELETE", undefined, "Plan deleted")) onChange()
+  }
+
+  const openHistory = async () => {
+    setHistoryOpen(true)
+    try {
+      const response = await fetch(`/api/schedule/${plan.id}/revisions`)
+      if (!response.ok) throw new Error("Failed to fetch plan history")
+      const data = await response.json()
+      setRevisions(data.revisions)
+    } catch (error) {
+      console.error("Error fetching plan history:", error)
+      toast.error("Failed to load plan history")
+    }
+  }
+
+  const handleRestore = async (revision: Revision) => {
+    const data = await request(
+      `/api/schedule/${plan.id}/restore`,
+      "POST",
+      { revisionId: revision.id },
+      `Restored revision ${revision.number}`
+    )
+    if (data) {
+      setHistoryOpen(false)
+      onChange(plan.id)
+    }
+  }
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            className="bg-white text-black hover:bg-gray-50 hover:text-black border-black/20 px-6 h-10 text-[13px] rounded-full transition-all-smooth"
+          >
+            Manage Plan
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-48 bg-white border-black/10">
+          <DropdownMenuItem onClick={() => { setName(plan.name); setRenaming(true) }} className="text-black">
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleDuplicate} className="text-black">
+            Duplicate
+          </DropdownMenuItem>
+          {!plan.isPrimary && (
+            <DropdownMenuItem onClick={() => updatePlan({ isPrimary: true }, `${plan.name} is now your primary plan`)} className="text-black">
+              Make Primary
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={openHistory} className="text-black">
+            History
+          </DropdownMenuItem>
+          <DropdownMenuSeparator className="bg-black/10" />
+          <DropdownMenuItem
+            onClick={() => updatePlan({ archived: !plan.archived }, plan.archived ? "Plan restored" : "Plan archived")}
+            className="text-black"
+          >
+            {plan.archived ? "Unarchive" : "Archive"}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={handleDelete} className="text-destructive">
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={renaming} onOpenChange={setRenaming}>
+        <DialogContent className="bg-white border-black/10">
+          <DialogHeader>
+            <DialogTitle className="text-black">Rename plan</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleRename} className="flex gap-2">
+            <Input value={name} onChange={(e) => setName(e.target.value)} className="h-10" autoFocus />
+            <Button type="submit" disabled={!name.trim()} className="rounded-full bg-black text-white hover:bg-black/90">
+              Save
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={historyOpen} onOpenChange={setHistoryOpen}>
+        <DialogContent className="bg-white border-black/10">
+          <DialogHeader>
+            <DialogTitle className="text-black">{plan.name} history</DialogTitle>
+            <DialogDescription>
+              Every change to this plan is saved. Restoring a revision keeps the ones after it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {revisions.map((revision, index) => (
+              <div key={revision.id} className="flex justify-between items-center gap-3 py-2 border-b border-black/10 last:border-0">
+                <div>
+                  <div className="text-[14px] font-medium text-black">
+                    Revision {revision.number}: {revision.note}
+                  </div>
+                  <div className="text-[12px] text-muted-foreground">
+                    {new Date(revision.createdAt).toLocaleString()} • {revision.items.length} courses •{" "}
+                    {revision.items.reduce((sum, item) => sum + item.course.credits, 0)} credits
+                  </div>
+                </div>
+                {index === 0 ? (
+                  <span className="text-[12px] text-muted-foreground">Current</span>
+                ) : (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(revision)}
+                    className="rounded-full text-[12px] border-black/20 bg-white text-black hover:bg-gray-50 hover:text-black"
+                  >
+                    Restore
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,171 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { DEFAULT_PLANNING_PREFERENCES, PlanningPreferences } from "@/lib/planning-preferences"
+import { describeTerm, getUpcomingTerms } from "@/lib/terms"
+
+interface PlanningPreferencesCardProps {
+  onChange: () => void
+}
+
+const SELECT_CLASS_NAME = "h-9 rounded-md border border-input bg-background px-2 text-sm text-black focus:outline-none focus:ring-2 focus:ring-ring"
+
+// Credit load, start term, graduation target and terms off (co-op, study
+// abroad) that the schedule generator plans around
+export function PlanningPreferencesCard({ onChange }: PlanningPreferencesCardProps) {
+  const [preferences, setPreferences] = useState<PlanningPreferences>(DEFAULT_PLANNING_PREFERENCES)
+  const [saving, setSaving] = useState(false)
+
+  const termOptions = getUpcomingTerms(15).map(describeTerm)
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const response = await fetch("/api/user/preferences")
+        if (!response.ok) throw new Error("Failed to fetch planning preferences")
+        setPreferences(await response.json())
+      } catch (error) {
+        console.error("Error fetching planning preferences:", error)
+      }
+    }
+
+    fetchPreferences()
+  }, [])
+
+  const toggleBlockedTerm = (term: string) => {
+    const blockedTerms = preferences.blockedTerms.includes(term)
+      ? preferences.blockedTerms.filter(t => t !== term)
+      : [...preferences.blockedTerms, term]
+    setPreferences({ ...preferences, blockedTerms })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch("/api/user/preferences", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(preferences),
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        setPreferences(data)
+        onChange()
+      } else {
+        toast.error(data.error || "Failed to save preferences")
+      }
+    } catch (error) {
+      console.error("Error saving planning preferences:", error)
+      toast.error("An error occurred")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="border-black/10 bg-white mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl text-black">Planning Preferences</CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Set your course load and timeline, then regenerate your schedule
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={0}
+              value={preferences.minCredits}
+              onChange={(e) => setPreferences({ ...preferences, minCredits: Number(e.target.value) })}
+              className="w-20 h-9"
+            />
+            <span className="text-[13px] text-muted-foreground">to</span>
+            <Input
+              type="number"
+              min={1}
+              value={preferences.maxCredits}
+              onChange={(e) => setPreferences({ ...preferences, maxCredits: Number(e.target.value) })}
+              className="w-20 h-9"
+            />
+            <span className="text-[13px] text-muted-foreground">credits per Fall/Spring term</span>
+          </div>
+          <label className="flex items-center gap-2 text-[15px] text-black cursor-pointer">
+            <Checkbox
+              checked={preferences.fullTime}
+              onCheckedChange={(checked) => setPreferences({ ...preferences, fullTime: !!checked })}
+            />
+            Stay full-time
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-[13px] text-muted-foreground">
+            Start
+            <select
+              value={preferences.startTerm ?? ""}
+              onChange={(e) => setPreferences({ ...preferences, startTerm: e.target.value || null })}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">Next term</option>
+              {termOptions.map(term => (
+                <option key={term} value={term}>{term}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-[13px] text-muted-foreground">
+            Graduate by
+            <select
+              value={preferences.targetGraduationTerm ?? ""}
+              onChange={(e) => setPreferences({ ...preferences, targetGraduationTerm: e.target.value || null })}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">No target</option>
+              {termOptions.map(term => (
+                <option key={term} value={term}>{term}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-[13px] text-muted-foreground">Terms off (co-op, study abroad)</p>
+          <div className="flex flex-wrap gap-2">
+            {termOptions.map(term => (
+              <Button
+                key={term}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => toggleBlockedTerm(term)}
+                className={`rounded-full text-[12px] border-2 transition-all-smooth ${
+                  preferences.blockedTerms.includes(term)
+                    ? "bg-black text-white hover:bg-black/90 border-black hover:text-white"
+                    : "bg-white text-black border-black/20 hover:bg-gray-50 hover:text-black"
+                }`}
+              >
+                {term}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <Button
+          onClick={handleSave}
+          disabled={saving}
+          className="rounded-full bg-black text-white hover:bg-black/90"
+        >
+          {saving ? "Saving..." : "Save Preferences"}
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,114 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+
+interface Program {
+  id: string
+  code: string
+  name: string
+  type: string
+  catalogYear: { id: string; year: string; name: string; isCurrent: boolean }
+  _count: { courses: number }
+}
+
+interface ProgramPickerProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  currentProgramId: string | null
+  onProgramChange: () => void
+}
+
+// Lets the student choose the program (BS CS, BS IT, ...) that decides their
+// required courses and elective rules. Shown right after signup until one is picked.
+// Each program belongs to a catalog year, so picking one also pins the student to it.
+export function ProgramPicker({ open, onOpenChange, currentProgramId, onProgramChange }: ProgramPickerProps) {
+  const [programs, setPrograms] = useState<Program[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open || programs.length > 0) return
+
+    fetch("/api/programs")
+      .then(res => res.ok ? res.json() : Promise.reject(new Error("Failed to fetch programs")))
+      .then(setPrograms)
+      .catch(error => {
+        console.error("Error fetching programs:", error)
+        toast.error("Failed to load programs")
+      })
+  }, [open, programs.length])
+
+  const selectProgram = async (program: Program) => {
+    setSaving(true)
+    try {
+      const response = await fetch("/api/user/profile", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ programId: program.id }),
+      })
+
+      if (response.ok) {
+        toast.success(`Program set to ${program.name}`)
+        onOpenChange(false)
+        onProgramChange()
+      } else {
+        toast.error("Failed to update program")
+      }
+    } catch (error) {
+      console.error("Error updating program:", error)
+      toast.error("An error occurred")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Until a program is picked the dialog can't be dismissed
+  const handleOpenChange = (next: boolean) => {
+    if (!next && !currentProgramId) return
+    onOpenChange(next)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="bg-white border-black/10">
+        <DialogHeader>
+          <DialogTitle className="text-black">Choose your program</DialogTitle>
+          <DialogDescription>
+            Your program and catalog year decide which courses are required and which elective rules apply.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {programs.map(program => (
+            <Button
+              key={program.id}
+              variant="outline"
+              disabled={saving}
+              onClick={() => selectProgram(program)}
+              className={`w-full h-auto justify-between py-3 border-2 transition-all-smooth ${
+                program.id === currentProgramId
+                  ? "bg-black text-white hover:bg-black/90 border-black hover:text-white"
+                  : "bg-white text-black border-black/20 hover:bg-gray-50 hover:text-black"
+              }`}
+            >
+              <span className="flex flex-col items-start">
+                <span className="font-medium">{program.name}</span>
+                <span className="text-[12px] opacity-70">{program.catalogYear.name}</span>
+              </span>
+              <span className="text-[12px] opacity-70">{program._count.courses} required courses</span>
+            </Button>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
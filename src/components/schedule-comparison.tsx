@@ -0,0 +1,95 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { compareTerms, describeTerm, Term } from "@/lib/terms"
+import { DEFAULT_WORKLOAD, sumWorkload } from "@/lib/workload"
+
+interface ComparedSchedule {
+  id: string
+  name: string
+  items: (Term & { courseId: string, course: { credits: number } })[]
+}
+
+interface ScheduleComparisonProps {
+  schedules: ComparedSchedule[]
+  getWorkload: (courseId: string) => number
+  selectedIndex: number
+  onSelect: (index: number) => void
+}
+
+// Terms, credits per term, heaviest term and graduation term for a schedule
+export function summarizeSchedule(schedule: ComparedSchedule, getWorkload: (courseId: string) => number = () => DEFAULT_WORKLOAD) {
+  const creditsByTerm = new Map<string, number>()
+  const workloadByTerm = new Map<string, number>()
+  for (const item of schedule.items) {
+    const key = describeTerm(item)
+    creditsByTerm.set(key, (creditsByTerm.get(key) ?? 0) + item.course.credits)
+    workloadByTerm.set(key, sumWorkload([workloadByTerm.get(key) ?? 0, getWorkload(item.courseId)]))
+  }
+
+  const credits = [...creditsByTerm.values()]
+  const lastItem = [...schedule.items].sort(compareTerms).pop()
+
+  return {
+    terms: creditsByTerm.size,
+    minCredits: credits.length > 0 ? Math.min(...credits) : 0,
+    maxCredits: credits.length > 0 ? Math.max(...credits) : 0,
+    averageCredits: credits.length > 0 ? credits.reduce((sum, c) => sum + c, 0) / credits.length : 0,
+    maxWorkload: Math.max(0, ...workloadByTerm.values()),
+    graduation: lastItem ? describeTerm({ semester: lastItem.semester, year: lastItem.year }) : null,
+  }
+}
+
+// Side-by-side numbers for each generated strategy; clicking a row opens it
+export function ScheduleComparison({ schedules, getWorkload, selectedIndex, onSelect }: ScheduleComparisonProps) {
+  return (
+    <Card className="border-black/10 bg-white mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl text-black">Compare Strategies</CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Terms, credits per term, hardest term and graduation date for each plan
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-[14px]">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-black/10">
+              <th className="py-2 font-medium">Strategy</th>
+              <th className="py-2 font-medium">Terms</th>
+              <th className="py-2 font-medium">Credits per Term</th>
+              <th className="py-2 font-medium">Average</th>
+              <th className="py-2 font-medium">Hardest Term</th>
+              <th className="py-2 font-medium">Graduation</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedules.map((schedule, index) => {
+              const summary = summarizeSchedule(schedule, getWorkload)
+
+              return (
+                <tr
+                  key={schedule.id}
+                  onClick={() => onSelect(index)}
+                  className={`border-b border-black/5 last:border-0 cursor-pointer transition-all-smooth ${
+                    selectedIndex === index ? "bg-gray-50 font-semibold" : "hover:bg-gray-50"
+                  }`}
+                >
+                  <td className="py-2 text-black">{schedule.name}</td>
+                  <td className="py-2 text-black">{summary.terms}</td>
+                  <td className="py-2 text-black">
+                    {summary.minCredits === summary.maxCredits
+                      ? summary.maxCredits
+                      : `${summary.minCredits}–${summary.maxCredits}`}
+                  </td>
+                  <td className="py-2 text-black">{summary.averageCredits.toFixed(1)}</td>
+                  <td className="py-2 text-black">{summary.maxWorkload}</td>
+                  <td className="py-2 text-black">{summary.graduation ?? "—"}</td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,163 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { DEFAULT_SUMMER_CREDITS, getUpcomingTerms, SUMMER_SESSIONS } from "@/lib/terms"
+
+interface SummerTerm {
+  id: string
+  year: number
+  maxCredits: number
+  sessions: string[]
+}
+
+interface SummerTermsCardProps {
+  onChange: () => void
+}
+
+// Summers are left out of generated plans unless the student turns them on
+// here, with a credit cap and the sessions (Summer A, B, C) they'd take
+export function SummerTermsCard({ onChange }: SummerTermsCardProps) {
+  const [summerTerms, setSummerTerms] = useState<SummerTerm[]>([])
+
+  const summerYears = getUpcomingTerms(12)
+    .filter(term => term.semester === "Summer")
+    .map(term => term.year)
+
+  const fetchSummerTerms = async () => {
+    try {
+      const response = await fetch("/api/user/summers")
+      if (!response.ok) throw new Error("Failed to fetch summer terms")
+      const data = await response.json()
+      setSummerTerms(Array.isArray(data) ? data : [])
+    } catch (error) {
+      console.error("Error fetching summer terms:", error)
+      setSummerTerms([])
+    }
+  }
+
+  useEffect(() => {
+    fetchSummerTerms()
+  }, [])
+
+  const saveSummer = async (year: number, maxCredits: number, sessions: string[]) => {
+    try {
+      const response = await fetch("/api/user/summers", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ year, maxCredits, sessions }),
+      })
+
+      if (response.ok) {
+        fetchSummerTerms()
+        onChange()
+      } else {
+        const data = await response.json()
+        toast.error(data.error || "Failed to update summer")
+      }
+    } catch (error) {
+      console.error("Error updating summer:", error)
+      toast.error("An error occurred")
+    }
+  }
+
+  const removeSummer = async (year: number) => {
+    try {
+      const response = await fetch("/api/user/summers", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ year }),
+      })
+
+      if (response.ok) {
+        fetchSummerTerms()
+        onChange()
+      } else {
+        toast.error("Failed to update summer")
+      }
+    } catch (error) {
+      console.error("Error updating summer:", error)
+      toast.error("An error occurred")
+    }
+  }
+
+  const toggleSession = (summer: SummerTerm, session: string) => {
+    const sessions = summer.sessions.includes(session)
+      ? summer.sessions.filter(s => s !== session)
+      : [...summer.sessions, session]
+    saveSummer(summer.year, summer.maxCredits, sessions)
+  }
+
+  return (
+    <Card className="border-black/10 bg-white mb-6">
+      <CardHeader>
+        <CardTitle className="text-xl text-black">Summer Terms</CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Turn on the summers you plan to take classes in, then regenerate your schedule
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {summerYears.map(year => {
+          const summer = summerTerms.find(s => s.year === year)
+
+          return (
+            <div key={year} className="flex flex-wrap items-center gap-4 pb-3 border-b border-black/10 last:border-0">
+              <label className="flex items-center gap-2 w-36 text-[15px] text-black cursor-pointer">
+                <Checkbox
+                  checked={!!summer}
+                  onCheckedChange={(checked) =>
+                    checked ? saveSummer(year, DEFAULT_SUMMER_CREDITS, ["A", "B"]) : removeSummer(year)
+                  }
+                />
+                Summer {year}
+              </label>
+              {summer && (
+                <>
+                  <div className="flex gap-2">
+                    {Object.entries(SUMMER_SESSIONS).map(([session, label]) => (
+                      <Button
+                        key={session}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => toggleSession(summer, session)}
+                        className={`rounded-full text-[12px] border-2 transition-all-smooth ${
+                          summer.sessions.includes(session)
+                            ? "bg-black text-white hover:bg-black/90 border-black hover:text-white"
+                            : "bg-white text-black border-black/20 hover:bg-gray-50 hover:text-black"
+                        }`}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      defaultValue={summer.maxCredits}
+                      onBlur={(e) => {
+                        const maxCredits = Number(e.target.value)
+                        if (maxCredits !== summer.maxCredits) saveSummer(year, maxCredits, summer.sessions)
+                      }}
+                      className="w-20 h-9"
+                    />
+                    <span className="text-[13px] text-muted-foreground">credits max</span>
+                  </div>
+                </>
+              )}
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
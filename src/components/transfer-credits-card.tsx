@@ -0,0 +1,233 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { describeTransferCredit, TRANSFER_SOURCES } from "@/lib/transfer-credits"
+
+interface CatalogCourse {
+  id: string
+  code: string
+  name: string
+  credits: number
+}
+
+interface TransferCredit {
+  id: string
+  source: string
+  institution: string | null
+  examName: string | null
+  score: string | null
+  courseId: string | null
+  credits: number
+  course: CatalogCourse | null
+}
+
+interface TransferCreditsCardProps {
+  courses: CatalogCourse[]
+  onChange: () => void
+}
+
+const EMPTY_FORM = { source: "transfer", institution: "", examName: "", score: "", courseId: "", credits: "" }
+
+// Record transfer coursework, AP/IB exams and dual enrollment. Credit with an
+// equivalent course completes it; credit without one is unassigned elective hours.
+export function TransferCreditsCard({ courses, onChange }: TransferCreditsCardProps) {
+  const [transferCredits, setTransferCredits] = useState<TransferCredit[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [saving, setSaving] = useState(false)
+
+  const fetchTransferCredits = async () => {
+    try {
+      const response = await fetch("/api/user/transfer-credits")
+      if (!response.ok) throw new Error("Failed to fetch transfer credits")
+      const data = await response.json()
+      setTransferCredits(Array.isArray(data) ? data : [])
+    } catch (error) {
+      console.error("Error fetching transfer credits:", error)
+      setTransferCredits([])
+    }
+  }
+
+  useEffect(() => {
+    fetchTransferCredits()
+  }, [])
+
+  const isExam = form.source === "ap" || form.source === "ib"
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      const response = await fetch("/api/user/transfer-credits", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          source: form.source,
+          institution: isExam ? null : form.institution,
+          examName: isExam ? form.examName : null,
+          score: form.score,
+          courseId: form.courseId || null,
+          credits: form.credits ? Number(form.credits) : undefined,
+        }),
+      })
+
+      if (response.ok) {
+        toast.success("Transfer credit added")
+        setForm(EMPTY_FORM)
+        fetchTransferCredits()
+        onChange()
+      } else {
+        const data = await response.json()
+        toast.error(data.error || "Failed to add transfer credit")
+      }
+    } catch (error) {
+      console.error("Error adding transfer credit:", error)
+      toast.error("An error occurred")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRemove = async (id: string) => {
+    try {
+      const response = await fetch("/api/user/transfer-credits", {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ id }),
+      })
+
+      if (response.ok) {
+        toast.success("Transfer credit removed")
+        fetchTransferCredits()
+        onChange()
+      } else {
+        toast.error("Failed to remove transfer credit")
+      }
+    } catch (error) {
+      console.error("Error removing transfer credit:", error)
+      toast.error("An error occurred")
+    }
+  }
+
+  const totalTransferCredits = transferCredits.reduce((sum, tc) => sum + tc.credits, 0)
+
+  return (
+    <Card className="border-black/10 bg-white mt-8">
+      <CardHeader>
+        <CardTitle className="text-xl text-black">Transfer &amp; Exam Credit</CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Transfer coursework, AP/IB exams and dual enrollment ({totalTransferCredits} credits)
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {transferCredits.length > 0 ? (
+          <div className="space-y-2">
+            {transferCredits.map(tc => (
+              <div key={tc.id} className="flex justify-between items-center gap-4 pb-2 border-b border-black/10 last:border-0">
+                <div>
+                  <p className="text-[15px] text-black">
+                    {describeTransferCredit(tc)}
+                    <Badge variant="outline" className="ml-2 rounded-full text-[11px] border-black/20 text-black">
+                      {TRANSFER_SOURCES[tc.source] ?? tc.source}
+                    </Badge>
+                  </p>
+                  <p className="text-[13px] text-muted-foreground">
+                    {tc.course ? `Counts as ${tc.course.code} - ${tc.course.name}` : "Unassigned elective credit"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary" className="bg-white text-black">{tc.credits} credits</Badge>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRemove(tc.id)}
+                    className="rounded-full text-[12px] border-black/20 bg-white text-black hover:bg-gray-50 hover:text-black"
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-[13px] text-muted-foreground">No transfer or exam credit recorded</p>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-3 pt-4 border-t border-black/10">
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(TRANSFER_SOURCES).map(([source, label]) => (
+              <Button
+                key={source}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ ...form, source })}
+                className={`rounded-full text-[12px] border-2 transition-all-smooth ${
+                  form.source === source
+                    ? "bg-black text-white hover:bg-black/90 border-black hover:text-white"
+                    : "bg-white text-black border-black/20 hover:bg-gray-50 hover:text-black"
+                }`}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            {isExam ? (
+              <Input
+                placeholder="Exam, e.g. AP Computer Science A"
+                value={form.examName}
+                onChange={(e) => setForm({ ...form, examName: e.target.value })}
+                required
+              />
+            ) : (
+              <Input
+                placeholder="Institution, e.g. Valencia College"
+                value={form.institution}
+                onChange={(e) => setForm({ ...form, institution: e.target.value })}
+                required
+              />
+            )}
+            <Input
+              placeholder={isExam ? "Score" : "Grade"}
+              value={form.score}
+              onChange={(e) => setForm({ ...form, score: e.target.value })}
+            />
+            <select
+              value={form.courseId}
+              onChange={(e) => setForm({ ...form, courseId: e.target.value })}
+              className="h-10 rounded-md border border-input bg-background px-3 text-sm text-black focus:outline-none focus:ring-2 focus:ring-ring"
+              title="UCF equivalent course"
+            >
+              <option value="">Unassigned elective credit</option>
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>
+                  {course.code} - {course.name}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="number"
+              min={1}
+              placeholder={form.courseId ? "Credits (default: course)" : "Credits"}
+              value={form.credits}
+              onChange={(e) => setForm({ ...form, credits: e.target.value })}
+              required={!form.courseId}
+            />
+          </div>
+          <Button type="submit" disabled={saving} className="bg-black hover:bg-black/90 text-white transition-all-smooth">
+            Add Credit
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
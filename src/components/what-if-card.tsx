@@ -0,0 +1,266 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { toast } from "sonner"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { formatGpa } from "@/lib/grades"
+import { describeTerm, getUpcomingTerms } from "@/lib/terms"
+import type { WhatIfComparison, WhatIfOutcome } from "@/lib/what-if"
+
+interface CatalogCourse {
+  id: string
+  code: string
+  name: string
+  isElective: boolean
+}
+
+interface Program {
+  id: string
+  name: string
+  catalogYear: { name: string }
+}
+
+interface WhatIfCardProps {
+  courses: CatalogCourse[]
+  takenCourseIds: string[] // Completed or enrolled, so they can be failed
+  electiveIds: string[] // The saved picks
+  currentProgramId: string | null
+}
+
+const EMPTY_SCENARIO = { programId: "", swapFromId: "", swapToId: "", failedCourseId: "", skippedTerm: "" }
+
+const SELECT_CLASS_NAME = "h-9 w-full rounded-md border border-input bg-background px-3 text-sm text-black focus:outline-none focus:ring-2 focus:ring-ring"
+
+// Terms a scenario can skip: the next two years, as the scheduler plans them
+const SKIPPABLE_TERMS = 6
+
+const ROWS: { label: string, value: (outcome: WhatIfOutcome) => string }[] = [
+  { label: "Program", value: outcome => outcome.programName ?? "No program" },
+  { label: "Credits earned", value: outcome => `${outcome.completedCredits} of ${outcome.requiredCredits}` },
+  { label: "Credits still needed", value: outcome => String(outcome.creditsNeeded) },
+  { label: "Credits planned", value: outcome => `${outcome.plannedCredits} (${outcome.plannedCourses.length} courses)` },
+  { label: "Terms left", value: outcome => String(outcome.terms) },
+  { label: "Graduation", value: outcome => outcome.graduationTerm ?? "Nothing left to plan" },
+  { label: "GPA", value: outcome => formatGpa(outcome.gpa) },
+  { label: "Couldn't schedule", value: outcome => outcome.unscheduled.map(u => u.code).join(", ") || "None" },
+]
+
+// Try a change (another program, a different elective, a failed course, a
+// skipped term) and see how it moves graduation, without saving anything
+export function WhatIfCard({ courses, takenCourseIds, electiveIds, currentProgramId }: WhatIfCardProps) {
+  const [programs, setPrograms] = useState<Program[]>([])
+  const [scenario, setScenario] = useState(EMPTY_SCENARIO)
+  const [comparison, setComparison] = useState<WhatIfComparison | null>(null)
+  const [running, setRunning] = useState(false)
+
+  useEffect(() => {
+    const fetchPrograms = async () => {
+      try {
+        const response = await fetch("/api/programs")
+        if (!response.ok) throw new Error("Failed to fetch programs")
+        const data = await response.json()
+        setPrograms(Array.isArray(data) ? data : [])
+      } catch (error) {
+        console.error("Error fetching programs:", error)
+        setPrograms([])
+      }
+    }
+    fetchPrograms()
+  }, [])
+
+  const codeOf = (id: string) => courses.find(c => c.id === id)?.code ?? id
+  const picks = electiveIds.filter(id => courses.some(c => c.id === id))
+  const otherElectives = courses.filter(c => c.isElective && !electiveIds.includes(c.id))
+  const takenCourses = courses.filter(c => takenCourseIds.includes(c.id))
+
+  const handleCompare = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setRunning(true)
+    try {
+      const response = await fetch("/api/schedule/what-if", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          programId: scenario.programId || undefined,
+          electiveSwaps: scenario.swapFromId && scenario.swapToId
+            ? [{ fromId: scenario.swapFromId, toId: scenario.swapToId }]
+            : undefined,
+          failedCourseIds: scenario.failedCourseId ? [scenario.failedCourseId] : undefined,
+          skippedTerms: scenario.skippedTerm ? [scenario.skippedTerm] : undefined,
+        }),
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        setComparison(data)
+      } else {
+        toast.error(data.error || "Failed to run scenario")
+      }
+    } catch (error) {
+      console.error("Error running what-if scenario:", error)
+      toast.error("An error occurred")
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  return (
+    <Card className="border-black/10 bg-white mt-8">
+      <CardHeader>
+        <CardTitle className="text-xl text-black">What If...</CardTitle>
+        <CardDescription className="text-muted-foreground">
+          Try a change and compare graduation with your current record. Nothing is saved.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCompare} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="space-y-1 text-[13px] text-muted-foreground">
+            <span>Switch program</span>
+            <select
+              value={scenario.programId}
+              onChange={(e) => setScenario({ ...scenario, programId: e.target.value })}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">Keep my program</option>
+              {programs.filter(program => program.id !== currentProgramId).map(program => (
+                <option key={program.id} value={program.id}>
+                  {program.name} ({program.catalogYear.name})
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1 text-[13px] text-muted-foreground">
+            <span>Fail a course</span>
+            <select
+              value={scenario.failedCourseId}
+              onChange={(e) => setScenario({ ...scenario, failedCourseId: e.target.value })}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">None</option>
+              {takenCourses.map(course => (
+                <option key={course.id} value={course.id}>{course.code} - {course.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="space-y-1 text-[13px] text-muted-foreground">
+            <span>Swap an elective</span>
+            <div className="flex gap-2">
+              <select
+                value={scenario.swapFromId}
+                onChange={(e) => setScenario({ ...scenario, swapFromId: e.target.value })}
+                className={SELECT_CLASS_NAME}
+                disabled={picks.length === 0}
+                aria-label="Elective to swap out"
+              >
+                <option value="">{picks.length === 0 ? "No electives picked" : "Swap out..."}</option>
+                {picks.map(id => (
+                  <option key={id} value={id}>{codeOf(id)}</option>
+                ))}
+              </select>
+              <select
+                value={scenario.swapToId}
+                onChange={(e) => setScenario({ ...scenario, swapToId: e.target.value })}
+                className={SELECT_CLASS_NAME}
+                disabled={!scenario.swapFromId}
+                aria-label="Elective to take instead"
+              >
+                <option value="">For...</option>
+                {otherElectives.map(course => (
+                  <option key={course.id} value={course.id}>{course.code}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <label className="space-y-1 text-[13px] text-muted-foreground">
+            <span>Skip a term</span>
+            <select
+              value={scenario.skippedTerm}
+              onChange={(e) => setScenario({ ...scenario, skippedTerm: e.target.value })}
+              className={SELECT_CLASS_NAME}
+            >
+              <option value="">None</option>
+              {getUpcomingTerms(SKIPPABLE_TERMS).map(term => (
+                <option key={describeTerm(term)} value={describeTerm(term)}>{describeTerm(term)}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="md:col-span-2 flex gap-2">
+            <Button type="submit" disabled={running} className="bg-black text-white hover:bg-black/90">
+              {running ? "Comparing..." : "Compare"}
+            </Button>
+            {comparison && (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => { setScenario(EMPTY_SCENARIO); setComparison(null) }}
+                className="border-black/20 text-black hover:bg-gray-50"
+              >
+                Reset
+              </Button>
+            )}
+          </div>
+        </form>
+
+        {comparison && (
+          <div className="space-y-4">
+            <table className="w-full text-[14px]">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-black/10">
+                  <th className="py-2 font-medium"></th>
+                  <th className="py-2 font-medium">Current</th>
+                  <th className="py-2 font-medium">What If</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ROWS.map(row => {
+                  const current = row.value(comparison.current)
+                  const changed = row.value(comparison.scenario)
+                  return (
+                    <tr key={row.label} className="border-b border-black/5 last:border-0">
+                      <td className="py-2 text-muted-foreground">{row.label}</td>
+                      <td className="py-2 text-black">{current}</td>
+                      <td className={`py-2 ${changed !== current ? "text-black font-medium" : "text-black/60"}`}>{changed}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+
+            <p className="text-[13px] text-muted-foreground">
+              Both sides are planned as {comparison.strategy}, around the courses pinned in your primary plan.
+            </p>
+
+            {(comparison.added.length > 0 || comparison.dropped.length > 0) && (
+              <div className="space-y-2 text-[13px] text-muted-foreground">
+                {comparison.added.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="mr-1">Adds</span>
+                    {comparison.added.map(code => (
+                      <Badge key={code} variant="outline" className="text-[11px] border-black/20 text-black">{code}</Badge>
+                    ))}
+                  </div>
+                )}
+                {comparison.dropped.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1">
+                    <span className="mr-1">Drops</span>
+                    {comparison.dropped.map(code => (
+                      <Badge key={code} variant="outline" className="text-[11px] border-black/20 text-black/60">{code}</Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
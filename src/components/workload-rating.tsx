@@ -0,0 +1,72 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "sonner"
+import { MAX_WORKLOAD, MIN_WORKLOAD } from "@/lib/workload"
+
+interface WorkloadRatingProps {
+  courseId: string
+  score: number // What the scheduler counts the course as
+  rating: number | null // The student's own report
+  canRate: boolean // Only students who took the course can report
+  onChange: () => void
+}
+
+const SELECT_CLASS_NAME = "h-9 rounded-md border border-input bg-background px-3 text-sm text-black focus:outline-none focus:ring-2 focus:ring-ring"
+
+const RATINGS = Array.from({ length: MAX_WORKLOAD - MIN_WORKLOAD + 1 }, (_, i) => MIN_WORKLOAD + i)
+
+// A course's workload score, and how heavy the student found it once they've taken it
+export function WorkloadRating({ courseId, score, rating, canRate, onChange }: WorkloadRatingProps) {
+  const [saving, setSaving] = useState(false)
+
+  const saveRating = async (value: number | null) => {
+    setSaving(true)
+    try {
+      const response = await fetch("/api/courses/workload", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ courseId, rating: value }),
+      })
+
+      if (response.ok) {
+        toast.success(value === null ? "Rating removed" : "Thanks for rating this course")
+        onChange()
+      } else {
+        const data = await response.json()
+        toast.error(data.error || "Failed to save rating")
+      }
+    } catch (error) {
+      console.error("Error saving workload rating:", error)
+      toast.error("An error occurred")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-2 mt-3">
+      <span className="text-[13px] text-muted-foreground">
+        Workload {score} of {MAX_WORKLOAD}
+      </span>
+      {canRate && (
+        <select
+          value={rating ?? ""}
+          onChange={(e) => saveRating(e.target.value ? Number(e.target.value) : null)}
+          disabled={saving}
+          className={SELECT_CLASS_NAME}
+          title="How heavy was this course?"
+        >
+          <option value="">Rate it...</option>
+          {RATINGS.map(value => (
+            <option key={value} value={value}>
+              {value}{value === MIN_WORKLOAD ? " (light)" : value === MAX_WORKLOAD ? " (heaviest)" : ""}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
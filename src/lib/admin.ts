@@ -0,0 +1,12 @@
+// Admins are configured by email in ADMIN_EMAILS (comma separated) rather
+// than stored on the user, so granting access doesn't need a database change
+export function isAdminEmail(email: string | null | undefined): boolean {
+  if (!email) return false
+
+  const adminEmails = (process.env.ADMIN_EMAILS || "")
+    .split(",")
+    .map(adminEmail => adminEmail.trim().toLowerCase())
+    .filter(Boolean)
+
+  return adminEmails.includes(email.toLowerCase())
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+import { AuditCatalogCourse, AuditInput, AuditRule, findAuditRule, runDegreeAudit } from "@/lib/audit"
+
+function course(code: string, options: Partial<AuditCatalogCourse> = {}): AuditCatalogCourse {
+  return { id: code, code, name: code, credits: 3, isElective: false, electiveLevel: null, waivedById: null, ...options }
+}
+
+function rule(type: string, options: Partial<AuditRule> = {}): AuditRule {
+  return {
+    code: type,
+    name: type,
+    description: null,
+    type,
+    minCredits: null,
+    minCourses: null,
+    minLevel: null,
+    prefixes: [],
+    minGrade: null,
+    ...options,
+  }
+}
+
+// `grades` are the completed courses
+function audit(courses: AuditCatalogCourse[], grades: Record<string, string | null>, overrides: Partial<AuditInput> = {}) {
+  return runDegreeAudit({
+    rules: [rule("total_credits", { minCredits: 120 }), rule("required_courses"), rule("minimum_grade")],
+    electiveRules: [],
+    student: { programId: null, bsToMs: false },
+    courses,
+    courseGroups: [],
+    requiredCourseIds: null,
+    completedCourseIds: new Set(Object.keys(grades)),
+    grades: new Map(Object.entries(grades)),
+    gpaAttempts: Object.entries(grades).map(([courseId, grade]) => ({ courseId, grade })),
+    transferCourseIds: new Set(),
+    unassignedTransferCredits: 0,
+    satisfiedRequirementIds: new Set(),
+    ...overrides,
+  })
+}
+
+describe("runDegreeAudit", () => {
+  it("applies passed required courses and lists the rest", () => {
+    const result = audit([course("COP3502C"), course("COP3503C")], { COP3502C: "A" })
+    const required = findAuditRule(result, "required_courses")!
+
+    expect(required).toMatchObject({ status: "in_progress", earned: 1, required: 2 })
+    expect(required.remainingCourses.map(c => c.code)).toEqual(["COP3503C"])
+  })
+
+  it("counts a below-minimum course toward credits but not toward its requirement", () => {
+    const result = audit([course("COP3502C")], { COP3502C: "D" })
+
+    expect(result.totalCredits).toBe(3)
+    expect(findAuditRule(result, "required_courses")!.status).toBe("missing")
+    expect(findAuditRule(result, "minimum_grade")).toMatchObject({ status: "violated", violations: ["COP3502C: D (needs C or better)"] })
+  })
+
+  it("fills a choose-one group with whichever member was passed", () => {
+    const courses = [course("ENC3241"), course("ENC3250"), course("COP3502C")]
+    const courseGroups = [{ choose: 1, courseIds: ["ENC3241", "ENC3250"], chosenIds: [] }]
+    const result = audit(courses, { ENC3250: "B", COP3502C: "A" }, { courseGroups })
+
+    expect(findAuditRule(result, "required_courses")).toMatchObject({ status: "satisfied", earned: 2, required: 2 })
+  })
+
+  it("meets a required course waived by a satisfied requirement", () => {
+    const result = audit([course("COP2500C", { waivedById: "placement" })], {}, { satisfiedRequirementIds: new Set(["placement"]) })
+
+    expect(findAuditRule(result, "required_courses")!.status).toBe("satisfied")
+  })
+
+  it("leaves an F out of credits but in the GPA", () => {
+    const result = audit([course("COP3502C"), course("COP3503C", { credits: 1 })], { COP3502C: "F", COP3503C: "A" })
+
+    expect(result.totalCredits).toBe(1)
+    expect(result.gpa).toBe(1)
+  })
+})
@@ -0,0 +1,398 @@
+import type { PrismaClient } from "@prisma/client"
+import { ElectiveRule, filterAllowedElectives, getSubstitutions, StudentProfile } from "@/lib/elective-rules"
+import { getProgramScope, ProgramStudent } from "@/lib/programs"
+import { getTransferCourseIds, getUnassignedTransferCredits, TransferCreditRecord } from "@/lib/transfer-credits"
+import { calculateGpa, DEFAULT_MIN_GRADE, earnsCredit, meetsMinimumGrade } from "@/lib/grades"
+import { CourseAttempt, getEffectiveAttempts, getGpaAttempts } from "@/lib/course-attempts"
+import { loadSatisfiedRequirementIds } from "@/lib/requirements"
+import type { SchedulerCourseGroup } from "@/lib/scheduler"
+import { loadCourseGroups } from "@/lib/scheduling-context"
+
+// Degree audit: evaluates a student's completed courses against the
+// DegreeRule rows seeded from program_requirements. Each rule reports how
+// much of it is met and which courses were applied to it.
+
+export type AuditStatus = "satisfied" | "in_progress" | "missing" | "violated"
+
+export interface AuditCourse {
+  id: string
+  code: string
+  name: string
+  credits: number
+}
+
+export interface AuditRuleResult {
+  code: string
+  name: string
+  description: string | null
+  type: string
+  status: AuditStatus
+  unit: "credits" | "courses"
+  required: number
+  earned: number
+  appliedCourses: AuditCourse[]
+  remainingCourses: AuditCourse[]
+  violations: string[]
+}
+
+export interface DegreeAudit {
+  rules: AuditRuleResult[]
+  totalCredits: number
+  transferCredits: number // Part of totalCredits that came from transfer, AP/IB or dual enrollment
+  requiredCredits: number
+  gpa: number | null
+  majorGpa: number | null // Required courses and electives only
+  complete: boolean
+}
+
+export interface AuditRule {
+  code: string
+  name: string
+  description: string | null
+  type: string
+  minCredits: number | null
+  minCourses: number | null
+  minLevel: number | null
+  prefixes: string[]
+  minGrade: string | null
+}
+
+export interface AuditCatalogCourse extends AuditCourse {
+  isElective: boolean
+  electiveLevel: string | null
+  waivedById: string | null
+}
+
+export interface AuditInput {
+  rules: AuditRule[]
+  electiveRules: ElectiveRule[]
+  student: StudentProfile
+  courses: AuditCatalogCourse[]
+  // Courses that stand in for each other, with the members the student picked
+  courseGroups: Pick<SchedulerCourseGroup, "choose" | "courseIds" | "chosenIds">[]
+  // The program's required courses; null falls back to every non-elective course
+  requiredCourseIds: Set<string> | null
+  // Includes courses covered by transfer, AP/IB or dual-enrollment credit
+  completedCourseIds: Set<string>
+  // Grade each completion was recorded with; missing or null means ungraded
+  grades: Map<string, string | null>
+  // Graded attempts that count toward the GPA, after grade forgiveness
+  gpaAttempts: { courseId: string; grade: string | null }[]
+  transferCourseIds: Set<string>
+  unassignedTransferCredits: number
+  satisfiedRequirementIds: Set<string>
+}
+
+type RuleProgress = Pick<AuditRuleResult, "unit" | "required" | "earned" | "appliedCourses" | "remainingCourses">
+  & Partial<Pick<AuditRuleResult, "status" | "violations">>
+
+// Shared by every rule: how each required slot was filled and which
+// completed electives count once restrictions and substitutions apply
+interface AuditContext {
+  input: AuditInput
+  completed: AuditCatalogCourse[]
+  minGrade: string
+  // Completed major courses below the minimum grade; they earn hours but fill no requirement
+  belowMinimum: AuditCatalogCourse[]
+  requiredSlots: { courses: AuditCatalogCourse[], applied: AuditCatalogCourse[], met: boolean }[]
+  countedElectives: AuditCatalogCourse[]
+  rejectedElectives: { course: AuditCatalogCourse, reason: string }[]
+}
+
+// "COP3502C" -> { prefix: "COP", number: 3502 }; placeholders like "ENC4XXX" don't parse
+export function parseCourseCode(code: string): { prefix: string; number: number } | null {
+  const match = code.match(/^([A-Z]{3})(\d{4})/)
+  if (!match) return null
+  return { prefix: match[1], number: Number(match[2]) }
+}
+
+function toAuditCourse({ id, code, name, credits }: AuditCourse): AuditCourse {
+  return { id, code, name, credits }
+}
+
+function getStatus(earned: number, required: number): AuditStatus {
+  if (earned >= required) return "satisfied"
+  return earned > 0 ? "in_progress" : "missing"
+}
+
+function isRequired(course: AuditCatalogCourse, input: AuditInput): boolean {
+  return input.requiredCourseIds ? input.requiredCourseIds.has(course.id) : !course.isElective
+}
+
+// Required courses grouped into slots. A course group with a required member
+// (one of ENC3241 or ENC3250) fills `choose` slots from its members, the
+// student's picks first; every other required course fills one on its own.
+function getRequiredSlots(input: AuditInput): AuditCatalogCourse[][] {
+  const required = input.courses.filter(c => isRequired(c, input))
+  const assigned = new Set<string>()
+  const slots: AuditCatalogCourse[][] = []
+
+  for (const course of required) {
+    if (assigned.has(course.id)) continue
+
+    const group = input.courseGroups.find(g => g.courseIds.includes(course.id))
+    if (!group) {
+      assigned.add(course.id)
+      slots.push([course])
+      continue
+    }
+
+    const isPicked = (c: AuditCatalogCourse) => group.chosenIds.includes(c.id) ? 0 : 1
+    const members = input.courses.filter(c => group.courseIds.includes(c.id)).sort((a, b) => isPicked(a) - isPicked(b))
+    members.forEach(c => assigned.add(c.id))
+    // Each slot leads with a different member, so the ones still missing differ
+    for (let i = 0; i < Math.min(group.choose, members.length); i++) {
+      slots.push([...members.slice(i), ...members.slice(0, i)])
+    }
+  }
+
+  return slots
+}
+
+function isMajorCourse(course: AuditCatalogCourse, input: AuditInput): boolean {
+  return isRequired(course, input) || course.isElective
+}
+
+function buildContext(input: AuditInput): AuditContext {
+  const completed = input.courses.filter(c => input.completedCourseIds.has(c.id) && earnsCredit(input.grades.get(c.id)))
+  const minGrade = input.rules.find(r => r.type === "minimum_grade")?.minGrade || DEFAULT_MIN_GRADE
+  const meetsMinimum = (c: AuditCatalogCourse) => meetsMinimumGrade(input.grades.get(c.id), minGrade)
+  const belowMinimum = completed.filter(c => isMajorCourse(c, input) && !meetsMinimum(c))
+  const passed = completed.filter(meetsMinimum)
+
+  const substitutions = getSubstitutions(input.electiveRules, input.student)
+  const usedSubstitutes = new Set<string>()
+  // A completed group member fills one of the group's slots
+  const appliedIds = new Set<string>()
+
+  const requiredSlots = getRequiredSlots(input).map(slot => {
+    const waived = slot.some(c => c.waivedById !== null && input.satisfiedRequirementIds.has(c.waivedById))
+    const member = slot.find(c => passed.includes(c) && !appliedIds.has(c.id))
+    let applied = member ? [member] : []
+
+    // Fall back to a completed substitute (IT majors: CDA3103C for CGS3269)
+    if (applied.length === 0 && !waived) {
+      const substituteCodes = slot.flatMap(c => substitutions.get(c.code) || [])
+      const substitute = passed.find(c => substituteCodes.includes(c.code) && !usedSubstitutes.has(c.id))
+      if (substitute) {
+        usedSubstitutes.add(substitute.id)
+        applied = [substitute]
+      }
+    }
+
+    applied.forEach(c => appliedIds.add(c.id))
+    return { courses: slot, applied, met: applied.length > 0 || waived }
+  })
+
+  // A substitute or group member fills a required slot, so it can't double as an elective
+  const electives = passed.filter(c =>
+    c.isElective && !isRequired(c, input) && !usedSubstitutes.has(c.id) && !appliedIds.has(c.id)
+  )
+  const { allowed, rejected } = filterAllowedElectives(input.electiveRules, input.student, electives)
+
+  return {
+    input,
+    completed,
+    minGrade,
+    belowMinimum,
+    requiredSlots,
+    countedElectives: allowed,
+    rejectedElectives: rejected.map(({ course, violation }) => ({
+      course,
+      reason: `${course.code}: ${violation.rule.description}`,
+    })),
+  }
+}
+
+const evaluators: Record<string, (rule: AuditRule, context: AuditContext) => RuleProgress> = {
+  // Unassigned transfer credit only counts here
+  total_credits: (rule, { completed, input }) => ({
+    unit: "credits",
+    required: rule.minCredits ?? 0,
+    earned: completed.reduce((sum, c) => sum + c.credits, 0) + input.unassignedTransferCredits,
+    appliedCourses: completed.map(toAuditCourse),
+    remainingCourses: [],
+  }),
+
+  required_courses: (rule, { requiredSlots }) => {
+    const metSlots = requiredSlots.filter(slot => slot.met)
+    const applied = metSlots.flatMap(slot => slot.applied)
+
+    return {
+      unit: "courses",
+      required: requiredSlots.length,
+      earned: metSlots.length,
+      appliedCourses: applied.map(toAuditCourse),
+      // An open slot of a group shows the first member not already counted
+      remainingCourses: requiredSlots.filter(slot => !slot.met)
+        .map(slot => toAuditCourse(slot.courses.find(c => !applied.includes(c)) ?? slot.courses[0])),
+    }
+  },
+
+  elective_courses: (rule, { countedElectives }) => ({
+    unit: "courses",
+    required: rule.minCourses ?? 0,
+    earned: countedElectives.length,
+    appliedCourses: countedElectives.map(toAuditCourse),
+    remainingCourses: [],
+  }),
+
+  // Completed electives that break a restriction for the student's program don't count
+  elective_restrictions: (rule, { countedElectives, rejectedElectives }) => ({
+    unit: "courses",
+    required: countedElectives.length + rejectedElectives.length,
+    earned: countedElectives.length,
+    appliedCourses: countedElectives.map(toAuditCourse),
+    remainingCourses: [],
+    status: rejectedElectives.length > 0 ? "violated" : "satisfied",
+    violations: rejectedElectives.map(r => r.reason),
+  }),
+
+  prefix_courses: (rule, { completed }) => {
+    const applied = completed.filter(c => {
+      const parsed = parseCourseCode(c.code)
+      if (!parsed) return false
+      if (rule.prefixes.length > 0 && !rule.prefixes.includes(parsed.prefix)) return false
+      return parsed.number >= (rule.minLevel ?? 0)
+    })
+    return {
+      unit: "courses",
+      required: rule.minCourses ?? 0,
+      earned: applied.length,
+      appliedCourses: applied.map(toAuditCourse),
+      remainingCourses: [],
+    }
+  },
+
+  // Major courses below the minimum grade have to be retaken
+  minimum_grade: (rule, { input, completed, minGrade, belowMinimum }) => {
+    const majorCourses = completed.filter(c => isMajorCourse(c, input))
+
+    return {
+      unit: "courses",
+      required: majorCourses.length,
+      earned: majorCourses.length - belowMinimum.length,
+      appliedCourses: majorCourses.filter(c => !belowMinimum.includes(c)).map(toAuditCourse),
+      remainingCourses: belowMinimum.map(toAuditCourse),
+      status: belowMinimum.length > 0 ? "violated" : "satisfied",
+      violations: belowMinimum.map(c => `${c.code}: ${input.grades.get(c.id)} (needs ${minGrade} or better)`),
+    }
+  },
+}
+
+export function runDegreeAudit(input: AuditInput): DegreeAudit {
+  const context = buildContext(input)
+  const { completed } = context
+
+  const rules = input.rules.flatMap(rule => {
+    const evaluate = evaluators[rule.type]
+    if (!evaluate) {
+      console.warn(`Degree audit: unknown rule type "${rule.type}" for ${rule.code}`)
+      return []
+    }
+
+    const progress = evaluate(rule, context)
+    return [{
+      code: rule.code,
+      name: rule.name,
+      description: rule.description,
+      type: rule.type,
+      status: getStatus(progress.earned, progress.required),
+      violations: [],
+      ...progress,
+    }]
+  })
+
+  const credits = rules.find(r => r.type === "total_credits")
+  const coursesById = new Map(input.courses.map(c => [c.id, c]))
+  const graded = input.gpaAttempts.flatMap(attempt => {
+    const course = coursesById.get(attempt.courseId)
+    return course ? [{ course, grade: attempt.grade, credits: course.credits }] : []
+  })
+  const transferCredits = completed
+    .filter(c => input.transferCourseIds.has(c.id))
+    .reduce((sum, c) => sum + c.credits, input.unassignedTransferCredits)
+
+  return {
+    rules,
+    totalCredits: credits?.earned ?? completed.reduce((sum, c) => sum + c.credits, input.unassignedTransferCredits),
+    transferCredits,
+    requiredCredits: credits?.required ?? 0,
+    gpa: calculateGpa(graded),
+    majorGpa: calculateGpa(graded.filter(g => isMajorCourse(g.course, input))),
+    complete: rules.every(r => r.status === "satisfied"),
+  }
+}
+
+export function findAuditRule(audit: DegreeAudit | null, type: string): AuditRuleResult | undefined {
+  return audit?.rules.find(r => r.type === type)
+}
+
+export type AuditCatalog = Pick<AuditInput, "rules" | "electiveRules" | "courses" | "courseGroups" | "requiredCourseIds">
+
+// Rules and courses from the student's catalog year, for every program or
+// theirs, with the course groups and the members `userId` picked in them
+export async function loadAuditCatalog(prisma: PrismaClient, student: ProgramStudent, userId: string): Promise<AuditCatalog> {
+  const scope = await getProgramScope(prisma, student)
+  const catalogFilter = { catalogYearId: scope.catalogYearId ?? undefined }
+  const programFilter = { ...catalogFilter, OR: [{ programId: null }, { programId: scope.programId }] }
+
+  const [rules, electiveRules, courses, courseGroups] = await Promise.all([
+    prisma.degreeRule.findMany({ where: programFilter, orderBy: { sortOrder: 'asc' } }),
+    prisma.electiveRule.findMany({ where: programFilter }),
+    prisma.course.findMany({
+      where: catalogFilter,
+      select: { id: true, code: true, name: true, credits: true, isElective: true, electiveLevel: true, waivedById: true },
+      orderBy: { code: 'asc' }
+    }),
+    loadCourseGroups(prisma, scope.catalogYearId, userId),
+  ])
+
+  return { rules, electiveRules, courses, courseGroups, requiredCourseIds: scope.requiredCourseIds }
+}
+
+// What the audit reads from a student's own record
+export interface StudentRecord {
+  student: StudentProfile
+  attempts: CourseAttempt[]
+  transferCredits: TransferCreditRecord[]
+  satisfiedRequirementIds: Set<string>
+}
+
+// Audit a student's record against a catalog; the record doesn't have to be
+// saved (what-if scenarios change it in memory)
+export function auditStudentRecord(catalog: AuditCatalog, record: StudentRecord): DegreeAudit {
+  const transferCourseIds = getTransferCourseIds(record.transferCredits)
+  // A repeated course counts once, through its latest completed attempt
+  const completions = [...getEffectiveAttempts(record.attempts).values()]
+
+  return runDegreeAudit({
+    ...catalog,
+    student: record.student,
+    completedCourseIds: new Set([...completions.map(uc => uc.courseId), ...transferCourseIds]),
+    grades: new Map(completions.map(uc => [uc.courseId, uc.grade])),
+    gpaAttempts: getGpaAttempts(record.attempts),
+    transferCourseIds,
+    unassignedTransferCredits: getUnassignedTransferCredits(record.transferCredits),
+    satisfiedRequirementIds: record.satisfiedRequirementIds,
+  })
+}
+
+// Load the rules, catalog and the student's records, then run the audit
+export async function getDegreeAudit(prisma: PrismaClient, userId: string): Promise<DegreeAudit> {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } })
+
+  const [catalog, userCourses, satisfiedRequirementIds, transferCredits] = await Promise.all([
+    loadAuditCatalog(prisma, user, userId),
+    prisma.userCourse.findMany({ where: { userId } }),
+    loadSatisfiedRequirementIds(prisma, userId),
+    prisma.transferCredit.findMany({ where: { userId } }),
+  ])
+
+  return auditStudentRecord(catalog, {
+    student: { programId: user.programId, bsToMs: user.bsToMs },
+    attempts: userCourses,
+    transferCredits,
+    satisfiedRequirementIds,
+  })
+}
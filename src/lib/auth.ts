@@ -2,6 +2,7 @@ import { NextAuthOptions } from "next-auth"
 import GoogleProvider from "next-auth/providers/google"
 import { PrismaAdapter } from "@auth/prisma-adapter"
 import { PrismaClient } from "@prisma/client"
+import { getCurrentCatalogYear } from "@/lib/catalog-years"
 
 const prisma = new PrismaClient()
 
@@ -34,6 +35,15 @@ export const authOptions: NextAuthOptions = {
       return `${baseUrl}/dashboard`
     },
   },
+  events: {
+    // New students are pinned to the catalog year they sign up under
+    createUser: async ({ user }) => {
+      const catalogYear = await getCurrentCatalogYear(prisma)
+      if (catalogYear) {
+        await prisma.user.update({ where: { id: user.id }, data: { catalogYearId: catalogYear.id } })
+      }
+    },
+  },
   session: {
     strategy: "jwt",
   },
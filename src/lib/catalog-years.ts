@@ -0,0 +1,92 @@
+import type { Prisma, PrismaClient } from "@prisma/client"
+
+// Students stay on the catalog year they entered under. Anyone who isn't
+// pinned to one yet (or isn't signed in) sees the current catalog.
+
+export async function getCurrentCatalogYear(prisma: PrismaClient) {
+  return prisma.catalogYear.findFirst({
+    where: { isCurrent: true },
+    orderBy: { year: 'desc' }
+  })
+}
+
+export async function resolveCatalogYearId(prisma: PrismaClient, catalogYearId: string | null): Promise<string | null> {
+  if (catalogYearId) return catalogYearId
+  const current = await getCurrentCatalogYear(prisma)
+  return current?.id ?? null
+}
+
+// When a student switches catalog years, point their record at the new
+// year's courses with the same code: course attempts, transfer equivalents,
+// elective picks, planned courses and workload reports move, and course group
+// picks move to the group of the same name. Attempts and planned courses the
+// new year dropped keep their old row; picks and reports with nowhere to go
+// are removed. Returns the writes, to run in one transaction with the switch.
+export async function getCatalogYearMoves(
+  prisma: PrismaClient,
+  userId: string,
+  catalogYearId: string
+): Promise<Prisma.PrismaPromise<unknown>[]> {
+  const [userCourses, transferCredits, scheduleItems, electiveSelections, workloadReports, groupSelections, courses, groups] = await Promise.all([
+    prisma.userCourse.findMany({ where: { userId }, include: { course: true } }),
+    prisma.transferCredit.findMany({ where: { userId, courseId: { not: null } }, include: { course: true } }),
+    prisma.scheduleItem.findMany({ where: { schedule: { userId } }, include: { course: true } }),
+    prisma.electiveSelection.findMany({ where: { userId }, include: { course: true } }),
+    prisma.workloadReport.findMany({ where: { userId }, include: { course: true } }),
+    prisma.courseGroupSelection.findMany({ where: { userId }, include: { course: true, group: true } }),
+    prisma.course.findMany({ where: { catalogYearId }, select: { id: true, code: true } }),
+    prisma.courseGroup.findMany({ where: { catalogYearId }, select: { id: true, name: true } }),
+  ])
+
+  const courseIdsByCode = new Map(courses.map(c => [c.code, c.id]))
+  const groupIdsByName = new Map(groups.map(g => [g.name, g.id]))
+  const isMoved = (row: { catalogYearId: string }) => row.catalogYearId === catalogYearId
+  const writes: Prisma.PrismaPromise<unknown>[] = []
+
+  for (const userCourse of userCourses) {
+    const courseId = courseIdsByCode.get(userCourse.course.code)
+    if (isMoved(userCourse.course) || !courseId) continue
+    writes.push(prisma.userCourse.update({ where: { id: userCourse.id }, data: { courseId } }))
+  }
+
+  for (const transferCredit of transferCredits) {
+    const courseId = transferCredit.course && courseIdsByCode.get(transferCredit.course.code)
+    if (!transferCredit.course || isMoved(transferCredit.course) || !courseId) continue
+    writes.push(prisma.transferCredit.update({ where: { id: transferCredit.id }, data: { courseId } }))
+  }
+
+  for (const item of scheduleItems) {
+    const courseId = courseIdsByCode.get(item.course.code)
+    if (isMoved(item.course) || !courseId) continue
+    writes.push(prisma.scheduleItem.update({ where: { id: item.id }, data: { courseId } }))
+  }
+
+  for (const selection of electiveSelections) {
+    if (isMoved(selection.course)) continue
+    const courseId = courseIdsByCode.get(selection.course.code)
+    writes.push(courseId
+      ? prisma.electiveSelection.update({ where: { id: selection.id }, data: { courseId } })
+      : prisma.electiveSelection.delete({ where: { id: selection.id } }))
+  }
+
+  // One report per course: an old-year report yields to one already on the new course
+  const reportedIds = new Set(workloadReports.map(report => report.courseId))
+  for (const report of workloadReports) {
+    if (isMoved(report.course)) continue
+    const courseId = courseIdsByCode.get(report.course.code)
+    writes.push(courseId && !reportedIds.has(courseId)
+      ? prisma.workloadReport.update({ where: { id: report.id }, data: { courseId } })
+      : prisma.workloadReport.delete({ where: { id: report.id } }))
+  }
+
+  for (const selection of groupSelections) {
+    if (isMoved(selection.group)) continue
+    const groupId = groupIdsByName.get(selection.group.name)
+    const courseId = courseIdsByCode.get(selection.course.code)
+    writes.push(groupId && courseId
+      ? prisma.courseGroupSelection.update({ where: { id: selection.id }, data: { groupId, courseId } })
+      : prisma.courseGroupSelection.delete({ where: { id: selection.id } }))
+  }
+
+  return writes
+}
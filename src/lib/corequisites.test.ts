@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { allowsPriorCompletion, CorequisiteLink, describeCorequisites, isCorequisiteGroupMet } from "@/lib/corequisites"
+
+function link(code: string, timing: string, groupIndex = 0): CorequisiteLink {
+  return { groupIndex, timing, corequisite: { id: code, code } }
+}
+
+const none = () => false
+const only = (id: string) => (courseId: string) => courseId === id
+
+describe("isCorequisiteGroupMet", () => {
+  it("counts a completed option whatever the timing", () => {
+    expect(isCorequisiteGroupMet([link("PHY2048", "concurrent")], only("PHY2048"), none)).toBe(true)
+  })
+
+  it("counts an option planned earlier only for prior-or-concurrent groups", () => {
+    expect(isCorequisiteGroupMet([link("MAC2311C", "prior_or_concurrent")], none, only("MAC2311C"))).toBe(true)
+    expect(isCorequisiteGroupMet([link("PHY2048", "concurrent")], none, only("PHY2048"))).toBe(false)
+  })
+
+  it("treats a group with any concurrent option as concurrent", () => {
+    const group = [link("COP4600", "prior_or_concurrent"), link("CGS3763", "concurrent")]
+
+    expect(allowsPriorCompletion(group)).toBe(false)
+    expect(isCorequisiteGroupMet(group, none, only("COP4600"))).toBe(false)
+  })
+})
+
+describe("describeCorequisites", () => {
+  it("says when a group may be taken before", () => {
+    expect(describeCorequisites([
+      link("COP4600", "prior_or_concurrent"),
+      link("CGS3763", "prior_or_concurrent"),
+      link("PHY2048", "concurrent", 1),
+    ])).toEqual(["COP4600 or CGS3763 (may be taken before)", "PHY2048"])
+  })
+})
@@ -0,0 +1,47 @@
+import { groupPrerequisites } from "@/lib/prerequisites"
+
+// Corequisites use the same AND of OR-groups layout as prerequisites, plus a
+// timing per row:
+// - "concurrent": the courses must be taken in the same term
+// - "prior_or_concurrent": taking an option in an earlier term also counts
+export type CorequisiteTiming = "concurrent" | "prior_or_concurrent"
+
+export interface CorequisiteLink {
+  groupIndex: number
+  timing: string
+  corequisite: {
+    id: string
+    code: string
+  }
+}
+
+export function groupCorequisites<T extends CorequisiteLink>(links: T[]): T[][] {
+  return groupPrerequisites(links)
+}
+
+// A group is prior_or_concurrent only if every option in it allows an earlier term
+export function allowsPriorCompletion(group: CorequisiteLink[]): boolean {
+  return group.every(link => link.timing === "prior_or_concurrent")
+}
+
+// True when the group is already satisfied before the term being planned:
+// a completed option always counts, an option planned in an earlier term only
+// counts for prior_or_concurrent groups
+export function isCorequisiteGroupMet(
+  group: CorequisiteLink[],
+  isCompleted: (courseId: string) => boolean,
+  isPlannedEarlier: (courseId: string) => boolean
+): boolean {
+  return group.some(link =>
+    isCompleted(link.corequisite.id) ||
+    (allowsPriorCompletion(group) && isPlannedEarlier(link.corequisite.id))
+  )
+}
+
+// Human readable form, e.g. "COP4600 or CGS3763 (may be taken before)"
+export function describeCorequisites<T extends CorequisiteLink>(links: T[]): string[] {
+  return groupCorequisites(links).map(group => {
+    const codes = group.map(link => link.corequisite.code).join(" or ")
+    return allowsPriorCompletion(group) ? `${codes} (may be taken before)` : codes
+  })
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest"
+import { CourseAttempt, canRepeatCourse, getEffectiveAttempts, getGpaAttempts, GRADE_FORGIVENESS_LIMIT } from "@/lib/course-attempts"
+
+// Attempts with a term, so they sort by it rather than by when they were recorded
+function attempt(courseId: string, grade: string | null, semester: string, year: number, status = "completed"): CourseAttempt {
+  return { id: `${courseId}-${semester}-${year}`, courseId, status, grade, semester, year, createdAt: "2026-01-01" }
+}
+
+describe("getGpaAttempts", () => {
+  it("counts only the latest grade of a retaken course", () => {
+    const attempts = [attempt("A", "F", "Fall", 2025, "failed"), attempt("A", "B", "Spring", 2026)]
+
+    expect(getGpaAttempts(attempts).map(a => a.grade)).toEqual(["B"])
+  })
+
+  it(`forgives at most ${GRADE_FORGIVENESS_LIMIT} courses, the earliest retaken first`, () => {
+    const attempts = [
+      attempt("A", "D", "Fall", 2024), attempt("A", "A", "Spring", 2025),
+      attempt("B", "D", "Fall", 2024), attempt("B", "A", "Summer", 2025),
+      attempt("C", "D", "Fall", 2024), attempt("C", "A", "Fall", 2025),
+    ]
+    const counted = getGpaAttempts(attempts)
+
+    expect(counted.filter(a => a.courseId === "A")).toHaveLength(1)
+    expect(counted.filter(a => a.courseId === "B")).toHaveLength(1)
+    expect(counted.filter(a => a.courseId === "C").map(a => a.grade)).toEqual(["D", "A"])
+  })
+
+  it("leaves out ungraded, planned and withdrawn attempts", () => {
+    const attempts = [
+      attempt("A", null, "Fall", 2025),
+      attempt("B", null, "Fall", 2026, "planned"),
+      attempt("C", "W", "Fall", 2025, "withdrawn"),
+      attempt("D", "A", "Fall", 2025),
+    ]
+
+    expect(getGpaAttempts(attempts).map(a => a.courseId)).toEqual(["D"])
+  })
+})
+
+describe("getEffectiveAttempts", () => {
+  it("lets the latest completed attempt stand for the course", () => {
+    const attempts = [attempt("A", "A", "Spring", 2026), attempt("A", "D", "Fall", 2025), attempt("A", null, "Fall", 2026, "enrolled")]
+
+    expect(getEffectiveAttempts(attempts).get("A")?.grade).toBe("A")
+  })
+})
+
+describe("canRepeatCourse", () => {
+  it("allows a retake only below a C", () => {
+    expect(canRepeatCourse([attempt("A", "D", "Fall", 2025)], "A")).toBe(true)
+    expect(canRepeatCourse([attempt("A", "C", "Fall", 2025)], "A")).toBe(false)
+  })
+})
@@ -0,0 +1,97 @@
+import { DEFAULT_MIN_GRADE, meetsMinimumGrade } from "@/lib/grades"
+
+// Every time a student takes a course is its own attempt: planned, enrolled,
+// completed, withdrawn (W) or failed, optionally tied to the term it was in.
+// The latest completed attempt decides whether the course is done, and under
+// grade forgiveness a retake replaces the earlier grade in the GPA.
+
+export const ATTEMPT_STATUSES: Record<string, string> = {
+  planned: "Planned",
+  enrolled: "Enrolled",
+  completed: "Completed",
+  withdrawn: "Withdrawn (W)",
+  failed: "Failed",
+}
+
+export const ATTEMPT_TERMS = ["Spring", "Summer", "Fall"]
+
+// UCF lets a student use grade forgiveness on at most two courses
+export const GRADE_FORGIVENESS_LIMIT = 2
+
+export interface CourseAttempt {
+  id: string
+  courseId: string
+  status: string
+  grade: string | null
+  semester: string | null
+  year: number | null
+  createdAt: Date | string
+}
+
+export function isValidAttemptStatus(status: string): boolean {
+  return status in ATTEMPT_STATUSES
+}
+
+// An F is a failed attempt whatever status it was recorded with
+export function resolveAttemptStatus(status: string, grade: string | null | undefined): string {
+  return grade === "F" && status === "completed" ? "failed" : status
+}
+
+// "Fall 2025"; attempts recorded without a term fall back to "Term not set"
+export function describeAttemptTerm(attempt: Pick<CourseAttempt, "semester" | "year">): string {
+  if (!attempt.semester || !attempt.year) return "Term not set"
+  return `${attempt.semester} ${attempt.year}`
+}
+
+// Oldest first: by term when both attempts have one, otherwise by when they were recorded
+export function compareAttempts(a: CourseAttempt, b: CourseAttempt): number {
+  if (a.year && b.year && a.year !== b.year) return a.year - b.year
+  if (a.year && b.year && a.semester && b.semester && a.semester !== b.semester) {
+    return ATTEMPT_TERMS.indexOf(a.semester) - ATTEMPT_TERMS.indexOf(b.semester)
+  }
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+}
+
+// Course id -> the latest completed attempt, which stands for the course
+export function getEffectiveAttempts<T extends CourseAttempt>(attempts: T[]): Map<string, T> {
+  const effective = new Map<string, T>()
+
+  for (const attempt of [...attempts].sort(compareAttempts)) {
+    if (attempt.status === "completed") effective.set(attempt.courseId, attempt)
+  }
+
+  return effective
+}
+
+// A course passed with a C or better can't be taken again
+export function canRepeatCourse(attempts: CourseAttempt[], courseId: string): boolean {
+  return !attempts.some(attempt =>
+    attempt.courseId === courseId &&
+    attempt.status === "completed" &&
+    meetsMinimumGrade(attempt.grade, DEFAULT_MIN_GRADE)
+  )
+}
+
+// The graded attempts that count toward the GPA. For the first courses
+// retaken (up to GRADE_FORGIVENESS_LIMIT) only the latest graded attempt
+// counts; after that every attempt is averaged in.
+export function getGpaAttempts<T extends CourseAttempt>(attempts: T[]): T[] {
+  const graded = attempts
+    .filter(attempt => attempt.grade && (attempt.status === "completed" || attempt.status === "failed"))
+    .sort(compareAttempts)
+
+  const byCourse = new Map<string, T[]>()
+  for (const attempt of graded) {
+    byCourse.set(attempt.courseId, [...(byCourse.get(attempt.courseId) || []), attempt])
+  }
+
+  // Forgiveness goes to the earliest retakes
+  const retakes = [...byCourse.values()]
+    .filter(courseAttempts => courseAttempts.length > 1)
+    .sort((a, b) => compareAttempts(a[1], b[1]))
+  const forgiven = new Set(retakes.slice(0, GRADE_FORGIVENESS_LIMIT).map(courseAttempts => courseAttempts[0].courseId))
+
+  return [...byCourse.entries()].flatMap(([courseId, courseAttempts]) =>
+    forgiven.has(courseId) ? courseAttempts.slice(-1) : courseAttempts
+  )
+}
@@ -0,0 +1,119 @@
+// Elective restrictions from the program requirements, e.g. "only one IT
+// course as a CS elective" or "at most 3 graduate courses". Rules can be
+// limited to a program; "substitution" rules instead let an elective stand in
+// for a required course (IT majors may take CDA3103C in place of CGS3269).
+
+export interface ElectiveRule {
+  code: string
+  description: string
+  type: string // "max_courses", "forbidden" or "substitution"
+  programId: string | null
+  courseCodes: string[]
+  electiveLevel: string | null
+  maxCourses: number | null
+  bsToMsMaxCourses: number | null
+  substitutesFor: string | null
+}
+
+export interface StudentProfile {
+  programId: string | null
+  bsToMs: boolean
+}
+
+export interface ElectiveCourse {
+  id: string
+  code: string
+  electiveLevel?: string | null
+}
+
+export interface ElectiveRuleViolation {
+  rule: ElectiveRule
+  courses: ElectiveCourse[]
+}
+
+export function getApplicableRules(rules: ElectiveRule[], student: StudentProfile): ElectiveRule[] {
+  return rules.filter(rule => !rule.programId || rule.programId === student.programId)
+}
+
+function coversCourse(rule: ElectiveRule, course: ElectiveCourse): boolean {
+  if (rule.courseCodes.includes(course.code)) return true
+  return rule.electiveLevel !== null && rule.electiveLevel === course.electiveLevel
+}
+
+function getMaxCourses(rule: ElectiveRule, student: StudentProfile): number | null {
+  if (student.bsToMs && rule.bsToMsMaxCourses !== null) return rule.bsToMsMaxCourses
+  return rule.maxCourses
+}
+
+// Every rule the given set of electives breaks
+export function checkElectives(
+  rules: ElectiveRule[],
+  student: StudentProfile,
+  electives: ElectiveCourse[]
+): ElectiveRuleViolation[] {
+  const violations: ElectiveRuleViolation[] = []
+
+  for (const rule of getApplicableRules(rules, student)) {
+    const covered = electives.filter(course => coversCourse(rule, course))
+
+    if (rule.type === "forbidden" && covered.length > 0) {
+      violations.push({ rule, courses: covered })
+    } else if (rule.type === "max_courses") {
+      const maxCourses = getMaxCourses(rule, student)
+      if (maxCourses !== null && covered.length > maxCourses) {
+        violations.push({ rule, courses: covered })
+      }
+    }
+  }
+
+  return violations
+}
+
+// The rule that adding `candidate` to `current` would break, if any
+export function findElectiveViolation(
+  rules: ElectiveRule[],
+  student: StudentProfile,
+  current: ElectiveCourse[],
+  candidate: ElectiveCourse
+): ElectiveRuleViolation | null {
+  const violations = checkElectives(rules, student, [...current, candidate])
+  return violations.find(v => v.courses.some(c => c.id === candidate.id)) ?? null
+}
+
+// Walk the electives in order and keep each one that fits alongside those
+// already kept (and `kept`, e.g. completed electives)
+export function filterAllowedElectives<T extends ElectiveCourse>(
+  rules: ElectiveRule[],
+  student: StudentProfile,
+  electives: T[],
+  kept: ElectiveCourse[] = []
+): { allowed: T[], rejected: { course: T, violation: ElectiveRuleViolation }[] } {
+  const allowed: T[] = []
+  const rejected: { course: T, violation: ElectiveRuleViolation }[] = []
+
+  for (const course of electives) {
+    const violation = findElectiveViolation(rules, student, [...kept, ...allowed], course)
+    if (violation) {
+      rejected.push({ course, violation })
+    } else {
+      allowed.push(course)
+    }
+  }
+
+  return { allowed, rejected }
+}
+
+// Required course code -> codes of the courses that may replace it for this student
+export function getSubstitutions(rules: ElectiveRule[], student: StudentProfile): Map<string, string[]> {
+  const substitutions = new Map<string, string[]>()
+
+  for (const rule of getApplicableRules(rules, student)) {
+    if (rule.type !== "substitution" || !rule.substitutesFor) continue
+    substitutions.set(rule.substitutesFor, [
+      ...(substitutions.get(rule.substitutesFor) || []),
+      ...rule.courseCodes,
+    ])
+  }
+
+  return substitutions
+}
@@ -0,0 +1,129 @@
+import type { PrismaClient } from "@prisma/client"
+import { ElectiveRule, ElectiveRuleViolation, filterAllowedElectives, findElectiveViolation, StudentProfile } from "@/lib/elective-rules"
+import type { ProgramScope } from "@/lib/programs"
+import { hasUnmetRequirementGroup, SchedulerCourse } from "@/lib/scheduler"
+
+// The electives a student picked, one per slot of their program's elective
+// requirement (two restricted electives for BS CS). Kept on the server so the
+// roadmap, the schedule generator, the progress page and chat all see the
+// same picks on any device.
+
+export interface ElectiveSlots {
+  slots: number // How many electives the program requires
+  courseIds: (string | null)[] // One entry per slot; null when it's still open
+}
+
+interface SlotCourse {
+  id: string
+  code: string
+  isElective: boolean
+  electiveLevel: string | null
+}
+
+// The electives a generated plan takes, and how it got there
+export interface ElectivePlan<T> {
+  completedElectives: T[] // Completed electives the rules let count
+  electivesNeeded: number // Slots the completed electives leave open
+  electives: T[] // What the plan schedules for those slots
+  rejected: { course: T, violation: ElectiveRuleViolation }[] // Picks the rules turned away
+}
+
+// The program's own elective_courses rule wins over one for every program
+export async function getElectiveSlotCount(prisma: PrismaClient, scope: ProgramScope): Promise<number> {
+  const rules = await prisma.degreeRule.findMany({
+    where: {
+      catalogYearId: scope.catalogYearId ?? undefined,
+      type: "elective_courses",
+      OR: [{ programId: null }, { programId: scope.programId }]
+    }
+  })
+  const rule = rules.find(r => r.programId !== null) ?? rules[0]
+  return rule?.minCourses ?? 0
+}
+
+export async function loadElectiveSlots(prisma: PrismaClient, userId: string, scope: ProgramScope): Promise<ElectiveSlots> {
+  const slots = await getElectiveSlotCount(prisma, scope)
+  const selections = await prisma.electiveSelection.findMany({ where: { userId } })
+
+  return {
+    slots,
+    courseIds: Array.from({ length: slots }, (_, slot) => selections.find(s => s.slot === slot)?.courseId ?? null),
+  }
+}
+
+// The picked courses in slot order, skipping open slots
+export function getSelectedElectiveIds(electiveSlots: ElectiveSlots): string[] {
+  return electiveSlots.courseIds.filter((id): id is string => id !== null)
+}
+
+// What's wrong with a set of picks, or null when they can be saved: each
+// has to be an elective of the program, picked once, and fit the elective
+// rules together with the electives already completed
+export function validateElectiveSlots(
+  courseIds: (string | null)[],
+  slots: number,
+  courses: SlotCourse[],
+  completedElectives: SlotCourse[],
+  rules: ElectiveRule[],
+  student: StudentProfile
+): string | null {
+  if (courseIds.length > slots) return `Your program has ${slots} elective slot${slots === 1 ? "" : "s"}`
+
+  const picked: SlotCourse[] = []
+  for (const courseId of courseIds) {
+    if (courseId === null) continue
+
+    const course = courses.find(c => c.id === courseId)
+    if (!course?.isElective) return "Only electives in your program can be picked"
+    if (picked.some(c => c.id === courseId)) return `${course.code} is picked twice`
+
+    const violation = findElectiveViolation(rules, student, [...completedElectives, ...picked], course)
+    if (violation) return `${course.code} can't be picked: ${violation.rule.description}`
+    picked.push(course)
+  }
+
+  return null
+}
+
+// Fill the slots completed electives leave open: first with the picks that
+// aren't completed and fit the elective rules, then with 4000-level electives
+// (skipping ones gated on a consent, GPA or exam the student hasn't recorded)
+export function planElectives<T extends SchedulerCourse & SlotCourse>(
+  courses: T[],
+  pickedIds: string[],
+  slots: number,
+  completedIds: Set<string>,
+  satisfiedRequirementIds: Set<string>,
+  rules: ElectiveRule[],
+  student: StudentProfile
+): ElectivePlan<T> {
+  const completedElectives = filterAllowedElectives(
+    rules,
+    student,
+    courses.filter(course => course.isElective && completedIds.has(course.id))
+  ).allowed
+  const electivesNeeded = Math.max(0, slots - completedElectives.length)
+
+  const picked = pickedIds.flatMap(id => courses.find(course => course.id === id) ?? [])
+  const { allowed, rejected } = filterAllowedElectives(
+    rules,
+    student,
+    picked.filter(course => !completedIds.has(course.id)),
+    completedElectives
+  )
+  let electives = allowed.slice(0, electivesNeeded)
+
+  if (electives.length < electivesNeeded) {
+    const fourThousandLevel = courses.filter(course =>
+      course.isElective &&
+      course.electiveLevel === '4000_level' &&
+      !completedIds.has(course.id) &&
+      !electives.some(e => e.id === course.id) &&
+      !hasUnmetRequirementGroup(course, satisfiedRequirementIds)
+    )
+    const recommended = filterAllowedElectives(rules, student, fourThousandLevel, [...completedElectives, ...electives]).allowed
+    electives = [...electives, ...recommended.slice(0, electivesNeeded - electives.length)]
+  }
+
+  return { completedElectives, electivesNeeded, electives, rejected }
+}
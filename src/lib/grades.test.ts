@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest"
+import { calculateGpa, meetsMinimumGrade } from "@/lib/grades"
+
+describe("meetsMinimumGrade", () => {
+  it("falls back to a C when no minimum is given", () => {
+    expect(meetsMinimumGrade("C", null)).toBe(true)
+    expect(meetsMinimumGrade("C-", null)).toBe(false)
+  })
+
+  it("holds a course to its own minimum", () => {
+    expect(meetsMinimumGrade("B", "B+")).toBe(false)
+    expect(meetsMinimumGrade("A-", "B+")).toBe(true)
+  })
+
+  it("passes ungraded completions, and pass grades only up to a C", () => {
+    expect(meetsMinimumGrade(null, "A")).toBe(true)
+    expect(meetsMinimumGrade("S", "C")).toBe(true)
+    expect(meetsMinimumGrade("S", "B")).toBe(false)
+  })
+})
+
+describe("calculateGpa", () => {
+  it("weights grades by credits and skips pass and ungraded ones", () => {
+    const gpa = calculateGpa([
+      { grade: "A", credits: 4 },
+      { grade: "C", credits: 2 },
+      { grade: "P", credits: 3 },
+      { grade: null, credits: 3 },
+    ])
+
+    expect(gpa).toBe(3.33)
+  })
+
+  it("is null until something has a letter grade", () => {
+    expect(calculateGpa([{ grade: "S", credits: 3 }])).toBeNull()
+  })
+})
@@ -0,0 +1,63 @@
+// UCF letter grades and their quality points. Completions recorded before
+// grades were tracked have no grade; they count as passing any minimum and
+// are left out of the GPA.
+
+export const GRADE_POINTS: Record<string, number> = {
+  "A": 4.0,
+  "A-": 3.75,
+  "B+": 3.25,
+  "B": 3.0,
+  "B-": 2.75,
+  "C+": 2.25,
+  "C": 2.0,
+  "C-": 1.75,
+  "D+": 1.25,
+  "D": 1.0,
+  "D-": 0.75,
+  "F": 0,
+}
+
+// Earn credit without affecting the GPA; they satisfy a minimum of C or lower
+const PASS_GRADES = ["P", "S"]
+
+export const GRADES = [...Object.keys(GRADE_POINTS), ...PASS_GRADES]
+
+// The catalog's "C (2.0) or better", used when a prerequisite names no grade
+export const DEFAULT_MIN_GRADE = "C"
+
+export function isValidGrade(grade: string): boolean {
+  return GRADES.includes(grade)
+}
+
+export function earnsCredit(grade: string | null | undefined): boolean {
+  return grade !== "F"
+}
+
+export function meetsMinimumGrade(grade: string | null | undefined, minGrade: string | null | undefined): boolean {
+  if (!grade) return true
+
+  const required = GRADE_POINTS[minGrade || DEFAULT_MIN_GRADE] ?? GRADE_POINTS[DEFAULT_MIN_GRADE]
+  if (PASS_GRADES.includes(grade)) return required <= GRADE_POINTS[DEFAULT_MIN_GRADE]
+
+  const points = GRADE_POINTS[grade]
+  return points !== undefined && points >= required
+}
+
+// Credit-weighted GPA over the graded attempts, rounded to two places;
+// null until something has a letter grade
+export function calculateGpa(attempts: { grade: string | null | undefined; credits: number }[]): number | null {
+  let points = 0
+  let hours = 0
+
+  for (const { grade, credits } of attempts) {
+    if (!grade || GRADE_POINTS[grade] === undefined) continue
+    points += GRADE_POINTS[grade] * credits
+    hours += credits
+  }
+
+  return hours > 0 ? Math.round((points / hours) * 100) / 100 : null
+}
+
+export function formatGpa(gpa: number | null | undefined): string {
+  return gpa === null || gpa === undefined ? "N/A" : gpa.toFixed(2)
+}
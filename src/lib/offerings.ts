@@ -0,0 +1,68 @@
+import type { Term } from "@/lib/terms"
+
+// Which terms a course runs in, from the catalog's offering patterns: a term,
+// every year or only odd/even years, and how it is delivered. Courses with no
+// pattern on file are assumed to run every Fall and Spring.
+
+export const OFFERING_TERMS = ["Fall", "Spring", "Summer"]
+
+export const OFFERING_YEARS: Record<string, string> = {
+  every: "Every year",
+  odd: "Odd years",
+  even: "Even years",
+}
+
+export const DELIVERY_MODES: Record<string, string> = {
+  in_person: "In person",
+  online: "Online",
+  hybrid: "Hybrid",
+}
+
+const DEFAULT_TERMS = ["Fall", "Spring"]
+
+export interface CourseOfferingRecord {
+  term: string
+  years: string
+  delivery: string
+}
+
+export function isValidOffering(offering: CourseOfferingRecord): boolean {
+  return OFFERING_TERMS.includes(offering.term) &&
+    offering.years in OFFERING_YEARS &&
+    offering.delivery in DELIVERY_MODES
+}
+
+function runsInYear(offering: CourseOfferingRecord, year: number): boolean {
+  if (offering.years === "odd") return year % 2 === 1
+  if (offering.years === "even") return year % 2 === 0
+  return true
+}
+
+// Limit to one delivery mode by passing it; otherwise any mode counts
+export function isOfferedIn(
+  offerings: CourseOfferingRecord[] | undefined,
+  term: Term,
+  delivery?: string
+): boolean {
+  if (!offerings || offerings.length === 0) return DEFAULT_TERMS.includes(term.semester)
+
+  return offerings.some(offering =>
+    offering.term === term.semester &&
+    runsInYear(offering, term.year) &&
+    (!delivery || offering.delivery === delivery)
+  )
+}
+
+// "Fall, Spring (odd years), Summer online"
+export function describeOfferings(offerings: CourseOfferingRecord[] | undefined): string {
+  if (!offerings || offerings.length === 0) return DEFAULT_TERMS.join(", ")
+
+  return [...offerings]
+    .sort((a, b) => OFFERING_TERMS.indexOf(a.term) - OFFERING_TERMS.indexOf(b.term))
+    .map(offering => {
+      const years = offering.years === "every" ? "" : ` (${(OFFERING_YEARS[offering.years] ?? offering.years).toLowerCase()})`
+      const delivery = offering.delivery === "in_person" ? "" : ` ${(DELIVERY_MODES[offering.delivery] ?? offering.delivery).toLowerCase()}`
+      return `${offering.term}${years}${delivery}`
+    })
+    .join(", ")
+}
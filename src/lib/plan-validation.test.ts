@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest"
+import { PlanValidationInput, validatePlan } from "@/lib/plan-validation"
+import { DEFAULT_PLANNING_PREFERENCES } from "@/lib/planning-preferences"
+import { SchedulerCourse } from "@/lib/scheduler"
+import type { PlanItem } from "@/lib/schedule-plans"
+
+function course(code: string, options: Partial<SchedulerCourse> = {}): SchedulerCourse {
+  return { id: code, code, credits: 3, isElective: false, waivedById: null, prerequisites: [], corequisites: [], ...options }
+}
+
+// "PHY2048 Fall 2027"
+function item(entry: string): PlanItem {
+  const [courseId, semester, year] = entry.split(" ")
+  return { courseId, semester, year: Number(year) }
+}
+
+function validate(courses: SchedulerCourse[], entries: string[], overrides: Partial<PlanValidationInput> = {}) {
+  return validatePlan({
+    items: entries.map(item),
+    courses,
+    completions: [],
+    satisfiedRequirementIds: new Set(),
+    summerTerms: [],
+    preferences: DEFAULT_PLANNING_PREFERENCES,
+    ...overrides,
+  })
+}
+
+const kinds = (violations: ReturnType<typeof validatePlan>) => violations.map(violation => violation.kind)
+
+describe("validatePlan", () => {
+  const calculus = course("MAC2311C")
+  const physics = course("PHY2048", { prerequisites: [{ groupIndex: 0, minGrade: "B", prerequisite: { id: "MAC2311C", code: "MAC2311C" } }] })
+  const lab = course("PHY2048L", { corequisites: [{ groupIndex: 0, timing: "concurrent", corequisite: { id: "PHY2048", code: "PHY2048" } }] })
+
+  it("accepts a plan that keeps every requisite", () => {
+    expect(validate([calculus, physics, lab], ["MAC2311C Spring 2027", "PHY2048 Fall 2027", "PHY2048L Fall 2027"])).toEqual([])
+  })
+
+  it("flags a prerequisite planned in the same term", () => {
+    const violations = validate([calculus, physics], ["MAC2311C Fall 2027", "PHY2048 Fall 2027"])
+
+    expect(violations).toEqual([expect.objectContaining({ kind: "prerequisite", courseId: "PHY2048", message: "PHY2048 needs MAC2311C (B or better) first" })])
+  })
+
+  it("holds a completed prerequisite to its minimum grade", () => {
+    const plan = (grade: string) => validate([calculus, physics], ["PHY2048 Spring 2027"], {
+      completions: [{ courseId: "MAC2311C", completed: true, grade }],
+    })
+
+    expect(kinds(plan("B"))).toEqual([])
+    expect(kinds(plan("C"))).toEqual(["prerequisite"])
+  })
+
+  it("needs a concurrent corequisite in the same term, not an earlier one", () => {
+    expect(kinds(validate([physics, lab, calculus], ["MAC2311C Spring 2027", "PHY2048 Fall 2027", "PHY2048L Spring 2028"])))
+      .toEqual(["corequisite"])
+    expect(kinds(validate([physics, lab, calculus], ["MAC2311C Spring 2027", "PHY2048 Fall 2027", "PHY2048L Spring 2027"])))
+      .toEqual(["corequisite"])
+  })
+
+  it("lets a prior-or-concurrent corequisite come first", () => {
+    const data = course("COP3503C", { corequisites: [{ groupIndex: 0, timing: "prior_or_concurrent", corequisite: { id: "MAC2311C", code: "MAC2311C" } }] })
+
+    expect(validate([calculus, data], ["MAC2311C Spring 2027", "COP3503C Fall 2027"])).toEqual([])
+  })
+
+  it("flags terms over the credit cap, blocked terms and summers that are off", () => {
+    const everyTerm = ["Fall", "Spring", "Summer"].map(term => ({ term, years: "every", delivery: "in_person" }))
+    const courses = ["A", "B", "C", "D"].map(code => course(code, { credits: 5, offerings: everyTerm }))
+    const violations = validate(courses, ["A Fall 2027", "B Fall 2027", "C Spring 2028", "D Summer 2028"], {
+      preferences: { ...DEFAULT_PLANNING_PREFERENCES, maxCredits: 9, minCredits: 0, fullTime: false, blockedTerms: ["Spring 2028"] },
+    })
+
+    expect(kinds(violations)).toEqual(["blocked_term", "summer_off", "credit_cap"])
+  })
+
+  it("flags a course planned twice and one outside the program", () => {
+    expect(kinds(validate([calculus], ["MAC2311C Spring 2027", "MAC2311C Fall 2027", "COP3502C Fall 2027"])))
+      .toEqual(["duplicate_course", "unknown_course"])
+  })
+})
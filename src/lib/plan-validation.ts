@@ -0,0 +1,173 @@
+import type { DegreeAudit } from "@/lib/audit"
+import { describePrerequisites, groupPrerequisites, isPrerequisiteOptionMet } from "@/lib/prerequisites"
+import { describeCorequisites, groupCorequisites, isCorequisiteGroupMet } from "@/lib/corequisites"
+import { DEFAULT_MIN_GRADE, meetsMinimumGrade } from "@/lib/grades"
+import { describeOfferings, isOfferedIn } from "@/lib/offerings"
+import { isBlockedTerm, PlanningPreferences } from "@/lib/planning-preferences"
+import type { SchedulerCompletion, SchedulerCourse, SchedulerCourseGroup, SummerTerm } from "@/lib/scheduler"
+import type { PlanItem } from "@/lib/schedule-plans"
+import { describeTerm, getTermEnd, getTermStart } from "@/lib/terms"
+
+// Checks a plan the student edited by hand, or one an advisor pasted in.
+// Problems are reported, not enforced: a plan can be saved with violations
+// and they're shown next to the courses they affect.
+
+export type ViolationKind =
+  | "prerequisite"
+  | "corequisite"
+  | "not_offered"
+  | "credit_cap"
+  | "blocked_term" // Planned in a term the student marked as off (co-op, study abroad)
+  | "summer_off" // Planned in a summer the student hasn't turned on
+  | "already_completed"
+  | "duplicate_course" // Planned more than once
+  | "alternative_conflict" // More of a course group planned or completed than it needs
+  | "unknown_course" // Not in the student's program or catalog year
+  | "unmet_requirement" // A degree requirement still short once the plan is done
+
+export interface PlanViolation {
+  kind: ViolationKind
+  term: string | null // "Fall 2027"; null for problems with the plan as a whole
+  courseId: string | null // null for problems with a whole term (credit caps) or plan
+  message: string
+}
+
+export interface PlanValidationInput {
+  items: PlanItem[]
+  courses: SchedulerCourse[] // The student's program
+  courseGroups?: Pick<SchedulerCourseGroup, "name" | "choose" | "courseIds">[]
+  completions: SchedulerCompletion[]
+  satisfiedRequirementIds: Set<string>
+  summerTerms: SummerTerm[]
+  preferences: PlanningPreferences
+}
+
+export function validatePlan(input: PlanValidationInput): PlanViolation[] {
+  const { items, courses, completions, satisfiedRequirementIds, summerTerms, preferences } = input
+  const courseById = new Map(courses.map(course => [course.id, course]))
+  const summerTermsByYear = new Map(summerTerms.map(summer => [summer.year, summer]))
+  // A course planned twice is looked up by its first entry
+  const itemByCourse = new Map([...items].reverse().map(item => [item.courseId, item]))
+  const violations: PlanViolation[] = []
+  const seen = new Set<string>()
+
+  const passed = completions.filter(uc => uc.completed && meetsMinimumGrade(uc.grade, DEFAULT_MIN_GRADE))
+  const completedGrades = new Map(passed.map(uc => [uc.courseId, uc.grade]))
+  const isCompleted = (courseId: string) => completedGrades.has(courseId)
+
+  for (const item of items) {
+    const term = describeTerm(item)
+    const course = courseById.get(item.courseId)
+    const report = (kind: ViolationKind, message: string) =>
+      violations.push({ kind, term, courseId: item.courseId, message })
+
+    if (!course) {
+      report("unknown_course", "Isn't part of your program")
+      continue
+    }
+
+    if (seen.has(course.id)) {
+      report("duplicate_course", `${course.code} is already planned in ${describeTerm(itemByCourse.get(course.id)!)}`)
+      continue
+    }
+    seen.add(course.id)
+
+    if (isCompleted(course.id)) {
+      report("already_completed", `${course.code} is already completed`)
+    }
+
+    const start = getTermStart(item)
+    const end = getTermEnd(item)
+    const isPlannedBefore = (courseId: string) => {
+      const other = itemByCourse.get(courseId)
+      return !!other && getTermEnd(other) <= start
+    }
+    // Same term, or overlapping summer sessions (Summer C with A or B)
+    const isPlannedAlongside = (courseId: string) => {
+      const other = itemByCourse.get(courseId)
+      return !!other && getTermStart(other) < end && start < getTermEnd(other)
+    }
+
+    for (const group of groupPrerequisites(course.prerequisites || [])) {
+      const met = group.some(link =>
+        isPrerequisiteOptionMet(link, (prerequisite, minGrade) =>
+          isCompleted(prerequisite.id)
+            ? meetsMinimumGrade(completedGrades.get(prerequisite.id), minGrade)
+            : isPlannedBefore(prerequisite.id),
+          satisfiedRequirementIds
+        )
+      )
+      if (!met) report("prerequisite", `${course.code} needs ${describePrerequisites(group)[0]} first`)
+    }
+
+    for (const group of groupCorequisites(course.corequisites || [])) {
+      const met = isCorequisiteGroupMet(group, isCompleted, isPlannedBefore) ||
+        group.some(link => isPlannedAlongside(link.corequisite.id))
+      if (!met) report("corequisite", `${course.code} has to be taken with ${describeCorequisites(group)[0]}`)
+    }
+
+    if (isBlockedTerm(preferences, item)) {
+      report("blocked_term", `${term} is marked as a term off`)
+    } else if (item.semester === "Summer" && !summerTermsByYear.has(item.year)) {
+      report("summer_off", `Summer ${item.year} isn't turned on`)
+    }
+
+    if (!isOfferedIn(course.offerings, item)) {
+      report("not_offered", `${course.code} runs ${describeOfferings(course.offerings)}`)
+    }
+  }
+
+  // Course groups: past the group's `choose`, later members of the plan
+  // don't count (completed members are counted first)
+  for (const group of input.courseGroups ?? []) {
+    const completed = group.courseIds.filter(isCompleted)
+    const planned = items
+      .filter(item => group.courseIds.includes(item.courseId) && !isCompleted(item.courseId) && itemByCourse.get(item.courseId) === item)
+      .sort((a, b) => getTermStart(a) - getTermStart(b))
+
+    planned.slice(Math.max(0, group.choose - completed.length)).forEach(item => {
+      const code = courseById.get(item.courseId)?.code ?? item.courseId
+      violations.push({
+        kind: "alternative_conflict",
+        term: describeTerm(item),
+        courseId: item.courseId,
+        message: completed.length >= group.choose
+          ? `${code} isn't needed: ${group.name} is already covered`
+          : `${code} isn't needed: ${group.name} only needs ${group.choose}`,
+      })
+    })
+  }
+
+  // Credit caps: the student's maximum for Fall/Spring, the summer's own cap across its sessions
+  const creditsByTerm = new Map<string, number>()
+  for (const item of items) {
+    const key = item.semester === "Summer" ? `Summer ${item.year}` : describeTerm(item)
+    creditsByTerm.set(key, (creditsByTerm.get(key) ?? 0) + (courseById.get(item.courseId)?.credits ?? 0))
+  }
+  for (const [term, credits] of creditsByTerm) {
+    const [semester, year] = term.split(" ")
+    const cap = semester === "Summer"
+      ? summerTermsByYear.get(Number(year))?.maxCredits
+      : preferences.maxCredits
+    if (cap !== undefined && credits > cap) {
+      violations.push({ kind: "credit_cap", term, courseId: null, message: `${credits} credits is over the ${cap}-credit limit` })
+    }
+  }
+
+  return violations
+}
+
+// Degree requirements the student would still be short on once the plan is
+// done, from an audit that counts every planned course as completed
+export function getUnmetRequirements(audit: DegreeAudit): PlanViolation[] {
+  return audit.rules
+    .filter(rule => rule.status !== "satisfied")
+    .map(rule => ({
+      kind: "unmet_requirement" as const,
+      term: null,
+      courseId: null,
+      message: rule.status === "violated"
+        ? `${rule.name}: ${rule.violations.join("; ")}`
+        : `${rule.name}: ${rule.earned} of ${rule.required} ${rule.unit}`,
+    }))
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_PLANNING_PREFERENCES, getStartTerm, PlanningPreferences, validatePlanningPreferences } from "@/lib/planning-preferences"
+
+function validate(overrides: Record<string, unknown>) {
+  return validatePlanningPreferences({ ...DEFAULT_PLANNING_PREFERENCES, ...overrides } as PlanningPreferences)
+}
+
+describe("validatePlanningPreferences", () => {
+  it("accepts the defaults and a full set of terms", () => {
+    expect(validate({})).toBeNull()
+    expect(validate({ startTerm: "Fall 2027", targetGraduationTerm: "Spring 2030", blockedTerms: ["Summer 2028"] })).toBeNull()
+  })
+
+  it("rejects credit limits that can't be planned", () => {
+    expect(validate({ minCredits: 1.5 })).toBe("Credit limits must be whole numbers")
+    expect(validate({ maxCredits: 0 })).toBe("Credit limits must be whole numbers")
+    expect(validate({ minCredits: 15, maxCredits: 13 })).toBe("Minimum credits can't be more than the maximum")
+    expect(validate({ minCredits: 6, maxCredits: 9 })).toBe("Full-time students need at least 12 credits per term")
+    expect(validate({ minCredits: 6, maxCredits: 9, fullTime: false })).toBeNull()
+  })
+
+  it("rejects terms that don't parse, including ones that aren't strings", () => {
+    expect(validate({ startTerm: "Autumn 2027" })).toBe("Invalid start term")
+    expect(validate({ startTerm: 2027 })).toBe("Invalid start term")
+    expect(validate({ targetGraduationTerm: { semester: "Fall", year: 2029 } })).toBe("Invalid graduation term")
+    expect(validate({ blockedTerms: ["Fall 2027", 2028] })).toBe("Invalid blocked term")
+    expect(validate({ blockedTerms: "Fall 2027" })).toBe("Invalid blocked term")
+  })
+
+  it("rejects a graduation term before the start term", () => {
+    expect(validate({ startTerm: "Fall 2028", targetGraduationTerm: "Spring 2028" }))
+      .toBe("Graduation term must come after the start term")
+  })
+})
+
+describe("getStartTerm", () => {
+  const today = new Date("2026-10-18")
+
+  it("starts at the next term unless a later one is saved", () => {
+    expect(getStartTerm(DEFAULT_PLANNING_PREFERENCES, today)).toMatchObject({ semester: "Spring", year: 2027 })
+    expect(getStartTerm({ ...DEFAULT_PLANNING_PREFERENCES, startTerm: "Fall 2027" }, today)).toMatchObject({ semester: "Fall", year: 2027 })
+    expect(getStartTerm({ ...DEFAULT_PLANNING_PREFERENCES, startTerm: "Fall 2025" }, today)).toMatchObject({ semester: "Spring", year: 2027 })
+  })
+})
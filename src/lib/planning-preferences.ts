@@ -0,0 +1,82 @@
+import { compareTerms, describeTerm, getUpcomingTerms, parseTerm, Term } from "@/lib/terms"
+
+// How a student wants their plan shaped: the credit load per Fall/Spring
+// term, where the plan starts and should end, and terms they can't take
+// classes (co-op, study abroad). Students who never saved any get the
+// defaults, which match the scheduler's old fixed behavior.
+
+// UCF's full-time load for an undergraduate Fall or Spring term
+export const FULL_TIME_CREDITS = 12
+
+export interface PlanningPreferences {
+  minCredits: number
+  maxCredits: number
+  fullTime: boolean
+  startTerm: string | null // "Fall 2026"; null starts at the next term
+  targetGraduationTerm: string | null
+  blockedTerms: string[] // "Fall 2027", ...
+}
+
+export const DEFAULT_PLANNING_PREFERENCES: PlanningPreferences = {
+  minCredits: FULL_TIME_CREDITS,
+  maxCredits: 18,
+  fullTime: true,
+  startTerm: null,
+  targetGraduationTerm: null,
+  blockedTerms: [],
+}
+
+// A saved row (or none) as the preferences the scheduler works from
+export function toPlanningPreferences(record: PlanningPreferences | null | undefined): PlanningPreferences {
+  if (!record) return DEFAULT_PLANNING_PREFERENCES
+
+  return {
+    minCredits: record.minCredits,
+    maxCredits: record.maxCredits,
+    fullTime: record.fullTime,
+    startTerm: record.startTerm,
+    targetGraduationTerm: record.targetGraduationTerm,
+    blockedTerms: record.blockedTerms,
+  }
+}
+
+// Describes what's wrong with a set of preferences, or null when they're usable
+export function validatePlanningPreferences(preferences: PlanningPreferences): string | null {
+  const { minCredits, maxCredits, fullTime, startTerm, targetGraduationTerm, blockedTerms } = preferences
+
+  if (!Number.isInteger(minCredits) || !Number.isInteger(maxCredits) || minCredits < 0 || maxCredits <= 0) {
+    return "Credit limits must be whole numbers"
+  }
+  if (typeof fullTime !== "boolean") return "Invalid full-time setting"
+  if (minCredits > maxCredits) return "Minimum credits can't be more than the maximum"
+  if (fullTime && maxCredits < FULL_TIME_CREDITS) {
+    return `Full-time students need at least ${FULL_TIME_CREDITS} credits per term`
+  }
+
+  // Terms come from request bodies, so anything but a string is invalid rather than parsed
+  const isTerm = (term: unknown) => typeof term === "string" && parseTerm(term) !== null
+  if (startTerm && !isTerm(startTerm)) return "Invalid start term"
+  if (targetGraduationTerm && !isTerm(targetGraduationTerm)) return "Invalid graduation term"
+  const start = startTerm ? parseTerm(startTerm) : null
+  const target = targetGraduationTerm ? parseTerm(targetGraduationTerm) : null
+  if (start && target && compareTerms(target, start) < 0) return "Graduation term must come after the start term"
+  if (!Array.isArray(blockedTerms) || !blockedTerms.every(isTerm)) return "Invalid blocked term"
+
+  return null
+}
+
+// The fewest credits a Fall or Spring term should carry
+export function getMinimumCredits(preferences: PlanningPreferences): number {
+  return preferences.fullTime ? Math.max(preferences.minCredits, FULL_TIME_CREDITS) : preferences.minCredits
+}
+
+// The first term to plan: the saved start term unless it has already passed
+export function getStartTerm(preferences: PlanningPreferences, today = new Date()): Term {
+  const [next] = getUpcomingTerms(1, today)
+  const start = preferences.startTerm ? parseTerm(preferences.startTerm) : null
+  return start && compareTerms(start, next) > 0 ? start : next
+}
+
+export function isBlockedTerm(preferences: PlanningPreferences, term: Term): boolean {
+  return preferences.blockedTerms.includes(describeTerm({ semester: term.semester, year: term.year }))
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+import { meetsMinimumGrade } from "@/lib/grades"
+import { describePrerequisites, isPrerequisiteMet, isPrerequisiteOptionMet, PrerequisiteLink } from "@/lib/prerequisites"
+
+function link(code: string, groupIndex: number, options: Partial<PrerequisiteLink> = {}): PrerequisiteLink {
+  return { groupIndex, prerequisite: { id: code, code }, ...options }
+}
+
+// Completed courses and their grades, checked the way the scheduler does
+function metBy(grades: Record<string, string | null>, satisfiedRequirementIds = new Set<string>()) {
+  return (option: PrerequisiteLink) => isPrerequisiteOptionMet(
+    option,
+    (course, minGrade) => course.id in grades && meetsMinimumGrade(grades[course.id], minGrade),
+    satisfiedRequirementIds
+  )
+}
+
+describe("isPrerequisiteOptionMet", () => {
+  it("holds a course option to its minimum grade", () => {
+    const option = link("MAC2311C", 0, { minGrade: "B" })
+
+    expect(metBy({ MAC2311C: "B" })(option)).toBe(true)
+    expect(metBy({ MAC2311C: "C+" })(option)).toBe(false)
+  })
+
+  it("asks for a C when the option names no grade", () => {
+    const option = link("COP3502C", 0)
+
+    expect(metBy({ COP3502C: "C" })(option)).toBe(true)
+    expect(metBy({ COP3502C: "D" })(option)).toBe(false)
+  })
+
+  it("counts a course the student's placement waives", () => {
+    const option = link("COP2500C", 0, { prerequisite: { id: "COP2500C", code: "COP2500C", waivedById: "placement" } })
+
+    expect(metBy({})(option)).toBe(false)
+    expect(metBy({}, new Set(["placement"]))(option)).toBe(true)
+  })
+
+  it("needs a record for a requirement option", () => {
+    const option = { groupIndex: 0, prerequisite: null, requirement: { id: "consent", name: "Instructor consent" } }
+
+    expect(metBy({})(option)).toBe(false)
+    expect(metBy({}, new Set(["consent"]))(option)).toBe(true)
+  })
+})
+
+describe("isPrerequisiteMet", () => {
+  const links = [link("CIS3360", 0), link("CGS3269", 0), link("COP3502C", 1)]
+
+  it("needs one option from every group", () => {
+    expect(isPrerequisiteMet(links, metBy({ CGS3269: "B", COP3502C: "A" }))).toBe(true)
+    expect(isPrerequisiteMet(links, metBy({ CIS3360: "B", CGS3269: "A" }))).toBe(false)
+  })
+
+  it("describes each group as its options", () => {
+    expect(describePrerequisites([...links, link("MAC2311C", 2, { minGrade: "B" })]))
+      .toEqual(["CIS3360 or CGS3269", "COP3502C", "MAC2311C (B or better)"])
+  })
+})
@@ -0,0 +1,74 @@
+// Prerequisites are stored as an AND of OR-groups: every row carries a
+// groupIndex, rows that share a group are interchangeable options, and every
+// group must be satisfied. A plain "A and B" requirement is just two groups
+// with one option each.
+//
+// An option is either a course (optionally with a minimum grade) or a
+// non-course requirement such as a placement, exam, GPA threshold or
+// instructor consent, which students record as satisfied themselves.
+
+import { DEFAULT_MIN_GRADE } from "@/lib/grades"
+
+export interface PrerequisiteLink {
+  groupIndex: number
+  minGrade?: string | null
+  prerequisite: {
+    id: string
+    code: string
+    waivedById?: string | null
+  } | null
+  requirement?: {
+    id: string
+    name: string
+  } | null
+}
+
+// Group a course's requisite rows by groupIndex, in group order
+export function groupPrerequisites<T extends { groupIndex: number }>(links: T[]): T[][] {
+  const groups = new Map<number, T[]>()
+  for (const link of links) {
+    if (!groups.has(link.groupIndex)) groups.set(link.groupIndex, [])
+    groups.get(link.groupIndex)!.push(link)
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, group]) => group)
+}
+
+// True when at least one option in every group is met
+export function isPrerequisiteMet<T extends PrerequisiteLink>(
+  links: T[] | undefined,
+  isLinkMet: (link: T) => boolean
+): boolean {
+  if (!links || links.length === 0) return true
+  return groupPrerequisites(links).every(group => group.some(isLinkMet))
+}
+
+// Course options defer to isCourseMet, along with the grade the course must
+// have been passed with (the link's own, else "C or better" so a D doesn't
+// unlock the next course), unless a satisfied requirement waives the course
+// (CS Placement for COP2500C); requirement options need a record.
+export function isPrerequisiteOptionMet<T extends PrerequisiteLink>(
+  link: T,
+  isCourseMet: (course: NonNullable<T["prerequisite"]>, minGrade: string) => boolean,
+  satisfiedRequirementIds: Set<string>
+): boolean {
+  if (link.requirement) return satisfiedRequirementIds.has(link.requirement.id)
+  if (!link.prerequisite) return false
+  if (link.prerequisite.waivedById && satisfiedRequirementIds.has(link.prerequisite.waivedById)) return true
+  return isCourseMet(link.prerequisite as NonNullable<T["prerequisite"]>, link.minGrade || DEFAULT_MIN_GRADE)
+}
+
+function describeOption(link: PrerequisiteLink): string {
+  if (link.requirement) return link.requirement.name
+  if (!link.prerequisite) return "Unknown requirement"
+  return link.minGrade ? `${link.prerequisite.code} (${link.minGrade} or better)` : link.prerequisite.code
+}
+
+// Human readable form, e.g. "CIS3360, CGS3269 or CDA3103C"
+export function describePrerequisites<T extends PrerequisiteLink>(links: T[]): string[] {
+  return groupPrerequisites(links).map(group =>
+    group.map(describeOption).join(" or ")
+  )
+}
@@ -0,0 +1,67 @@
+import type { PrismaClient } from "@prisma/client"
+import { resolveCatalogYearId } from "@/lib/catalog-years"
+
+// A student's program (BS CS, BS IT, ...) decides which courses are required.
+// Students who haven't picked one yet fall back to the whole catalog, where
+// every non-elective course counts as required. Either way the courses come
+// from the student's catalog year.
+
+export interface ProgramScope {
+  catalogYearId: string | null
+  programId: string | null
+  programName: string | null
+  requiredCourseIds: Set<string> | null
+}
+
+export interface ProgramStudent {
+  programId: string | null
+  catalogYearId: string | null
+}
+
+export const NO_PROGRAM: ProgramScope = { catalogYearId: null, programId: null, programName: null, requiredCourseIds: null }
+
+export async function getProgramScope(prisma: PrismaClient, student: ProgramStudent): Promise<ProgramScope> {
+  const program = student.programId
+    ? await prisma.program.findUnique({
+        where: { id: student.programId },
+        include: { courses: { select: { courseId: true } } }
+      })
+    : null
+
+  if (!program) {
+    return { ...NO_PROGRAM, catalogYearId: await resolveCatalogYearId(prisma, student.catalogYearId) }
+  }
+
+  return {
+    catalogYearId: program.catalogYearId,
+    programId: program.id,
+    programName: program.name,
+    requiredCourseIds: new Set(program.courses.map(pc => pc.courseId)),
+  }
+}
+
+// Scope for the signed-in student; signed-out requests see the current catalog
+export async function getProgramScopeForEmail(prisma: PrismaClient, email: string | null | undefined): Promise<ProgramScope> {
+  const user = email
+    ? await prisma.user.findUnique({
+        where: { email },
+        select: { programId: true, catalogYearId: true }
+      })
+    : null
+  return getProgramScope(prisma, user ?? { programId: null, catalogYearId: null })
+}
+
+export function isRequiredCourse(course: { id: string; isElective: boolean }, scope: ProgramScope): boolean {
+  return scope.requiredCourseIds ? scope.requiredCourseIds.has(course.id) : !course.isElective
+}
+
+// Limit a catalog to one program: its required courses plus the restricted
+// electives, with isElective rewritten from the program's point of view
+// (COP3503C is required for BS CS but an elective for BS IT)
+export function scopeCoursesToProgram<T extends { id: string; isElective: boolean }>(courses: T[], scope: ProgramScope): T[] {
+  if (!scope.requiredCourseIds) return courses
+
+  return courses
+    .filter(course => isRequiredCourse(course, scope) || course.isElective)
+    .map(course => ({ ...course, isElective: !isRequiredCourse(course, scope) }))
+}
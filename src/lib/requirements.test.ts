@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest"
+import { getAttemptsGpa, getMetGpaRequirementIds } from "@/lib/requirements"
+
+describe("getMetGpaRequirementIds", () => {
+  const requirements = [{ id: "GPA_3_0", minGpa: 3 }, { id: "GPA_3_5", minGpa: 3.5 }, { id: "UNSET", minGpa: null }]
+
+  it("meets the requirements at or below the GPA", () => {
+    expect(getMetGpaRequirementIds(requirements, 3)).toEqual(["GPA_3_0"])
+    expect(getMetGpaRequirementIds(requirements, 2.99)).toEqual([])
+  })
+
+  it("meets none before anything has a letter grade", () => {
+    expect(getMetGpaRequirementIds(requirements, null)).toEqual([])
+  })
+})
+
+describe("getAttemptsGpa", () => {
+  it("computes the GPA after grade forgiveness", () => {
+    const attempt = (id: string, courseId: string, grade: string, year: number, credits: number) =>
+      ({ id, courseId, status: "completed", grade, semester: "Fall", year, createdAt: "2026-01-01", course: { credits } })
+
+    expect(getAttemptsGpa([attempt("1", "A", "D", 2024, 3), attempt("2", "A", "A", 2025, 3), attempt("3", "B", "B", 2025, 3)])).toBe(3.5)
+  })
+})
@@ -0,0 +1,53 @@
+import type { PrismaClient } from "@prisma/client"
+import { CourseAttempt, getGpaAttempts } from "@/lib/course-attempts"
+import { calculateGpa } from "@/lib/grades"
+
+// Non-course requirements a student meets. Placements, exams and consent are
+// records the student keeps; GPA requirements (3.0+ GPA) follow from their
+// grades, so they can't be marked as met by hand.
+
+export const GPA_REQUIREMENT_TYPE = "gpa"
+
+export interface GpaRequirement {
+  id: string
+  minGpa: number | null
+}
+
+// Cumulative GPA of a student's attempts, each weighted by its course's credits
+export function getAttemptsGpa(attempts: (CourseAttempt & { course: { credits: number } })[]): number | null {
+  return calculateGpa(getGpaAttempts(attempts).map(attempt => ({ grade: attempt.grade, credits: attempt.course.credits })))
+}
+
+// The GPA requirements `gpa` meets; none until something has a letter grade
+export function getMetGpaRequirementIds(requirements: GpaRequirement[], gpa: number | null): string[] {
+  if (gpa === null) return []
+  return requirements.filter(r => r.minGpa !== null && gpa >= r.minGpa).map(r => r.id)
+}
+
+// `recordedIds` with GPA requirements decided by `gpa` instead of by the records
+export async function withGpaRequirements(
+  prisma: PrismaClient,
+  recordedIds: Iterable<string>,
+  gpa: number | null
+): Promise<Set<string>> {
+  const gpaRequirements = await prisma.requirement.findMany({
+    where: { type: GPA_REQUIREMENT_TYPE },
+    select: { id: true, minGpa: true }
+  })
+  const gpaRequirementIds = new Set(gpaRequirements.map(r => r.id))
+
+  return new Set([
+    ...[...recordedIds].filter(id => !gpaRequirementIds.has(id)),
+    ...getMetGpaRequirementIds(gpaRequirements, gpa),
+  ])
+}
+
+// Every requirement the student meets, with GPA requirements from their grades
+export async function loadSatisfiedRequirementIds(prisma: PrismaClient, userId: string): Promise<Set<string>> {
+  const [userRequirements, attempts] = await Promise.all([
+    prisma.userRequirement.findMany({ where: { userId, satisfied: true } }),
+    prisma.userCourse.findMany({ where: { userId }, include: { course: { select: { credits: true } } } }),
+  ])
+
+  return withGpaRequirements(prisma, userRequirements.map(ur => ur.requirementId), getAttemptsGpa(attempts))
+}
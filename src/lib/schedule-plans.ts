@@ -0,0 +1,158 @@
+import type { PrismaClient } from "@prisma/client"
+import { SCHEDULE_STRATEGIES } from "@/lib/schedule-strategies"
+
+// Schedules are the student's saved plans. Each change to a plan's courses
+// (generating, regenerating, editing, restoring) replaces its items and
+// records a numbered revision, so any earlier version can be restored.
+
+export interface PlanItem {
+  courseId: string
+  semester: string
+  year: number
+  session?: string | null
+  pinned?: boolean // Kept in its term when the plan is regenerated
+}
+
+// What the schedule page needs for every plan: items with their course and its requisites
+export const PLAN_INCLUDE = {
+  items: {
+    include: {
+      course: {
+        include: {
+          prerequisites: {
+            include: {
+              prerequisite: true
+            }
+          },
+          corequisites: {
+            include: {
+              corequisite: true
+            }
+          }
+        }
+      }
+    }
+  }
+} as const
+
+// "Fastest Graduation", then "Fastest Graduation 2", ... when the name is taken
+export function getUniquePlanName(existingNames: string[], name: string): string {
+  if (!existingNames.includes(name)) return name
+
+  let suffix = 2
+  while (existingNames.includes(`${name} ${suffix}`)) suffix++
+  return `${name} ${suffix}`
+}
+
+// Replace a plan's courses and record the result as its next revision
+export async function savePlanRevision(prisma: PrismaClient, scheduleId: string, items: PlanItem[], note: string) {
+  const data = items.map(item => ({
+    courseId: item.courseId,
+    semester: item.semester,
+    year: item.year,
+    session: item.session ?? null,
+    pinned: item.pinned ?? false,
+  }))
+
+  const latest = await prisma.scheduleRevision.findFirst({
+    where: { scheduleId },
+    orderBy: { number: 'desc' }
+  })
+
+  await prisma.$transaction([
+    prisma.scheduleItem.deleteMany({ where: { scheduleId } }),
+    prisma.scheduleItem.createMany({ data: data.map(item => ({ ...item, scheduleId })) }),
+    prisma.scheduleRevision.create({
+      data: {
+        scheduleId,
+        number: (latest?.number ?? 0) + 1,
+        note,
+        items: { create: data }
+      }
+    }),
+  ])
+}
+
+// Drop the plans an earlier Generate left that the student never touched, so
+// generating again replaces them instead of piling up. Untouched means still
+// on its first revision and its generated name, not primary, archived or shared.
+export async function deleteUntouchedGeneratedPlans(prisma: PrismaClient, userId: string) {
+  const plans = await prisma.schedule.findMany({
+    where: { userId, strategy: { not: null }, isPrimary: false, archived: false, shareToken: null },
+    include: { _count: { select: { revisions: true } } }
+  })
+
+  const untouched = plans.filter(plan => {
+    const generatedName = SCHEDULE_STRATEGIES[plan.strategy!]?.name
+    return plan._count.revisions === 1 && !!generatedName &&
+      (plan.name === generatedName || new RegExp(`^${generatedName} \\d+$`).test(plan.name))
+  })
+
+  if (untouched.length > 0) {
+    await prisma.schedule.deleteMany({ where: { id: { in: untouched.map(plan => plan.id) } } })
+  }
+}
+
+// Make `scheduleId` the student's primary plan, and no other
+export async function setPrimaryPlan(prisma: PrismaClient, userId: string, scheduleId: string) {
+  await prisma.$transaction([
+    prisma.schedule.updateMany({ where: { userId, NOT: { id: scheduleId } }, data: { isPrimary: false } }),
+    prisma.schedule.updateMany({ where: { userId, id: scheduleId }, data: { isPrimary: true, archived: false } }),
+  ])
+}
+
+// Keep a primary plan while the student has active ones: the oldest takes over
+export async function ensurePrimaryPlan(prisma: PrismaClient, userId: string) {
+  const primary = await prisma.schedule.findFirst({ where: { userId, isPrimary: true, archived: false } })
+  if (primary) return
+
+  const oldest = await prisma.schedule.findFirst({
+    where: { userId, archived: false },
+    orderBy: { createdAt: 'asc' }
+  })
+  if (oldest) await setPrimaryPlan(prisma, userId, oldest.id)
+}
+
+export type PlanEditAction = "move" | "add" | "remove" | "swap" | "pin"
+
+// One change a student makes by hand. move and add use the term fields,
+// swap puts replacementCourseId in the elective's place, pin sets `pinned`.
+export interface PlanEdit {
+  action: PlanEditAction
+  courseId: string
+  semester?: string
+  year?: number
+  session?: string | null
+  replacementCourseId?: string
+  pinned?: boolean
+}
+
+// The plan's items after `edit`, or an error when the edit doesn't make sense
+// for this plan (moving a course that isn't in it, adding one twice)
+export function applyPlanEdit(items: PlanItem[], edit: PlanEdit): { items: PlanItem[] } | { error: string } {
+  const planned = items.some(item => item.courseId === edit.courseId)
+  const term = { semester: edit.semester!, year: edit.year!, session: edit.semester === "Summer" ? edit.session ?? null : null }
+
+  switch (edit.action) {
+    case "move":
+      if (!planned) return { error: "Course isn't in this plan" }
+      return { items: items.map(item => item.courseId === edit.courseId ? { ...item, ...term } : item) }
+    case "add":
+      if (planned) return { error: "Course is already in this plan" }
+      return { items: [...items, { courseId: edit.courseId, ...term }] }
+    case "remove":
+      if (!planned) return { error: "Course isn't in this plan" }
+      return { items: items.filter(item => item.courseId !== edit.courseId) }
+    case "swap":
+      if (!planned) return { error: "Course isn't in this plan" }
+      if (!edit.replacementCourseId || items.some(item => item.courseId === edit.replacementCourseId)) {
+        return { error: "Replacement course is already in this plan" }
+      }
+      return {
+        items: items.map(item => item.courseId === edit.courseId ? { ...item, courseId: edit.replacementCourseId! } : item)
+      }
+    case "pin":
+      if (!planned) return { error: "Course isn't in this plan" }
+      return { items: items.map(item => item.courseId === edit.courseId ? { ...item, pinned: !!edit.pinned } : item) }
+  }
+}
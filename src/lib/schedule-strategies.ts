@@ -0,0 +1,145 @@
+import { getStartTerm } from "@/lib/planning-preferences"
+import { generateSchedule, ScheduleResult, SchedulerInput, SummerTerm } from "@/lib/scheduler"
+import { DEFAULT_SUMMER_CREDITS, getTermsFrom } from "@/lib/terms"
+
+// The same remaining courses laid out a few different ways, so students can
+// compare finishing fast against a lighter or steadier load side by side.
+
+// Credit cap for the light-load plan, a part-time schedule
+const LIGHT_LOAD_CREDITS = 9
+
+// Part-time plans run longer, so they look 6 years ahead instead of 4
+const LIGHT_LOAD_HORIZON_TERMS = 18
+
+// Summers the summer-inclusive plan turns on: those in the default 4-year horizon
+const SUMMER_HORIZON_TERMS = 12
+
+export const SCHEDULE_STRATEGIES: Record<string, { name: string, description: string }> = {
+  fastest: {
+    name: "Fastest Graduation",
+    description: "As few terms as your credit limit allows",
+  },
+  balanced: {
+    name: "Balanced Workload",
+    description: "Finishes with the fastest plan, with credits spread evenly across terms",
+  },
+  even: {
+    name: "Even Difficulty",
+    description: "Finishes with the fastest plan, without stacking the hardest courses in one term",
+  },
+  light: {
+    name: "Light Load",
+    description: `Part-time, at most ${LIGHT_LOAD_CREDITS} credits per term`,
+  },
+  summer: {
+    name: "Summer-Inclusive",
+    description: "Takes Summer A and B every year to finish sooner",
+  },
+}
+
+export interface StrategySchedule {
+  strategy: string
+  name: string
+  result: ScheduleResult
+}
+
+// The lowest credit cap that still finishes as soon as `fastest` and fits as many courses
+function generateBalancedSchedule(input: SchedulerInput, fastest: ScheduleResult): ScheduleResult {
+  const totalCredits = fastest.terms.reduce((sum, term) => sum + term.credits, 0)
+  const termCount = fastest.terms.length
+  if (termCount === 0) return fastest
+
+  for (let cap = Math.ceil(totalCredits / termCount); cap < input.preferences.maxCredits; cap++) {
+    const result = generateSchedule({ ...input, preferences: { ...input.preferences, maxCredits: cap } })
+    if (
+      result.terms.length <= termCount &&
+      result.infeasibilities.length <= fastest.infeasibilities.length &&
+      result.pinConflicts.length <= fastest.pinConflicts.length
+    ) {
+      return result
+    }
+  }
+
+  return fastest
+}
+
+// The lowest per-term workload cap that still finishes as soon as `fastest`
+// and fits as many courses, within the student's credit range
+function generateEvenDifficultySchedule(input: SchedulerInput, fastest: ScheduleResult): ScheduleResult {
+  const termCount = fastest.terms.length
+  if (termCount === 0) return fastest
+
+  const totalWorkload = fastest.terms.reduce((sum, term) => sum + term.workload, 0)
+  const heaviestTerm = Math.max(...fastest.terms.map(term => term.workload))
+
+  for (let cap = Math.ceil(totalWorkload / termCount); cap < heaviestTerm; cap++) {
+    const result = generateSchedule({ ...input, maxWorkload: cap })
+    if (
+      result.terms.length <= termCount &&
+      result.infeasibilities.length <= fastest.infeasibilities.length &&
+      result.pinConflicts.length <= fastest.pinConflicts.length
+    ) {
+      return result
+    }
+  }
+
+  return fastest
+}
+
+// Every summer in the plan turned on, keeping the caps and sessions the student already set
+function getAllSummers(input: SchedulerInput): SummerTerm[] {
+  const chosen = new Map(input.summerTerms.map(summer => [summer.year, summer]))
+
+  return getTermsFrom(getStartTerm(input.preferences, input.today), SUMMER_HORIZON_TERMS)
+    .filter(term => term.semester === "Summer")
+    .map(term => chosen.get(term.year) ?? { year: term.year, maxCredits: DEFAULT_SUMMER_CREDITS, sessions: ["A", "B"] })
+}
+
+// A part-time load over a longer horizon
+function getLightLoadInput(input: SchedulerInput): SchedulerInput {
+  return {
+    ...input,
+    preferences: {
+      ...input.preferences,
+      minCredits: Math.min(input.preferences.minCredits, LIGHT_LOAD_CREDITS),
+      maxCredits: Math.min(input.preferences.maxCredits, LIGHT_LOAD_CREDITS),
+      fullTime: false,
+    },
+    horizonTerms: LIGHT_LOAD_HORIZON_TERMS,
+  }
+}
+
+// One strategy's plan; strategies this module doesn't know (duplicated or
+// older plans) get the fastest one
+export function generateStrategySchedule(input: SchedulerInput, strategy: string | null): ScheduleResult {
+  switch (strategy) {
+    case "balanced":
+      return generateBalancedSchedule(input, generateSchedule(input))
+    case "even":
+      return generateEvenDifficultySchedule(input, generateSchedule(input))
+    case "light":
+      return generateSchedule(getLightLoadInput(input))
+    case "summer":
+      return generateSchedule({ ...input, summerTerms: getAllSummers(input) })
+    default:
+      return generateSchedule(input)
+  }
+}
+
+export function generateStrategySchedules(input: SchedulerInput): StrategySchedule[] {
+  const fastest = generateSchedule(input)
+
+  const results: Record<string, ScheduleResult> = {
+    fastest,
+    balanced: generateBalancedSchedule(input, fastest),
+    even: generateEvenDifficultySchedule(input, fastest),
+    light: generateSchedule(getLightLoadInput(input)),
+    summer: generateSchedule({ ...input, summerTerms: getAllSummers(input) }),
+  }
+
+  return Object.entries(SCHEDULE_STRATEGIES).map(([strategy, { name }]) => ({
+    strategy,
+    name,
+    result: results[strategy],
+  }))
+}
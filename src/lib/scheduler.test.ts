@@ -0,0 +1,279 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_PLANNING_PREFERENCES } from "@/lib/planning-preferences"
+import { generateSchedule, SchedulerCourse, SchedulerInput } from "@/lib/scheduler"
+import { describeTerm } from "@/lib/terms"
+
+// Small catalogs built by hand. Today is mid-October 2026, so plans start in
+// Spring 2027 and summers stay out unless a test opts into one.
+
+const TODAY = new Date("2026-10-18")
+
+function course(code: string, options: Partial<SchedulerCourse> = {}): SchedulerCourse {
+  return {
+    id: code,
+    code,
+    credits: 3,
+    isElective: false,
+    waivedById: null,
+    prerequisites: [],
+    corequisites: [],
+    ...options,
+  }
+}
+
+// `code` needs each of `prerequisites`, one group per course
+function after(code: string, prerequisites: string[], options: Partial<SchedulerCourse> = {}): SchedulerCourse {
+  return course(code, {
+    prerequisites: prerequisites.map((id, groupIndex) => ({ groupIndex, prerequisite: { id, code: id } })),
+    ...options,
+  })
+}
+
+function withCorequisite(code: string, corequisite: string, timing: string): SchedulerCourse {
+  return course(code, { corequisites: [{ groupIndex: 0, timing, corequisite: { id: corequisite, code: corequisite } }] })
+}
+
+function plan(courses: SchedulerCourse[], overrides: Partial<SchedulerInput> = {}) {
+  return generateSchedule({
+    courses,
+    electives: [],
+    completions: [],
+    satisfiedRequirementIds: new Set(),
+    summerTerms: [],
+    preferences: DEFAULT_PLANNING_PREFERENCES,
+    today: TODAY,
+    ...overrides,
+  })
+}
+
+// Course code -> "Spring 2027"
+function termsOf(result: ReturnType<typeof generateSchedule>): Record<string, string> {
+  return Object.fromEntries(result.scheduledCourses.map(scheduled => [scheduled.courseId, describeTerm(scheduled)]))
+}
+
+describe("generateSchedule", () => {
+  it("gives the same plan for the same input", () => {
+    const courses = [course("A"), after("B", ["A"]), after("C", ["B"]), course("D"), course("E")]
+
+    expect(plan(courses)).toEqual(plan(courses))
+  })
+
+  it("leaves completed courses off the plan", () => {
+    const result = plan([course("A"), after("B", ["A"])], {
+      completions: [{ courseId: "A", completed: true, grade: "B" }],
+    })
+
+    expect(termsOf(result)).toEqual({ B: "Spring 2027" })
+  })
+
+  it("drops a pin on a course completed since it was pinned", () => {
+    const result = plan([course("A"), after("B", ["A"])], {
+      completions: [{ courseId: "A", completed: true, grade: "B" }],
+      pins: [{ courseId: "A", semester: "Fall", year: 2027 }],
+    })
+
+    expect(result.pinConflicts).toEqual([])
+    expect(termsOf(result)).toEqual({ B: "Spring 2027" })
+  })
+
+  describe("corequisite pairs", () => {
+    it("puts concurrent corequisites in the same term", () => {
+      const result = plan([
+        course("PHY2048"),
+        after("COP3502C", ["PHY2048"]),
+        withCorequisite("PHY2048L", "PHY2048", "concurrent"),
+      ])
+      const terms = termsOf(result)
+
+      expect(terms.PHY2048L).toBe(terms.PHY2048)
+      expect(result.infeasibilities).toEqual([])
+    })
+
+    it("keeps a concurrent pair together when its partner has to wait", () => {
+      const result = plan([
+        course("MAC2311C"),
+        after("PHY2048", ["MAC2311C"]),
+        withCorequisite("PHY2048L", "PHY2048", "concurrent"),
+      ])
+      const terms = termsOf(result)
+
+      expect(terms.PHY2048).toBe("Fall 2027")
+      expect(terms.PHY2048L).toBe("Fall 2027")
+    })
+
+    it("lets a prior-or-concurrent corequisite come first", () => {
+      const result = plan([
+        course("MAC2311C"),
+        after("COT3100", ["MAC2311C"]),
+        withCorequisite("COP3503C", "MAC2311C", "prior_or_concurrent"),
+      ], { preferences: { ...DEFAULT_PLANNING_PREFERENCES, maxCredits: 12, minCredits: 0, fullTime: false } })
+      const terms = termsOf(result)
+
+      expect(["Spring 2027", terms.MAC2311C]).toContain(terms.COP3503C)
+      expect(result.infeasibilities).toEqual([])
+    })
+
+    it("doesn't split a concurrent pair across a credit cap", () => {
+      const result = plan([
+        course("A", { credits: 4 }),
+        withCorequisite("B", "A", "concurrent"),
+        course("C", { credits: 4 }),
+      ], { preferences: { ...DEFAULT_PLANNING_PREFERENCES, minCredits: 0, maxCredits: 7, fullTime: false } })
+      const terms = termsOf(result)
+
+      expect(terms.B).toBe(terms.A)
+      expect(terms.C).not.toBe(terms.A)
+    })
+  })
+
+  describe("alternatives", () => {
+    const courses = [course("ENC3241"), course("ENC3250"), course("COP3502C")]
+    const group = { id: "g1", name: "ENC3241 or ENC3250", choose: 1, courseIds: ["ENC3241", "ENC3250"], chosenIds: [] }
+
+    it("plans one member of a choose-one group", () => {
+      const terms = termsOf(plan(courses, { courseGroups: [group] }))
+
+      expect(terms.ENC3241).toBeDefined()
+      expect(terms.ENC3250).toBeUndefined()
+    })
+
+    it("plans the member the student picked", () => {
+      const terms = termsOf(plan(courses, { courseGroups: [{ ...group, chosenIds: ["ENC3250"] }] }))
+
+      expect(terms.ENC3250).toBeDefined()
+      expect(terms.ENC3241).toBeUndefined()
+    })
+
+    it("counts a completed member toward the group", () => {
+      const terms = termsOf(plan(courses, {
+        courseGroups: [group],
+        completions: [{ courseId: "ENC3250", completed: true, grade: "A" }],
+      }))
+
+      expect(Object.keys(terms)).toEqual(["COP3502C"])
+    })
+  })
+
+  describe("consolidation", () => {
+    it("places the last few available courses together in one term", () => {
+      const result = plan([course("A"), course("B"), course("C")])
+
+      expect(result.terms).toHaveLength(1)
+      expect(result.terms[0].courseIds).toHaveLength(3)
+    })
+
+    it("finishes a prerequisite chain's tail together with the other remaining courses", () => {
+      const result = plan([course("A"), after("B", ["A"]), course("C"), course("D")])
+      const terms = termsOf(result)
+
+      expect(result.terms).toHaveLength(2)
+      expect(terms.B).toBe("Fall 2027")
+    })
+  })
+
+  describe("skip semester", () => {
+    it("doesn't skip a term because only a course or two can be taken in it", () => {
+      const result = plan([course("A"), after("B", ["A"]), after("C", ["B"])])
+
+      expect(termsOf(result)).toEqual({ A: "Spring 2027", B: "Fall 2027", C: "Spring 2028" })
+      expect(result.terms.every(term => term.courseIds.length > 0)).toBe(true)
+    })
+
+    it("skips only the terms the student blocked", () => {
+      const result = plan([course("A"), after("B", ["A"])], {
+        preferences: { ...DEFAULT_PLANNING_PREFERENCES, blockedTerms: ["Fall 2027"] },
+      })
+
+      expect(termsOf(result)).toEqual({ A: "Spring 2027", B: "Spring 2028" })
+    })
+
+    it("plans a summer only when the student opted into it", () => {
+      const everyTerm = ["Fall", "Spring", "Summer"].map(term => ({ term, years: "every", delivery: "in_person" }))
+      const courses = [course("A"), after("B", ["A"], { offerings: everyTerm })]
+
+      expect(termsOf(plan(courses)).B).toBe("Fall 2027")
+      expect(termsOf(plan(courses, { summerTerms: [{ year: 2027, maxCredits: 6, sessions: ["C"] }] })).B).toBe("Summer C 2027")
+    })
+  })
+
+  describe("shortest plan", () => {
+    const chain = [course("A"), after("B", ["A"]), after("C", ["B"]), after("D", ["C"])]
+    const fillers = ["E", "F", "G", "H", "I", "J"].map(code => course(code))
+    const nineCredits = { ...DEFAULT_PLANNING_PREFERENCES, minCredits: 0, maxCredits: 9, fullTime: false }
+
+    it("meets every prerequisite and credit cap", () => {
+      const result = plan([...chain, ...fillers], { preferences: nineCredits })
+      const slotOf = new Map(result.terms.flatMap((term, slot) => term.courseIds.map(id => [id, slot] as const)))
+
+      for (const scheduled of [...chain, ...fillers]) {
+        for (const link of scheduled.prerequisites) {
+          expect(slotOf.get(link.prerequisite!.id)).toBeLessThan(slotOf.get(scheduled.id)!)
+        }
+      }
+      expect(result.terms.every(term => term.credits <= 9)).toBe(true)
+      expect(result.scheduledCourses).toHaveLength(10)
+    })
+
+    it("finishes as soon as the longest prerequisite chain allows, and says so", () => {
+      const result = plan([...chain, ...fillers], { preferences: nineCredits })
+
+      expect(result.terms).toHaveLength(4)
+      expect(result.optimal).toBe(true)
+    })
+
+    it("finishes as soon as the credit cap allows, and says so", () => {
+      const result = plan(fillers, { preferences: nineCredits })
+
+      expect(result.terms).toHaveLength(2)
+      expect(result.optimal).toBe(true)
+    })
+
+    it("doesn't claim a plan is shortest when the bounds can't prove it", () => {
+      // 12 credits would fit two 7-credit terms, but only one 4-credit course fits in each
+      const result = plan(["A", "B", "C"].map(code => course(code, { credits: 4 })), {
+        preferences: { ...nineCredits, maxCredits: 7 },
+      })
+
+      expect(result.terms).toHaveLength(3)
+      expect(result.optimal).toBe(false)
+    })
+
+    it("doesn't claim a plan is shortest when the search passed over ways to fill a term", () => {
+      const result = plan([
+        course("A"),
+        after("B", ["A"], { credits: 2 }),
+        course("C", { credits: 2 }),
+        course("D", { credits: 4 }),
+        course("E", { credits: 4 }),
+        course("F"),
+        course("G"),
+      ], { preferences: { ...nineCredits, maxCredits: 7 } })
+
+      expect(result.terms).toHaveLength(3)
+      expect(result.optimal).toBe(false)
+    })
+  })
+
+  describe("infeasibility", () => {
+    it("reports a course whose prerequisite isn't completed or in the program", () => {
+      const result = plan([after("B", ["A"])])
+
+      expect(result.scheduledCourses).toEqual([])
+      expect(result.infeasibilities).toEqual([expect.objectContaining({ courseId: "B", reason: "missing_prerequisite" })])
+    })
+
+    it("reports a course that runs in none of the planned terms", () => {
+      const result = plan([course("A", { offerings: [{ term: "Summer", years: "every", delivery: "in_person" }] })])
+
+      expect(result.infeasibilities).toEqual([expect.objectContaining({ courseId: "A", reason: "not_offered" })])
+    })
+
+    it("reports a course too big for any term's credit cap", () => {
+      const result = plan([course("A", { credits: 4 }), withCorequisite("B", "A", "concurrent")], {
+        preferences: { ...DEFAULT_PLANNING_PREFERENCES, minCredits: 0, maxCredits: 6, fullTime: false },
+      })
+
+      expect(result.infeasibilities.map(infeasibility => infeasibility.reason)).toContain("exceeds_credit_cap")
+    })
+  })
+})
@@ -0,0 +1,742 @@
+import {
+  describePrerequisites,
+  groupPrerequisites,
+  isPrerequisiteMet,
+  isPrerequisiteOptionMet,
+  PrerequisiteLink,
+} from "@/lib/prerequisites"
+import { allowsPriorCompletion, CorequisiteLink, describeCorequisites, groupCorequisites, isCorequisiteGroupMet } from "@/lib/corequisites"
+import { DEFAULT_MIN_GRADE, meetsMinimumGrade } from "@/lib/grades"
+import { CourseOfferingRecord, describeOfferings, isOfferedIn } from "@/lib/offerings"
+import { getMinimumCredits, getStartTerm, isBlockedTerm, PlanningPreferences } from "@/lib/planning-preferences"
+import { DEFAULT_WORKLOAD, sumWorkload } from "@/lib/workload"
+import {
+  compareTerms,
+  countTermsThrough,
+  describeTerm,
+  getTermEnd,
+  getTermStart,
+  getTermsFrom,
+  parseTerm,
+  Term,
+} from "@/lib/terms"
+
+// Lays the courses a student still needs out over upcoming terms, respecting
+// prerequisites, corequisites, offerings, summers and the student's planning
+// preferences. Everything it depends on (catalog, history, today's date) comes
+// in through SchedulerInput, so the same input always gives the same plan.
+
+export interface SchedulerCourse {
+  id: string
+  code: string
+  credits: number
+  isElective: boolean
+  waivedById: string | null
+  prerequisites: PrerequisiteLink[]
+  corequisites: CorequisiteLink[]
+  offerings?: CourseOfferingRecord[]
+  workload?: number // 1 (light) to 5 (heaviest); unrated courses count as average
+}
+
+// One recorded attempt from the student's history
+export interface SchedulerCompletion {
+  courseId: string
+  completed: boolean
+  grade?: string | null
+}
+
+export interface SummerTerm {
+  year: number
+  maxCredits: number
+  sessions: string[]
+}
+
+// Courses that stand in for each other; a program requiring any of them needs
+// `choose` in all (one of ENC3241 or ENC3250)
+export interface SchedulerCourseGroup {
+  id: string
+  name: string
+  choose: number
+  courseIds: string[]
+  chosenIds: string[] // The members the student picked to plan
+}
+
+export interface SchedulerInput {
+  courses: SchedulerCourse[] // The student's program, required courses and electives
+  electives: SchedulerCourse[] // Electives chosen for this plan
+  completions: SchedulerCompletion[]
+  satisfiedRequirementIds: Set<string> // Placements, exams, GPA gates and consents on record
+  summerTerms: SummerTerm[] // Summers the student opted into
+  preferences: PlanningPreferences
+  today: Date
+  horizonTerms?: number // How many terms ahead to plan (default 4 years)
+  pins?: ScheduledCourse[] // Courses the student pinned to a term; the rest is planned around them
+  courseGroups?: SchedulerCourseGroup[]
+  maxWorkload?: number // Highest total workload score a term may carry; unlimited when unset
+}
+
+export type ScheduledCourse = Term & { courseId: string }
+
+export interface PlannedTerm {
+  term: Term
+  courseIds: string[]
+  credits: number
+  workload: number // Sum of the courses' workload scores
+  belowMinimum: boolean // A Fall/Spring term (not the last) under the student's minimum load
+}
+
+export type InfeasibilityReason =
+  | "missing_prerequisite" // No option of some prerequisite group is completed, on record or in the plan
+  | "prerequisite_cycle"
+  | "not_offered" // Runs in none of the planned terms
+  | "blocked_by_course" // Needs a course that couldn't be scheduled either
+  | "corequisite_unavailable"
+  | "exceeds_credit_cap" // Too many credits together with its corequisites for any term
+  | "out_of_terms" // Feasible, but doesn't fit before the plan ends
+
+export interface Infeasibility {
+  courseId: string
+  reason: InfeasibilityReason
+  detail: string
+}
+
+// A pin the plan can't honor
+export interface PinConflict {
+  courseId: string | null // null when the pins of one term together go over its credit cap
+  term: string // "Fall 2027"
+  detail: string
+}
+
+export interface ScheduleResult {
+  scheduledCourses: ScheduledCourse[]
+  terms: PlannedTerm[] // Every term through the last one with a course
+  infeasibilities: Infeasibility[] // Why each course left off the plan couldn't be scheduled
+  runsPastTarget: boolean // Some course lands after the target graduation term
+  // The search ran to the end without dropping fills or running out of steps,
+  // and the plan is as short as the scheduled courses' prerequisite chains and
+  // the credit caps allow. False means it's the shortest plan the search found,
+  // and a shorter one may exist.
+  optimal: boolean
+  pinConflicts: PinConflict[] // Pins that don't fit; a plan with any shouldn't be saved
+}
+
+// How many ways to fill a term the search tries before backtracking further
+const MAX_BRANCHING = 4
+
+// Search steps allowed across all horizons; past it the best plan so far stands
+const MAX_SEARCH_NODES = 5000
+
+// Plan 4 years ahead (3 semesters per year) unless asked for more
+const DEFAULT_HORIZON_TERMS = 12
+
+export function generateSchedule(input: SchedulerInput): ScheduleResult {
+  const { courses, electives, completions, satisfiedRequirementIds, summerTerms, preferences, today } = input
+  const horizonTerms = input.horizonTerms ?? DEFAULT_HORIZON_TERMS
+  const pins = input.pins ?? []
+  const pinnedIds = new Set(pins.map(pin => pin.courseId))
+
+  // Completions below a C (or failed) have to be retaken, so they stay on the plan
+  const passedCourses = completions.filter(uc => uc.completed && meetsMinimumGrade(uc.grade, DEFAULT_MIN_GRADE))
+  const completedCourseIds = new Set(passedCourses.map(uc => uc.courseId))
+  const completedGrades = new Map(passedCourses.map(uc => [uc.courseId, uc.grade]))
+
+  // A satisfied waiver (e.g. CS Placement for COP2500C) stands in for the course
+  const isWaived = (course: SchedulerCourse) =>
+    course.waivedById !== null && satisfiedRequirementIds.has(course.waivedById)
+
+  // Step 1: Separate required courses using isElective field
+  const allRequiredCourses = courses.filter(course =>
+    !course.isElective && !completedCourseIds.has(course.id) && !isWaived(course)
+  )
+
+  // Step 2: Course groups. Completed members count toward the group's
+  // `choose`; the rest is filled with pinned members, then the ones the
+  // student picked, then required ones in catalog order. Other members are
+  // left off, and a picked elective member is planned like a required course.
+  const groupPicks = new Set<string>()
+  const groupDrops = new Set<string>()
+  for (const group of input.courseGroups ?? []) {
+    const members = courses.filter(course => group.courseIds.includes(course.id))
+    if (!members.some(course => !course.isElective)) continue
+
+    const done = group.courseIds.filter(id => completedCourseIds.has(id)).length +
+      members.filter(course => !completedCourseIds.has(course.id) && isWaived(course)).length
+    const rank = (course: SchedulerCourse) =>
+      pinnedIds.has(course.id) ? 0 : group.chosenIds.includes(course.id) ? 1 : course.isElective ? 3 : 2
+    const open = members
+      .filter(course => !completedCourseIds.has(course.id) && !isWaived(course))
+      .sort((a, b) => rank(a) - rank(b))
+
+    open.forEach((course, index) => (index < group.choose - done ? groupPicks : groupDrops).add(course.id))
+  }
+
+  const requiredCoursesFiltered = [
+    ...allRequiredCourses.filter(course => groupPicks.has(course.id) || !groupDrops.has(course.id)),
+    ...courses.filter(course => course.isElective && groupPicks.has(course.id)),
+  ]
+
+  // Step 3: Combine all courses to schedule (required + selected electives),
+  // plus pinned courses that weren't picked (an elective already registered for)
+  const plannedCourses = [
+    ...requiredCoursesFiltered,
+    ...electives.filter(e => !completedCourseIds.has(e.id) && !groupPicks.has(e.id))
+  ]
+  const allCoursesToSchedule = [
+    ...plannedCourses,
+    ...courses.filter(course =>
+      pinnedIds.has(course.id) && !completedCourseIds.has(course.id) && !plannedCourses.some(c => c.id === course.id)
+    )
+  ]
+
+  // Step 4: Create prerequisite and corequisite mappings
+  const prerequisiteMap = new Map<string, PrerequisiteLink[]>()
+  const corequisiteMap = new Map<string, CorequisiteLink[]>()
+
+  allCoursesToSchedule.forEach(course => {
+    if (course.prerequisites && course.prerequisites.length > 0) {
+      prerequisiteMap.set(course.id, course.prerequisites)
+    }
+    if (course.corequisites && course.corequisites.length > 0) {
+      corequisiteMap.set(course.id, course.corequisites)
+    }
+  })
+
+  // Step 5: Generate semester timeline from the student's start term, leaving
+  // out blocked terms (co-op, study abroad). Summers are only planned when the
+  // student opted in, one slot per session they picked (Summer A, C, B order)
+  const summerTermsByYear = new Map(summerTerms.map(summer => [summer.year, summer]))
+  const startTerm = getStartTerm(preferences, today)
+  const targetTerm = preferences.targetGraduationTerm ? parseTerm(preferences.targetGraduationTerm) : null
+  const termsToTarget = targetTerm ? countTermsThrough(startTerm, targetTerm) : 0
+  const maxSemesters = Math.max(horizonTerms, termsToTarget)
+  const semesterPlan: Term[] = getTermsFrom(startTerm, maxSemesters).flatMap(term => {
+    if (isBlockedTerm(preferences, term)) return []
+    if (term.semester !== 'Summer') return [term]
+
+    const summer = summerTermsByYear.get(term.year)
+    if (!summer) return []
+    return ['A', 'C', 'B']
+      .filter(session => summer.sessions.includes(session))
+      .map(session => ({ ...term, session }))
+  })
+
+  // Step 6: Find the plan that finishes in the fewest terms. A greedy pass
+  // (courses on the longest prerequisite chains first) gives a first plan;
+  // then shorter horizons are searched with backtracking, pruned by each
+  // course's critical path and by the credits left to fit. Every placement
+  // goes through the same prerequisite, corequisite, offering and credit cap
+  // checks, so any plan found satisfies all of them.
+  const slots = semesterPlan
+  const slotStarts = slots.map(getTermStart)
+  const slotEnds = slots.map(getTermEnd)
+  const courseById = new Map(allCoursesToSchedule.map(course => [course.id, course]))
+  const minimumCredits = getMinimumCredits(preferences)
+
+  const isCompletedCourse = (courseId: string) => completedCourseIds.has(courseId)
+
+  // Pinned courses sit in their term from the start and never move. A pin
+  // that can't be honored (its term isn't planned, the course doesn't run
+  // then) is reported and the course planned like any other. Pins on courses
+  // the student has since completed are dropped: there's nothing to plan.
+  const pinConflicts: PinConflict[] = []
+  const pinnedAt = new Map<string, number>()
+  for (const pin of pins) {
+    if (isCompletedCourse(pin.courseId)) continue
+
+    const conflict = (detail: string) => pinConflicts.push({ courseId: pin.courseId, term: describeTerm(pin), detail })
+    const course = courseById.get(pin.courseId)
+    const slot = slots.findIndex(term =>
+      term.semester === pin.semester && term.year === pin.year && (!pin.session || term.session === pin.session)
+    )
+
+    if (!course) conflict("Isn't part of your program")
+    else if (slot === -1) conflict(`${describeTerm(pin)} isn't in the plan: it's before your start term, a term off or a summer you haven't turned on`)
+    else if (!isOfferedIn(course.offerings, slots[slot])) conflict(`Isn't offered then (${describeOfferings(course.offerings)})`)
+    else pinnedAt.set(course.id, slot)
+  }
+
+  const workloadOf = (courseId: string) => courseById.get(courseId)?.workload ?? DEFAULT_WORKLOAD
+
+  // Pins of one term (or one summer, across its sessions) have to fit its cap on their own
+  const pinnedCredits = slots.map(() => 0)
+  const pinnedWorkload = slots.map(() => 0)
+  const pinnedTermCredits = new Map<string, number>()
+  pinnedAt.forEach((slot, courseId) => {
+    const { semester, year } = slots[slot]
+    const term = semester === 'Summer' ? `Summer ${year}` : describeTerm(slots[slot])
+    pinnedCredits[slot] += courseById.get(courseId)!.credits
+    pinnedWorkload[slot] += workloadOf(courseId)
+    pinnedTermCredits.set(term, (pinnedTermCredits.get(term) ?? 0) + courseById.get(courseId)!.credits)
+  })
+  pinnedTermCredits.forEach((credits, term) => {
+    const [semester, year] = term.split(' ')
+    const cap = semester === 'Summer' ? summerTermsByYear.get(Number(year))!.maxCredits : preferences.maxCredits
+    if (credits > cap) {
+      pinConflicts.push({ courseId: null, term, detail: `Pinned courses add up to ${credits} credits; the limit is ${cap}` })
+    }
+  })
+
+  // Prerequisite groups the student's record doesn't already meet
+  const isStaticallyMet = (link: PrerequisiteLink) =>
+    isPrerequisiteOptionMet(link, (prerequisite, minGrade) =>
+      isCompletedCourse(prerequisite.id) && meetsMinimumGrade(completedGrades.get(prerequisite.id), minGrade),
+      satisfiedRequirementIds
+    )
+  const openGroups = new Map(allCoursesToSchedule.map(course => [
+    course.id,
+    groupPrerequisites(prerequisiteMap.get(course.id) || []).filter(group => !group.some(isStaticallyMet)),
+  ]))
+  // The options of a group this plan could provide
+  const plannedOptions = (group: PrerequisiteLink[]) =>
+    group.flatMap(link => link.prerequisite && courseById.has(link.prerequisite.id) ? [link.prerequisite.id] : [])
+
+  // Dependents of each course; "forced" when the course is the only way to meet the group
+  const dependents = new Map<string, string[]>()
+  const forcedDependents = new Map<string, string[]>()
+  for (const course of allCoursesToSchedule) {
+    for (const group of openGroups.get(course.id)!) {
+      const options = plannedOptions(group)
+      for (const id of options) dependents.set(id, [...(dependents.get(id) || []), course.id])
+      if (options.length === 1) forcedDependents.set(options[0], [...(forcedDependents.get(options[0]) || []), course.id])
+    }
+  }
+
+  // Terms that must follow a course: the longest chain of forced dependents
+  const tails = new Map<string, number>()
+  const getTail = (courseId: string, visiting = new Set<string>()): number => {
+    if (tails.has(courseId)) return tails.get(courseId)!
+    if (visiting.has(courseId)) return 0
+    visiting.add(courseId)
+    const tail = Math.max(0, ...(forcedDependents.get(courseId) || []).map(id => 1 + getTail(id, visiting)))
+    visiting.delete(courseId)
+    tails.set(courseId, tail)
+    return tail
+  }
+
+  // Earliest term each course could be taken ignoring credit caps (Infinity
+  // when it never can be), found by relaxing until nothing moves
+  const earliest = new Map(allCoursesToSchedule.map(course => [course.id, pinnedAt.get(course.id) ?? Infinity]))
+  for (let changed = true; changed;) {
+    changed = false
+    for (const course of allCoursesToSchedule) {
+      if (pinnedAt.has(course.id)) continue
+      const readyAt = Math.max(-Infinity, ...openGroups.get(course.id)!.map(group =>
+        Math.min(Infinity, ...plannedOptions(group).map(id => {
+          const slot = earliest.get(id)!
+          return slot === Infinity ? Infinity : slotEnds[slot]
+        }))
+      ))
+      const slot = slots.findIndex((term, index) => slotStarts[index] >= readyAt && isOfferedIn(course.offerings, term))
+      if (slot !== -1 && slot < earliest.get(course.id)!) {
+        earliest.set(course.id, slot)
+        changed = true
+      }
+    }
+  }
+
+  // Latest slot a course can take for a pinned course after it to have its
+  // prerequisites, following groups only one course in the plan can meet
+  const deadlines = new Map<string, number>()
+  const requireBefore = (courseId: string, slot: number) => {
+    for (const group of openGroups.get(courseId)!) {
+      const options = plannedOptions(group)
+      if (options.length !== 1 || pinnedAt.has(options[0])) continue
+
+      let latest = slot - 1
+      while (latest >= 0 && slotEnds[latest] > slotStarts[slot]) latest--
+      if (latest >= (deadlines.get(options[0]) ?? Infinity)) continue
+      deadlines.set(options[0], latest)
+      if (latest >= 0) requireBefore(options[0], latest)
+    }
+  }
+  pinnedAt.forEach((slot, courseId) => requireBefore(courseId, slot))
+
+  // A concurrent corequisite only one course can meet is held for its pinned partner's term
+  const heldFor = new Map<string, number>()
+  pinnedAt.forEach((slot, courseId) => {
+    for (const group of groupCorequisites(corequisiteMap.get(courseId) || [])) {
+      if (allowsPriorCompletion(group)) continue
+      if (group.some(link => isCompletedCourse(link.corequisite.id) || pinnedAt.has(link.corequisite.id))) continue
+
+      const options = group.map(link => link.corequisite.id).filter(id => courseById.has(id))
+      if (options.length !== 1) continue
+      heldFor.set(options[0], slot)
+      deadlines.set(options[0], Math.min(slot, deadlines.get(options[0]) ?? Infinity))
+      requireBefore(options[0], slot)
+    }
+  })
+  const getDeadline = (courseId: string) => deadlines.get(courseId) ?? slots.length
+
+  // Most critical first: due before a pinned course, then longest forced
+  // chain, then most dependents, then catalog order
+  const byPriority = [...allCoursesToSchedule].sort((a, b) =>
+    getDeadline(a.id) - getDeadline(b.id) ||
+    getTail(b.id) - getTail(a.id) ||
+    (dependents.get(b.id)?.length ?? 0) - (dependents.get(a.id)?.length ?? 0)
+  )
+
+  // Search state: the slot each course is placed in, and credits used per summer
+  const placedAt = new Map<string, number>()
+  const summerCredits = new Map<number, number>()
+
+  // Finished by the time a term starting at `start` begins (Summer A counts for Summer B)
+  const isDoneBy = (courseId: string, start: number) =>
+    isCompletedCourse(courseId) || (placedAt.has(courseId) && slotEnds[placedAt.get(courseId)!] <= start)
+
+  // Summer sessions share the credit cap the student set for that summer
+  const getSlotCap = (slot: number) => {
+    const { semester, year } = slots[slot]
+    return semester === 'Summer'
+      ? summerTermsByYear.get(year)!.maxCredits - (summerCredits.get(year) ?? 0)
+      : preferences.maxCredits - pinnedCredits[slot]
+  }
+
+  // Collect the courses that must go into the same term as `course`: every
+  // corequisite group that isn't already met pulls in one available option,
+  // and those options pull in their own corequisites in turn. Returns null
+  // when a required partner can't be taken this term.
+  const collectCorequisiteBundle = (
+    course: SchedulerCourse,
+    availableCourses: SchedulerCourse[],
+    plannedThisTerm: Set<string>,
+    start: number
+  ) => {
+    const isPlannedEarlier = (courseId: string) => isDoneBy(courseId, start)
+    const bundle: SchedulerCourse[] = []
+    const queue: SchedulerCourse[] = [course]
+
+    while (queue.length > 0) {
+      const current = queue.shift()!
+      if (bundle.some(c => c.id === current.id)) continue
+      if (!availableCourses.some(c => c.id === current.id)) return null
+      bundle.push(current)
+
+      // Courses that have to be taken alongside this one come with it, so
+      // placing it first doesn't strand them in a later term
+      for (const partner of availableCourses) {
+        if (plannedThisTerm.has(partner.id) || bundle.some(c => c.id === partner.id) || queue.some(c => c.id === partner.id)) continue
+        const needsCurrent = groupCorequisites(corequisiteMap.get(partner.id) || []).some(group =>
+          !allowsPriorCompletion(group) &&
+          group.some(link => link.corequisite.id === current.id) &&
+          !group.some(link => isCompletedCourse(link.corequisite.id) || plannedThisTerm.has(link.corequisite.id))
+        )
+        if (needsCurrent) queue.push(partner)
+      }
+
+      for (const group of groupCorequisites(corequisiteMap.get(current.id) || [])) {
+        // Completed counts for every group; an earlier term only for prior_or_concurrent
+        if (isCorequisiteGroupMet(group, isCompletedCourse, isPlannedEarlier)) continue
+
+        const optionIds = group.map(link => link.corequisite.id)
+        const alreadyInTerm = optionIds.some(id =>
+          plannedThisTerm.has(id) || bundle.some(c => c.id === id) || queue.some(c => c.id === id)
+        )
+        if (alreadyInTerm) continue
+
+        // Options that aren't part of this plan can't be paired (e.g. a course outside the catalog),
+        // but one planned in another term can't be taken alongside this one anymore
+        const pairableOptions = optionIds.filter(id => !placedAt.has(id) && courseById.has(id))
+        if (pairableOptions.length === 0) {
+          if (optionIds.some(id => placedAt.has(id))) return null
+          continue
+        }
+
+        const option = availableCourses.find(c => pairableOptions.includes(c.id))
+        if (!option) return null
+        queue.push(option)
+      }
+    }
+
+    return bundle
+  }
+
+  // Courses that can go in a slot (offered, prerequisites met, not yet placed), most critical first
+  const getAvailableCourses = (slot: number) => byPriority.filter(course => {
+    if (placedAt.has(course.id)) return false
+    if (heldFor.has(course.id) && heldFor.get(course.id) !== slot) return false
+    if (!isOfferedIn(course.offerings, slots[slot])) return false
+
+    // Every prerequisite group needs at least one option completed or scheduled earlier,
+    // or a placement/exam/GPA/consent requirement the student has on record.
+    // Completed options also need the grade the prerequisite asks for.
+    return isPrerequisiteMet(prerequisiteMap.get(course.id), p =>
+      isPrerequisiteOptionMet(p, (prerequisite, minGrade) =>
+        isCompletedCourse(prerequisite.id)
+          ? meetsMinimumGrade(completedGrades.get(prerequisite.id), minGrade)
+          : isDoneBy(prerequisite.id, slotStarts[slot]),
+        satisfiedRequirementIds
+      )
+    )
+  })
+
+  // Add courses (with their corequisite bundles) in order while they fit
+  // under the slot's credit and workload caps, starting with partners of
+  // courses pinned there
+  const fillSlot = (orderedCourses: SchedulerCourse[], slot: number) => {
+    const maxCredits = getSlotCap(slot)
+    const maxWorkload = (input.maxWorkload ?? Infinity) - pinnedWorkload[slot]
+    const coursesToSchedule: SchedulerCourse[] = []
+    const pinnedHere = allCoursesToSchedule.filter(course => pinnedAt.get(course.id) === slot)
+    const processedCoreqs = new Set(pinnedHere.map(course => course.id))
+    let currentCredits = 0
+    let currentWorkload = 0
+
+    const partners = pinnedHere.flatMap(pin =>
+      collectCorequisiteBundle(pin, [pin, ...orderedCourses], processedCoreqs, slotStarts[slot])?.slice(1) ?? []
+    )
+
+    for (const course of [...partners, ...orderedCourses.filter(c => !partners.includes(c))]) {
+      if (processedCoreqs.has(course.id)) continue
+
+      const bundle = collectCorequisiteBundle(course, orderedCourses, processedCoreqs, slotStarts[slot])
+      if (!bundle) continue
+
+      const totalCredits = currentCredits + bundle.reduce((sum, c) => sum + c.credits, 0)
+      const totalWorkload = currentWorkload + bundle.reduce((sum, c) => sum + workloadOf(c.id), 0)
+      if (totalCredits <= maxCredits && totalWorkload <= maxWorkload) {
+        for (const bundledCourse of bundle) {
+          coursesToSchedule.push(bundledCourse)
+          currentCredits += bundledCourse.credits
+          currentWorkload += workloadOf(bundledCourse.id)
+          processedCoreqs.add(bundledCourse.id)
+        }
+      }
+    }
+
+    return coursesToSchedule
+  }
+
+  // Set once the search passes over a fill; it then can't rule out shorter plans
+  let pruned = false
+
+  // Distinct ways to fill a slot: the greedy fill, then fills led by each
+  // other available course in turn
+  const getCandidateFills = (slot: number) => {
+    const availableCourses = getAvailableCourses(slot)
+    const fills: SchedulerCourse[][] = []
+    const seen = new Set<string>()
+
+    for (const lead of [null, ...availableCourses]) {
+      const ordered = lead ? [lead, ...availableCourses.filter(c => c !== lead)] : availableCourses
+      const fill = fillSlot(ordered, slot)
+      const key = fill.map(c => c.id).sort().join(',')
+      if (seen.has(key)) continue
+      seen.add(key)
+      fills.push(fill)
+      if (fills.length >= MAX_BRANCHING) {
+        if (lead !== availableCourses[availableCourses.length - 1]) pruned = true
+        break
+      }
+    }
+
+    return fills
+  }
+
+  const place = (fill: SchedulerCourse[], slot: number, sign: 1 | -1) => {
+    const { semester, year } = slots[slot]
+    for (const course of fill) {
+      if (sign === 1) placedAt.set(course.id, slot)
+      else placedAt.delete(course.id)
+      if (semester === 'Summer') summerCredits.set(year, (summerCredits.get(year) ?? 0) + sign * course.credits)
+    }
+  }
+
+  const resetState = () => {
+    placedAt.clear()
+    summerCredits.clear()
+    pinnedAt.forEach((slot, courseId) => place([courseById.get(courseId)!], slot, 1))
+  }
+
+  // Pinned courses whose prerequisites or corequisites the placement doesn't provide in time
+  const getPlacementConflicts = (): PinConflict[] => [...pinnedAt].flatMap(([courseId, slot]) => {
+    const term = describeTerm(slots[slot])
+    const isAlongside = (id: string) => placedAt.has(id) &&
+      slotStarts[placedAt.get(id)!] < slotEnds[slot] && slotStarts[slot] < slotEnds[placedAt.get(id)!]
+
+    const missingPrerequisites = openGroups.get(courseId)!
+      .filter(group => !group.some(link => link.prerequisite && isDoneBy(link.prerequisite.id, slotStarts[slot])))
+      .map(group => ({ courseId, term, detail: `Needs ${describePrerequisites(group)[0]} in an earlier term` }))
+
+    const missingCorequisites = groupCorequisites(corequisiteMap.get(courseId) || [])
+      .filter(group =>
+        !group.some(link => isAlongside(link.corequisite.id)) &&
+        !isCorequisiteGroupMet(group, isCompletedCourse, id => isDoneBy(id, slotStarts[slot]))
+      )
+      .map(group => ({ courseId, term, detail: `Has to be taken with ${describeCorequisites(group)[0]}` }))
+
+    return [...missingPrerequisites, ...missingCorequisites]
+  })
+
+  // First plan: the greedy fill in every slot
+  resetState()
+  for (let slot = 0; slot < slots.length; slot++) {
+    place(getCandidateFills(slot)[0], slot, 1)
+  }
+  let bestPlacement = new Map(placedAt)
+
+  // Courses the greedy plan placed; shorter plans have to place all of them
+  const goal = allCoursesToSchedule.filter(course => bestPlacement.has(course.id))
+  // When the greedy plan breaks a pin, every horizon is searched for one that keeps them all
+  const greedyLength = getPlacementConflicts().length > 0
+    ? slots.length + 1
+    : Math.max(0, ...bestPlacement.values()) + 1
+
+  // Most credits slots [from, horizon) can still take
+  const getCapacity = (from: number, horizon: number) => {
+    let capacity = 0
+    const summers = new Set<number>()
+    for (let slot = from; slot < horizon; slot++) {
+      const { semester, year } = slots[slot]
+      if (semester !== 'Summer') capacity += getSlotCap(slot)
+      else if (!summers.has(year)) {
+        summers.add(year)
+        capacity += getSlotCap(slot)
+      }
+    }
+    return capacity
+  }
+
+  // No plan can be shorter than the longest prerequisite chain, or than the
+  // terms it takes for the credit caps to hold every course
+  const goalCredits = goal.reduce((sum, course) => sum + course.credits, 0)
+  let lowerBound = Math.max(1, ...goal.map(course => earliest.get(course.id)! + getTail(course.id) + 1))
+  while (lowerBound < slots.length && getCapacity(0, lowerBound) < goalCredits) lowerBound++
+
+  // Only fills the search passes over count, not the greedy plan's
+  pruned = false
+  let nodes = 0
+  const failedStates = new Set<string>()
+
+  // Place every goal course in slots [slot, horizon), backtracking over candidate fills
+  const search = (slot: number, horizon: number): boolean => {
+    const remaining = goal.filter(course => !placedAt.has(course.id))
+    if (remaining.length === 0) return getPlacementConflicts().length === 0
+    if (slot >= horizon || nodes++ >= MAX_SEARCH_NODES) return false
+
+    // A course (and its forced chain after it) that can no longer finish in
+    // time, or that had to come before a pinned course
+    if (remaining.some(course => Math.max(slot, earliest.get(course.id)!) + getTail(course.id) >= horizon)) return false
+    if (remaining.some(course => getDeadline(course.id) < slot)) return false
+    if (remaining.reduce((sum, course) => sum + course.credits, 0) > getCapacity(slot, horizon)) return false
+
+    const state = `${horizon}|${slot}|${[...placedAt].map(([id, at]) => `${id}@${at}`).sort().join(',')}`
+    if (failedStates.has(state)) return false
+
+    for (const fill of getCandidateFills(slot)) {
+      place(fill, slot, 1)
+      if (search(slot + 1, horizon)) return true
+      place(fill, slot, -1)
+    }
+
+    failedStates.add(state)
+    return false
+  }
+
+  for (let horizon = lowerBound; horizon < greedyLength && nodes < MAX_SEARCH_NODES; horizon++) {
+    resetState()
+    if (search(0, horizon)) {
+      bestPlacement = new Map(placedAt)
+      break
+    }
+  }
+
+  // Step 7: Report the plan, term by term, and why anything was left off it
+  resetState()
+  bestPlacement.forEach((slot, id) => placedAt.set(id, slot))
+
+  const scheduledCourses: ScheduledCourse[] = [...placedAt]
+    .sort(([a, slotA], [b, slotB]) => slotA - slotB || byPriority.indexOf(courseById.get(a)!) - byPriority.indexOf(courseById.get(b)!))
+    .map(([courseId, slot]) => ({ courseId, ...slots[slot] }))
+
+  const lastSlot = Math.max(-1, ...placedAt.values())
+  const terms: PlannedTerm[] = slots.slice(0, lastSlot + 1).map((term, slot) => {
+    const courseIds = scheduledCourses.filter(course => placedAt.get(course.courseId) === slot).map(course => course.courseId)
+    const credits = courseIds.reduce((sum, id) => sum + courseById.get(id)!.credits, 0)
+    return {
+      term,
+      courseIds,
+      credits,
+      workload: sumWorkload(courseIds.map(workloadOf)),
+      belowMinimum: term.semester !== 'Summer' && slot < lastSlot && credits < minimumCredits,
+    }
+  })
+
+  const describeCourses = (ids: string[]) => ids.map(id => courseById.get(id)?.code ?? id).join(" or ")
+  const largestCap = Math.max(0, ...slots.map((_, slot) => slots[slot].semester === 'Summer'
+    ? summerTermsByYear.get(slots[slot].year)!.maxCredits
+    : preferences.maxCredits
+  ))
+
+  // Reaches itself through prerequisites that only this plan could provide
+  const isInPrerequisiteCycle = (courseId: string) => {
+    const seen = new Set<string>()
+    const queue = openGroups.get(courseId)!.flatMap(plannedOptions)
+    while (queue.length > 0) {
+      const id = queue.shift()!
+      if (id === courseId) return true
+      if (seen.has(id)) continue
+      seen.add(id)
+      queue.push(...openGroups.get(id)!.flatMap(plannedOptions))
+    }
+    return false
+  }
+
+  const diagnose = (course: SchedulerCourse): Infeasibility => {
+    const reasonFor = (reason: InfeasibilityReason, detail: string) => ({ courseId: course.id, reason, detail })
+    const groups = openGroups.get(course.id)!
+
+    const missing = groups.find(group => plannedOptions(group).length === 0)
+    if (missing) return reasonFor("missing_prerequisite", `Needs ${describePrerequisites(missing)[0]}`)
+
+    if (isInPrerequisiteCycle(course.id)) {
+      return reasonFor("prerequisite_cycle", "Its prerequisites depend on it, so none of them can go first")
+    }
+
+    if (!slots.some(term => isOfferedIn(course.offerings, term))) {
+      return reasonFor("not_offered", `Isn't offered in any planned term (${describeOfferings(course.offerings)})`)
+    }
+
+    const blocking = groups.find(group => plannedOptions(group).every(id => !placedAt.has(id)))
+    if (blocking) {
+      return reasonFor("blocked_by_course", `Waits on ${describeCourses(plannedOptions(blocking))}, which couldn't be scheduled`)
+    }
+
+    const unmetCorequisites = groupCorequisites(corequisiteMap.get(course.id) || [])
+      .filter(group => !isCorequisiteGroupMet(group, isCompletedCourse, () => false))
+      .map(group => group.map(link => link.corequisite.id).filter(id => courseById.has(id)))
+      .filter(options => options.length > 0)
+
+    const strandedPartner = unmetCorequisites.find(options => options.every(id => !placedAt.has(id) && earliest.get(id) === Infinity))
+    if (strandedPartner) {
+      return reasonFor("corequisite_unavailable", `Has to be taken with ${describeCourses(strandedPartner)}, which couldn't be scheduled`)
+    }
+
+    const bundleCredits = course.credits + unmetCorequisites.reduce((sum, options) =>
+      sum + Math.min(...options.map(id => courseById.get(id)!.credits)), 0)
+    if (bundleCredits > largestCap) {
+      return reasonFor("exceeds_credit_cap", `Needs ${bundleCredits} credits in one term with its corequisites; the limit is ${largestCap}`)
+    }
+
+    const lastTerm = slots[slots.length - 1]
+    return reasonFor("out_of_terms", lastTerm
+      ? `Doesn't fit by ${describeTerm(lastTerm)}; raise the credit limit, add a summer or unblock a term`
+      : "No terms left to plan; unblock a term")
+  }
+
+  return {
+    scheduledCourses,
+    terms,
+    infeasibilities: allCoursesToSchedule.filter(course => !placedAt.has(course.id)).map(diagnose),
+    runsPastTarget: !!targetTerm && scheduledCourses.some(course => compareTerms(course, targetTerm) > 0),
+    optimal: goal.length === 0 || (!pruned && nodes < MAX_SEARCH_NODES && lastSlot + 1 <= lowerBound),
+    pinConflicts: [...pinConflicts, ...getPlacementConflicts()],
+  }
+}
+
+// True when some prerequisite group can only be met by non-course
+// requirements the student hasn't recorded, so no schedule can unlock it
+export function hasUnmetRequirementGroup(course: Pick<SchedulerCourse, "prerequisites">, satisfiedRequirementIds: Set<string>) {
+  return groupPrerequisites(course.prerequisites || []).some(group =>
+    group.every(link => link.requirement && !satisfiedRequirementIds.has(link.requirement.id))
+  )
+}
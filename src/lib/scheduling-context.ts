@@ -0,0 +1,127 @@
+import type { PrismaClient } from "@prisma/client"
+import { CourseAttempt, getEffectiveAttempts } from "@/lib/course-attempts"
+import { toPlanningPreferences, PlanningPreferences } from "@/lib/planning-preferences"
+import { getProgramScope, ProgramScope, ProgramStudent, scopeCoursesToProgram } from "@/lib/programs"
+import { loadSatisfiedRequirementIds } from "@/lib/requirements"
+import type { SchedulerCompletion, SchedulerCourse, SchedulerCourseGroup, SummerTerm } from "@/lib/scheduler"
+import { getTransferCourseIds, TransferCreditRecord } from "@/lib/transfer-credits"
+import { getWorkloadScore } from "@/lib/workload"
+
+// Everything the planner knows about a student, read straight from the
+// database: their program's courses with requisites and offerings, what
+// they've completed, and how they want to plan.
+
+export interface SchedulingContext {
+  scope: ProgramScope
+  courses: ProgramCourse[] // Required courses and electives of the student's program
+  courseGroups: SchedulerCourseGroup[] // With the members the student picked
+  completions: SchedulerCompletion[] // Latest completed attempts plus transfer equivalents
+  satisfiedRequirementIds: Set<string>
+  summerTerms: SummerTerm[]
+  preferences: PlanningPreferences
+}
+
+// A course in the scheduler's shape, with what elective picking needs
+export type ProgramCourse = SchedulerCourse & { name: string; electiveLevel: string | null }
+
+// A program's courses with their requisites and offerings, in the scheduler's shape
+export async function loadProgramCourses(prisma: PrismaClient, scope: ProgramScope): Promise<ProgramCourse[]> {
+  const catalog = await prisma.course.findMany({
+    where: { catalogYearId: scope.catalogYearId ?? undefined },
+    include: {
+      requiredBy: {
+        orderBy: { groupIndex: 'asc' },
+        include: { prerequisite: true, requirement: true }
+      },
+      corequisiteOf: {
+        orderBy: { groupIndex: 'asc' },
+        include: { corequisite: true }
+      },
+      offerings: true,
+      workloadReports: { select: { rating: true } }
+    },
+    orderBy: { code: 'asc' }
+  })
+
+  return scopeCoursesToProgram(catalog, scope).map(({ requiredBy, corequisiteOf, workloadReports, ...course }) => ({
+    ...course,
+    workload: getWorkloadScore(course.workload, workloadReports.map(report => report.rating)),
+    prerequisites: requiredBy.map(req => ({
+      groupIndex: req.groupIndex,
+      minGrade: req.minGrade,
+      prerequisite: req.prerequisite,
+      requirement: req.requirement
+    })),
+    corequisites: corequisiteOf.map(req => ({
+      groupIndex: req.groupIndex,
+      timing: req.timing,
+      corequisite: req.corequisite
+    }))
+  }))
+}
+
+// A catalog year's course groups, with each member the student picked
+export async function loadCourseGroups(
+  prisma: PrismaClient,
+  catalogYearId: string | null,
+  userId: string
+): Promise<SchedulerCourseGroup[]> {
+  const groups = await prisma.courseGroup.findMany({
+    where: { catalogYearId: catalogYearId ?? undefined },
+    include: {
+      courses: { select: { courseId: true } },
+      selections: { where: { userId }, select: { courseId: true } }
+    },
+    orderBy: { name: 'asc' }
+  })
+
+  return groups.map(group => ({
+    id: group.id,
+    name: group.name,
+    choose: group.choose,
+    courseIds: group.courses.map(member => member.courseId),
+    chosenIds: group.selections.map(selection => selection.courseId),
+  }))
+}
+
+// A repeated course counts once, with its latest completed attempt;
+// transfer, AP/IB and dual-enrollment equivalents count as completed
+export function getCompletions(attempts: CourseAttempt[], transferCredits: TransferCreditRecord[]): SchedulerCompletion[] {
+  return [
+    ...[...getEffectiveAttempts(attempts).values()].map(attempt => ({
+      courseId: attempt.courseId,
+      completed: true,
+      grade: attempt.grade,
+    })),
+    ...[...getTransferCourseIds(transferCredits)].map(courseId => ({ courseId, completed: true })),
+  ]
+}
+
+export async function loadSchedulingContext(
+  prisma: PrismaClient,
+  user: ProgramStudent & { id: string }
+): Promise<SchedulingContext> {
+  const scope = await getProgramScope(prisma, user)
+  const courses = await loadProgramCourses(prisma, scope)
+  const courseGroups = await loadCourseGroups(prisma, scope.catalogYearId, user.id)
+
+  const attempts = await prisma.userCourse.findMany({ where: { userId: user.id } })
+  const transferCredits = await prisma.transferCredit.findMany({ where: { userId: user.id } })
+  const completions = getCompletions(attempts, transferCredits)
+
+  const satisfiedRequirementIds = await loadSatisfiedRequirementIds(prisma, user.id)
+  const summerTerms = await prisma.summerTerm.findMany({ where: { userId: user.id } })
+  const preferences = toPlanningPreferences(
+    await prisma.planningPreferences.findUnique({ where: { userId: user.id } })
+  )
+
+  return {
+    scope,
+    courses,
+    courseGroups,
+    completions,
+    satisfiedRequirementIds,
+    summerTerms,
+    preferences,
+  }
+}
@@ -52,8 +52,8 @@ async function seedPrerequisites() {
   for (const courseData of prerequisiteData) {
     try {
       // Find the main course
-      const course = await prisma.course.findUnique({
-        where: { code: courseData.course }
+      const course = await prisma.course.findFirst({
+        where: { code: courseData.course, catalogYear: { isCurrent: true } }
       })
       
       if (!course) {
@@ -61,10 +61,10 @@ async function seedPrerequisites() {
         continue
       }
       
-      // Process each prerequisite
-      for (const prereqCode of courseData.prerequisites) {
-        const prerequisite = await prisma.course.findUnique({
-          where: { code: prereqCode }
+      // Process each prerequisite (each one is required, so each gets its own group)
+      for (const [groupIndex, prereqCode] of courseData.prerequisites.entries()) {
+        const prerequisite = await prisma.course.findFirst({
+          where: { code: prereqCode, catalogYear: { isCurrent: true } }
         })
         
         if (!prerequisite) {
@@ -77,7 +77,8 @@ async function seedPrerequisites() {
           await prisma.prerequisite.create({
             data: {
               courseId: course.id,
-              prerequisiteId: prerequisite.id
+              prerequisiteId: prerequisite.id,
+              groupIndex
             }
           })
           console.log(`✅ Added prerequisite: ${prereqCode} → ${courseData.course}`)
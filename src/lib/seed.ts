@@ -83,36 +83,380 @@ const courseDescriptions: Record<string, string> = {
   'CIS4930': 'Selected topics in information systems including current trends and technologies in IT and computing.',
 }
 
+// The catalog year this file publishes. Every course, program and rule below
+// is keyed by it, so seeding a new year leaves older catalogs (and the students
+// pinned to them) untouched, and re-seeding a year updates its rows in place.
+let catalogYearId = ''
+
+async function publishCatalogYear() {
+  const { year, name } = coursesData.catalog_year
+  const catalogYear = await prisma.catalogYear.upsert({
+    where: { year },
+    update: { name },
+    create: { year, name },
+  })
+  catalogYearId = catalogYear.id
+
+  // New students go on the latest published year
+  const latest = await prisma.catalogYear.findFirstOrThrow({ orderBy: { year: 'desc' } })
+  await prisma.catalogYear.updateMany({ where: { id: { not: latest.id } }, data: { isCurrent: false } })
+  await prisma.catalogYear.update({ where: { id: latest.id }, data: { isCurrent: true } })
+
+  return catalogYear
+}
+
+function findCourse(code: string) {
+  return prisma.course.findUnique({ where: { catalogYearId_code: { catalogYearId, code } } })
+}
+
+type PrerequisiteEntry = string | { options: string[] } | { course: string, min_grade: string }
+
+// Catalog prerequisites name requirements either by code ("GPA_3_0") or by
+// their catalog wording ("Consent of Instructor"), so both resolve to the id
+const requirementIds = new Map<string, string>()
+
+async function createRequirements() {
+  for (const [code, data] of Object.entries(coursesData.requirements)) {
+    const fields = {
+      name: data.name,
+      type: data.type,
+      description: data.description,
+      minGpa: ('min_gpa' in data ? data.min_gpa : null) || null,
+    }
+    const requirement = await prisma.requirement.upsert({
+      where: { code },
+      update: fields,
+      create: { code, ...fields },
+    })
+    requirementIds.set(code, requirement.id)
+    requirementIds.set(data.name, requirement.id)
+  }
+}
+
+const programIds = new Map<string, string>()
+
+async function createPrograms() {
+  for (const [code, data] of Object.entries(coursesData.programs)) {
+    const fields = { name: data.name, type: data.type }
+    const program = await prisma.program.upsert({
+      where: { catalogYearId_code: { catalogYearId, code } },
+      update: fields,
+      create: { catalogYearId, code, ...fields },
+    })
+    programIds.set(code, program.id)
+  }
+}
+
+// Link each program to its required courses once the catalog exists
+async function createProgramCourses() {
+  for (const [code, data] of Object.entries(coursesData.programs)) {
+    const programId = programIds.get(code)!
+    for (const courseCode of data.required_courses) {
+      const course = await findCourse(courseCode)
+      if (!course) {
+        console.warn(`  Program ${code}: unknown course ${courseCode}`)
+        continue
+      }
+      await prisma.programCourse.upsert({
+        where: { programId_courseId: { programId, courseId: course.id } },
+        update: {},
+        create: { programId, courseId: course.id },
+      })
+    }
+  }
+}
+
+// Turn the catalog's program_requirements block into the rules the degree
+// audit evaluates (see src/lib/audit.ts)
+async function createDegreeRules() {
+  const program = coursesData.program_requirements
+  const electives = program.elective_requirements
+  const prefixCourses = electives['2000_level_courses']
+  const minGrade = program.grade_requirement.match(/^[A-F][+-]?/)?.[0] || 'C'
+  const minLevel = Number(prefixCourses.description.match(/(\d{4})-level/)?.[1] || 2000)
+
+  const rules = [
+    {
+      code: 'TOTAL_CREDITS',
+      name: 'Total Credit Hours',
+      description: `At least ${program.minimum_credits} credit hours`,
+      type: 'total_credits',
+      minCredits: program.minimum_credits,
+    },
+    {
+      code: 'REQUIRED_COURSES',
+      name: 'Core Requirements',
+      description: 'Every required course in the program, or an approved alternative',
+      type: 'required_courses',
+    },
+    {
+      code: 'RESTRICTED_ELECTIVES',
+      name: electives.cs_it_restricted_electives.description,
+      description: electives.cs_it_restricted_electives.note,
+      type: 'elective_courses',
+      minCourses: electives.cs_it_restricted_electives.count,
+    },
+    {
+      code: 'ELECTIVE_RESTRICTIONS',
+      name: 'Elective Restrictions',
+      description: 'Completed electives must follow the restrictions for your program',
+      type: 'elective_restrictions',
+    },
+    {
+      code: 'PREFIX_COURSES',
+      name: `${minLevel}-Level Prefix Courses`,
+      description: `${prefixCourses.description} (${prefixCourses.note})`,
+      type: 'prefix_courses',
+      minCourses: prefixCourses.count,
+      minLevel,
+      prefixes: Object.values(electives.prefixes).flat(),
+    },
+    {
+      code: 'MINIMUM_GRADE',
+      name: 'Minimum Grade',
+      description: `${program.grade_requirement} in all major courses`,
+      type: 'minimum_grade',
+      minGrade,
+    },
+  ]
+
+  for (const [sortOrder, rule] of rules.entries()) {
+    await prisma.degreeRule.upsert({
+      where: { catalogYearId_code: { catalogYearId, code: rule.code } },
+      update: { ...rule, sortOrder },
+      create: { catalogYearId, ...rule, sortOrder },
+    })
+  }
+}
+
+// Machine-checkable versions of the restricted elective notes
+async function createElectiveRules() {
+  for (const rule of coursesData.program_requirements.elective_requirements.cs_it_restricted_electives.rules) {
+    const fields = {
+      description: rule.description,
+      type: rule.type,
+      programId: ('program' in rule && rule.program ? programIds.get(rule.program) : null) || null,
+      courseCodes: ('courses' in rule ? rule.courses : null) || [],
+      electiveLevel: ('elective_level' in rule ? rule.elective_level : null) || null,
+      maxCourses: ('max_courses' in rule ? rule.max_courses : null) ?? null,
+      bsToMsMaxCourses: ('bs_to_ms_max_courses' in rule ? rule.bs_to_ms_max_courses : null) ?? null,
+      substitutesFor: ('substitutes_for' in rule ? rule.substitutes_for : null) || null,
+    }
+    await prisma.electiveRule.upsert({
+      where: { catalogYearId_code: { catalogYearId, code: rule.code } },
+      update: fields,
+      create: { catalogYearId, code: rule.code, ...fields },
+    })
+  }
+}
+
+// Each entry in a catalog prerequisites array becomes its own group; the
+// codes inside an { options } entry share that group so any one satisfies it.
+// An option may be a course code or a requirement, and a { course, min_grade }
+// entry asks for a course passed with at least that grade.
+async function createPrerequisites(courseId: string, code: string, prerequisites: PrerequisiteEntry[] | undefined, firstGroup = 0) {
+  if (!prerequisites || !Array.isArray(prerequisites)) return
+
+  for (const [index, prereq] of prerequisites.entries()) {
+    const groupIndex = firstGroup + index
+    const options = typeof prereq === 'string' ? [prereq] : 'options' in prereq ? prereq.options : [prereq.course]
+    const minGrade = typeof prereq !== 'string' && 'min_grade' in prereq ? prereq.min_grade : null
+    if (!Array.isArray(options)) continue
+
+    const created: string[] = []
+    for (const option of options) {
+      const requirementId = requirementIds.get(option)
+      if (requirementId) {
+        await prisma.prerequisite.upsert({
+          where: {
+            courseId_requirementId: {
+              courseId,
+              requirementId,
+            },
+          },
+          update: { groupIndex },
+          create: {
+            courseId,
+            requirementId,
+            groupIndex,
+          },
+        })
+        created.push(option)
+        continue
+      }
+
+      const prereqCourse = await findCourse(option)
+      if (!prereqCourse) continue
+
+      await prisma.prerequisite.upsert({
+        where: {
+          courseId_prerequisiteId: {
+            courseId,
+            prerequisiteId: prereqCourse.id,
+          },
+        },
+        update: { groupIndex, minGrade },
+        create: {
+          courseId,
+          prerequisiteId: prereqCourse.id,
+          groupIndex,
+          minGrade,
+        },
+      })
+      created.push(minGrade ? `${option} (${minGrade} or better)` : option)
+    }
+
+    if (created.length > 0) {
+      console.log(`  ✓ ${created.join(' or ')} → ${code}`)
+    }
+  }
+}
+
+type CorequisiteEntry = string | { options: string[], timing?: string }
+
+// Same grouping as prerequisites; plain codes must be taken in the same term,
+// an { options } entry may mark itself "prior_or_concurrent"
+async function createCorequisites(courseId: string, code: string, corequisites: CorequisiteEntry[] | undefined) {
+  if (!corequisites || !Array.isArray(corequisites)) return
+
+  for (const [groupIndex, coreq] of corequisites.entries()) {
+    const options = typeof coreq === 'string' ? [coreq] : coreq.options
+    const timing = (typeof coreq !== 'string' && coreq.timing) || 'concurrent'
+    if (!Array.isArray(options)) continue
+
+    const created: string[] = []
+    for (const option of options) {
+      const coreqCourse = await findCourse(option)
+      if (!coreqCourse) continue
+
+      await prisma.corequisite.upsert({
+        where: {
+          courseId_corequisiteId: {
+            courseId,
+            corequisiteId: coreqCourse.id,
+          },
+        },
+        update: { groupIndex, timing },
+        create: {
+          courseId,
+          corequisiteId: coreqCourse.id,
+          groupIndex,
+          timing,
+        },
+      })
+      created.push(option)
+    }
+
+    if (created.length > 0) {
+      console.log(`  ✓ ${created.join(' or ')} ⇄ ${code} (${timing})`)
+    }
+  }
+}
+
+type OfferingEntry = { term: string, years?: string, delivery?: string }
+
+// Only courses the file gives a pattern for are reset, so patterns admins
+// entered for other courses survive a re-seed
+async function createOfferings(courseId: string, code: string, offerings: OfferingEntry[] | undefined) {
+  if (!offerings || !Array.isArray(offerings)) return
+
+  await prisma.courseOffering.deleteMany({ where: { courseId } })
+  await prisma.courseOffering.createMany({
+    data: offerings.map(offering => ({
+      courseId,
+      term: offering.term,
+      years: offering.years || 'every',
+      delivery: offering.delivery || 'in_person',
+    })),
+  })
+  console.log(`  ✓ ${code} offered ${offerings.map(o => o.term).join(', ')}`)
+}
+
+// Courses listed as each other's alternatives become one choose-one group
+// (linked chains such as A-B, B-C end up in a single group), named by its
+// members. A group with the same members keeps its id and the students' picks
+// across re-seeds; groups whose members changed are deleted with their picks.
+async function createCourseGroups() {
+  const groupOf = new Map<string, Set<string>>()
+  for (const [code, courseData] of Object.entries(coursesData.courses)) {
+    if (!('alternatives' in courseData) || !Array.isArray(courseData.alternatives)) continue
+    for (const altCode of courseData.alternatives as string[]) {
+      if (!(await findCourse(altCode))) continue // Placements waive the course instead
+      const group = new Set([code, altCode, ...(groupOf.get(code) || []), ...(groupOf.get(altCode) || [])])
+      group.forEach(member => groupOf.set(member, group))
+    }
+  }
+
+  const names: string[] = []
+  for (const group of new Set(groupOf.values())) {
+    const codes = [...group].sort()
+    const name = codes.join(' or ')
+    names.push(name)
+    const courseGroup = await prisma.courseGroup.upsert({
+      where: { catalogYearId_name: { catalogYearId, name } },
+      update: { choose: 1 },
+      create: { catalogYearId, name, choose: 1 },
+    })
+    await prisma.courseGroupCourse.deleteMany({ where: { groupId: courseGroup.id } })
+    for (const code of codes) {
+      const course = await findCourse(code)
+      if (course) {
+        await prisma.courseGroupCourse.create({ data: { groupId: courseGroup.id, courseId: course.id } })
+      }
+    }
+  }
+
+  const stale = await prisma.courseGroup.deleteMany({ where: { catalogYearId, name: { notIn: names } } })
+  if (stale.count > 0) console.log(`  ✓ Removed ${stale.count} course groups the catalog no longer lists`)
+}
+
 async function main() {
   console.log('🌱 Starting database seeding...')
   
-  // Clear existing data
-  console.log('🧹 Clearing existing data...')
-  await prisma.alternative.deleteMany()
-  await prisma.corequisite.deleteMany()
-  await prisma.prerequisite.deleteMany()
-  await prisma.userCourse.deleteMany()
-  await prisma.scheduleItem.deleteMany()
-  await prisma.schedule.deleteMany()
-  await prisma.course.deleteMany()
+  const catalogYear = await publishCatalogYear()
+  console.log(`📖 Publishing the ${catalogYear.name}...`)
+
+  // Only this year's course links are rebuilt; courses are updated in place so
+  // completions and saved schedules that point at them survive a re-seed
+  console.log('🧹 Clearing course relationships for this catalog year...')
+  const inCatalogYear = { course: { catalogYearId } }
+  await prisma.alternative.deleteMany({ where: inCatalogYear })
+  await prisma.corequisite.deleteMany({ where: inCatalogYear })
+  await prisma.prerequisite.deleteMany({ where: inCatalogYear })
+  await prisma.programCourse.deleteMany({ where: { program: { catalogYearId } } })
   
   const courses = coursesData.courses
   const electives = coursesData.available_electives
+  const graduatePrerequisites = coursesData.program_requirements.elective_requirements
+    .cs_it_restricted_electives.graduate_prerequisites as PrerequisiteEntry[]
+
+  console.log(`📋 Creating ${Object.keys(coursesData.requirements).length} non-course requirements...`)
+  await createRequirements()
+
+  console.log(`🎓 Creating ${Object.keys(coursesData.programs).length} programs...`)
+  await createPrograms()
+
+  console.log('📏 Creating degree audit rules...')
+  await createDegreeRules()
+  await createElectiveRules()
   
   console.log(`📚 Creating ${Object.keys(courses).length} required courses...`)
   
   // Create required courses
   for (const [code, courseData] of Object.entries(courses)) {
-    await prisma.course.create({
-      data: {
-        code,
-        name: courseData.name,
-        credits: courseData.credits,
-        gepRequirement: courseData.gep_requirement || false,
-        category: ('category' in courseData ? courseData.category : null) || null,
-        description: courseDescriptions[code] || null,
-        isElective: false,
-      },
+    const fields = {
+      name: courseData.name,
+      credits: courseData.credits,
+      gepRequirement: courseData.gep_requirement || false,
+      category: ('category' in courseData ? courseData.category : null) || null,
+      description: courseDescriptions[code] || null,
+      isElective: false,
+      waivedById: null,
+    }
+    await prisma.course.upsert({
+      where: { catalogYearId_code: { catalogYearId, code } },
+      update: fields,
+      create: { catalogYearId, code, ...fields },
     })
   }
   
@@ -124,18 +468,20 @@ async function main() {
     console.log(`  Adding ${Object.keys(electiveCourses).length} ${level} electives...`)
     
     for (const [code, courseData] of Object.entries(electiveCourses)) {
-      await prisma.course.create({
-        data: {
-          code,
-          name: courseData.name,
-          credits: courseData.credits,
-          gepRequirement: false,
-          category: `${level.replace('_', '-')} Elective`,
-          description: ('description' in courseData ? courseData.description : null) || courseDescriptions[code] || null,
-          note: ('note' in courseData ? courseData.note : null) || null,
-          isElective: true,
-          electiveLevel: level,
-        },
+      const fields = {
+        name: courseData.name,
+        credits: courseData.credits,
+        gepRequirement: false,
+        category: `${level.replace('_', '-')} Elective`,
+        description: ('description' in courseData ? courseData.description : null) || courseDescriptions[code] || null,
+        note: ('note' in courseData ? courseData.note : null) || null,
+        isElective: true,
+        electiveLevel: level,
+      }
+      await prisma.course.upsert({
+        where: { catalogYearId_code: { catalogYearId, code } },
+        update: fields,
+        create: { catalogYearId, code, ...fields },
       })
     }
   }
@@ -143,84 +489,31 @@ async function main() {
   console.log('🔗 Creating relationships...')
   
   for (const [code, courseData] of Object.entries(courses)) {
-    const course = await prisma.course.findUnique({ where: { code } })
+    const course = await findCourse(code)
     if (!course) continue
     
     // Handle prerequisites
-    if (courseData.prerequisites && Array.isArray(courseData.prerequisites)) {
-      for (const prereq of courseData.prerequisites) {
-        if (typeof prereq === 'string') {
-          // Simple prerequisite: just one required course
-          const prereqCourse = await prisma.course.findUnique({ where: { code: prereq } })
-          if (prereqCourse) {
-            await prisma.prerequisite.upsert({
-              where: {
-                courseId_prerequisiteId: {
-                  courseId: course.id,
-                  prerequisiteId: prereqCourse.id,
-                },
-              },
-              update: {},
-              create: {
-                courseId: course.id,
-                prerequisiteId: prereqCourse.id,
-              },
-            })
-            console.log(`  ✓ ${prereq} → ${code}`)
-          }
-        } else if (prereq.options && Array.isArray(prereq.options)) {
-          // FIXED: For "options" (OR logic), only add the FIRST option as prerequisite
-          // This prevents false chains like "MAC1140 → course" when MAC1105C is the alternative
-          // Students need ONE OF these options, not ALL of them
-          const firstOption = prereq.options[0]
-          const prereqCourse = await prisma.course.findUnique({ where: { code: firstOption } })
-          if (prereqCourse) {
-            await prisma.prerequisite.upsert({
-              where: {
-                courseId_prerequisiteId: {
-                  courseId: course.id,
-                  prerequisiteId: prereqCourse.id,
-                },
-              },
-              update: {},
-              create: {
-                courseId: course.id,
-                prerequisiteId: prereqCourse.id,
-              },
-            })
-            console.log(`  ✓ ${firstOption} (or alternatives: ${prereq.options.slice(1).join(', ')}) → ${code}`)
-          }
-        }
-      }
-    }
+    await createPrerequisites(course.id, code, courseData.prerequisites)
     
     // Handle corequisites
-    if (courseData.corequisites && Array.isArray(courseData.corequisites)) {
-      for (const coreqCode of courseData.corequisites) {
-        const coreqCourse = await prisma.course.findUnique({ where: { code: coreqCode } })
-        if (coreqCourse) {
-          await prisma.corequisite.upsert({
-            where: {
-              courseId_corequisiteId: {
-                courseId: course.id,
-                corequisiteId: coreqCourse.id,
-              },
-            },
-            update: {},
-            create: {
-              courseId: course.id,
-              corequisiteId: coreqCourse.id,
-            },
-          })
-        }
-      }
+    await createCorequisites(course.id, code, courseData.corequisites)
+
+    // Handle term offering patterns
+    if ('offerings' in courseData) {
+      await createOfferings(course.id, code, courseData.offerings as OfferingEntry[])
     }
     
     // Handle alternatives
     if ('alternatives' in courseData && courseData.alternatives && Array.isArray(courseData.alternatives)) {
       for (const altCode of courseData.alternatives) {
-        if (altCode === "CS Placement") continue // Skip non-course alternatives
-        const altCourse = await prisma.course.findUnique({ where: { code: altCode } })
+        // A non-course alternative (CS Placement) waives the course outright
+        const waivedById = requirementIds.get(altCode)
+        if (waivedById) {
+          await prisma.course.update({ where: { id: course.id }, data: { waivedById } })
+          continue
+        }
+
+        const altCourse = await findCourse(altCode)
         if (altCourse) {
           await prisma.alternative.upsert({
             where: {
@@ -240,62 +533,40 @@ async function main() {
     }
   }
 
+  console.log('🔀 Grouping alternative courses...')
+  await createCourseGroups()
+
   // Create relationships for electives
   console.log('🔗 Creating elective relationships...')
 
   for (const [electiveLevel, electiveCourses] of Object.entries(electives)) {
     for (const [code, courseData] of Object.entries(electiveCourses)) {
-      const course = await prisma.course.findUnique({ where: { code } })
+      const course = await findCourse(code)
       if (!course) continue
 
       // Handle prerequisites for electives
-      if (courseData.prerequisites && Array.isArray(courseData.prerequisites)) {
-        for (const prereq of courseData.prerequisites) {
-          if (typeof prereq === 'string') {
-            // Simple prerequisite: just one required course
-            const prereqCourse = await prisma.course.findUnique({ where: { code: prereq } })
-            if (prereqCourse) {
-              await prisma.prerequisite.upsert({
-                where: {
-                  courseId_prerequisiteId: {
-                    courseId: course.id,
-                    prerequisiteId: prereqCourse.id,
-                  },
-                },
-                update: {},
-                create: {
-                  courseId: course.id,
-                  prerequisiteId: prereqCourse.id,
-                },
-              })
-              console.log(`  ✓ ${prereq} → ${code}`)
-            }
-          } else if (prereq.options && Array.isArray(prereq.options)) {
-            // For "options" (OR logic), only add the FIRST option as prerequisite
-            const firstOption = prereq.options[0]
-            const prereqCourse = await prisma.course.findUnique({ where: { code: firstOption } })
-            if (prereqCourse) {
-              await prisma.prerequisite.upsert({
-                where: {
-                  courseId_prerequisiteId: {
-                    courseId: course.id,
-                    prerequisiteId: prereqCourse.id,
-                  },
-                },
-                update: {},
-                create: {
-                  courseId: course.id,
-                  prerequisiteId: prereqCourse.id,
-                },
-              })
-              console.log(`  ✓ ${firstOption} (or alternatives: ${prereq.options.slice(1).join(', ')}) → ${code}`)
-            }
-          }
-        }
+      await createPrerequisites(course.id, code, courseData.prerequisites)
+
+      // Graduate courses add the program's exam, GPA and grade gates after their own groups
+      if (course.electiveLevel === '5000_level') {
+        await createPrerequisites(course.id, code, graduatePrerequisites, courseData.prerequisites.length)
+      }
+
+      // Handle corequisites for electives
+      if ('corequisites' in courseData) {
+        await createCorequisites(course.id, code, courseData.corequisites as CorequisiteEntry[])
+      }
+
+      // Handle term offering patterns for electives
+      if ('offerings' in courseData) {
+        await createOfferings(course.id, code, courseData.offerings as OfferingEntry[])
       }
     }
   }
 
+  console.log('🎓 Linking programs to their required courses...')
+  await createProgramCourses()
+
   console.log('✅ Database seeding completed!')
 }
 
@@ -0,0 +1,106 @@
+// Academic terms in calendar order. UCF's summer runs as Summer A and Summer B,
+// back-to-back six-week sessions, plus Summer C, which spans both. A course in
+// Summer A is finished in time to unlock one in Summer B; Summer C is not.
+
+export const TERM_ORDER = ["Spring", "Summer", "Fall"]
+
+export const SUMMER_SESSIONS: Record<string, string> = {
+  A: "Summer A",
+  B: "Summer B",
+  C: "Summer C",
+}
+
+// Where each session sits inside the summer, as fractions of the term
+const SESSION_SPANS: Record<string, [number, number]> = {
+  A: [0, 0.5],
+  B: [0.5, 1],
+  C: [0, 1],
+}
+
+// Credit cap for a summer the student turns on without picking one
+export const DEFAULT_SUMMER_CREDITS = 12
+
+export interface Term {
+  semester: string
+  year: number
+  session?: string | null // "A", "B" or "C" for summer sessions
+}
+
+function getSpan(term: Term): [number, number] {
+  return (term.semester === "Summer" && term.session && SESSION_SPANS[term.session]) || [0, 1]
+}
+
+function getTermIndex(term: Term): number {
+  return term.year * TERM_ORDER.length + TERM_ORDER.indexOf(term.semester)
+}
+
+// Points on one timeline: a course ending at or before another term's start
+// is done in time for it
+export function getTermStart(term: Term): number {
+  return getTermIndex(term) + getSpan(term)[0]
+}
+
+export function getTermEnd(term: Term): number {
+  return getTermIndex(term) + getSpan(term)[1]
+}
+
+// Summer A, Summer C, Summer B: by start, then by end
+export function compareTerms(a: Term, b: Term): number {
+  return getTermStart(a) - getTermStart(b) || getTermEnd(a) - getTermEnd(b)
+}
+
+// How many terms run from `start` through `end`, both included (0 if `end` is earlier)
+export function countTermsThrough(start: Term, end: Term): number {
+  return Math.max(0, getTermIndex(end) - getTermIndex(start) + 1)
+}
+
+// "Fall 2026", "Summer A 2027"
+export function describeTerm(term: Term): string {
+  const name = term.semester === "Summer" && term.session
+    ? SUMMER_SESSIONS[term.session] ?? term.semester
+    : term.semester
+  return `${name} ${term.year}`
+}
+
+export function isValidSummerSession(session: string): boolean {
+  return session in SUMMER_SESSIONS
+}
+
+// "Fall 2027" -> { semester: "Fall", year: 2027 }; null for anything else
+export function parseTerm(value: string): Term | null {
+  const match = value.match(/^(Spring|Summer|Fall) (\d{4})$/)
+  if (!match) return null
+  return { semester: match[1], year: Number(match[2]) }
+}
+
+// Like parseTerm, plus summer sessions: "Summer A 2027" -> { semester: "Summer", year: 2027, session: "A" }
+export function parseSessionTerm(value: string): Term | null {
+  const match = value.trim().match(/^(Spring|Summer|Fall)(?: ([ABC]))? (\d{4})$/)
+  if (!match || (match[2] && match[1] !== "Summer")) return null
+  return { semester: match[1], year: Number(match[3]), session: match[2] ?? null }
+}
+
+// The next `count` terms (whole summers, no sessions), starting where the
+// scheduler does: Fall of this year through July, otherwise the coming Spring
+export function getUpcomingTerms(count: number, today = new Date()): Term[] {
+  const startsInFall = today.getMonth() < 7
+  return getTermsFrom(
+    { semester: startsInFall ? "Fall" : "Spring", year: startsInFall ? today.getFullYear() : today.getFullYear() + 1 },
+    count
+  )
+}
+
+// `count` consecutive terms beginning with `start`
+export function getTermsFrom(start: Term, count: number): Term[] {
+  let index = TERM_ORDER.indexOf(start.semester)
+  let year = start.year
+  const terms: Term[] = []
+
+  for (let i = 0; i < count; i++) {
+    terms.push({ semester: TERM_ORDER[index], year })
+    index = (index + 1) % TERM_ORDER.length
+    if (index === 0) year++
+  }
+
+  return terms
+}
@@ -0,0 +1,37 @@
+// Credit students bring in from outside UCF. A record with a courseId counts
+// as completing that course (for prerequisites and the degree audit); one
+// without only adds elective hours toward the credit total.
+
+export const TRANSFER_SOURCES: Record<string, string> = {
+  transfer: "Transfer",
+  ap: "AP",
+  ib: "IB",
+  dual_enrollment: "Dual Enrollment",
+}
+
+export interface TransferCreditRecord {
+  source: string
+  institution: string | null
+  examName: string | null
+  score: string | null
+  courseId: string | null
+  credits: number
+}
+
+// "AP Computer Science A (score 5)" or "Valencia College"
+export function describeTransferCredit(credit: TransferCreditRecord): string {
+  const label = credit.examName || credit.institution || TRANSFER_SOURCES[credit.source] || credit.source
+  return credit.score ? `${label} (score ${credit.score})` : label
+}
+
+// Courses the student has credit for through transfer, AP/IB or dual enrollment
+export function getTransferCourseIds(credits: TransferCreditRecord[]): Set<string> {
+  return new Set(credits.flatMap(credit => credit.courseId ? [credit.courseId] : []))
+}
+
+// Hours that aren't tied to a UCF course
+export function getUnassignedTransferCredits(credits: TransferCreditRecord[]): number {
+  return credits
+    .filter(credit => !credit.courseId)
+    .reduce((sum, credit) => sum + credit.credits, 0)
+}
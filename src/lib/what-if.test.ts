@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest"
+import { validateWhatIfScenario, WhatIfScenario } from "@/lib/what-if"
+
+// Scenarios come straight from request bodies, so they're validated as unknown shapes
+const validate = (scenario: Record<string, unknown>) => validateWhatIfScenario(scenario as WhatIfScenario)
+
+describe("validateWhatIfScenario", () => {
+  it("accepts any one change", () => {
+    expect(validate({ programId: "it" })).toBeNull()
+    expect(validate({ electiveSwaps: [{ fromId: "a", toId: "b" }] })).toBeNull()
+    expect(validate({ failedCourseIds: ["COP3502C"] })).toBeNull()
+    expect(validate({ skippedTerms: ["Spring 2027"] })).toBeNull()
+  })
+
+  it("needs at least one change", () => {
+    expect(validate({})).toBe("Pick at least one change to try")
+    expect(validate({ programId: "", failedCourseIds: [] })).toBe("Pick at least one change to try")
+  })
+
+  it("rejects changes of the wrong shape", () => {
+    expect(validate({ programId: 7 })).toBe("Invalid program")
+    expect(validate({ electiveSwaps: [{ fromId: "a" }] })).toBe("electiveSwaps must be a list of { fromId, toId }")
+    expect(validate({ electiveSwaps: [null] })).toBe("electiveSwaps must be a list of { fromId, toId }")
+    expect(validate({ failedCourseIds: "COP3502C" })).toBe("failedCourseIds must be a list of course ids")
+    expect(validate({ skippedTerms: ["Spring"] })).toBe("Skipped terms look like \"Spring 2027\"")
+  })
+})
@@ -0,0 +1,308 @@
+import type { PrismaClient } from "@prisma/client"
+import { auditStudentRecord, loadAuditCatalog, StudentRecord } from "@/lib/audit"
+import { compareAttempts, CourseAttempt } from "@/lib/course-attempts"
+import { StudentProfile } from "@/lib/elective-rules"
+import { getElectiveSlotCount, planElectives } from "@/lib/elective-selections"
+import { PlanningPreferences, toPlanningPreferences } from "@/lib/planning-preferences"
+import { getProgramScope, ProgramStudent } from "@/lib/programs"
+import { getAttemptsGpa, withGpaRequirements } from "@/lib/requirements"
+import { ScheduledCourse, SummerTerm } from "@/lib/scheduler"
+import { generateStrategySchedule, SCHEDULE_STRATEGIES } from "@/lib/schedule-strategies"
+import { getCompletions, loadCourseGroups, loadProgramCourses } from "@/lib/scheduling-context"
+import { describeTerm, parseTerm } from "@/lib/terms"
+import { TransferCreditRecord } from "@/lib/transfer-credits"
+
+// What-if scenarios: a copy of the student's record, changed in memory the
+// way a scenario says (another program, other electives, a failed course, a
+// skipped term), then audited and planned exactly like the real one. Both
+// sides are planned with the strategy and pins of the student's primary
+// plan, so "current" is the plan they follow; nothing is saved.
+
+export interface WhatIfScenario {
+  programId?: string // Switch programs (and that program's catalog year)
+  electiveSwaps?: { fromId: string; toId: string }[] // Replace a saved elective pick
+  failedCourseIds?: string[] // Taken or enrolled courses that end in an F
+  skippedTerms?: string[] // "Spring 2027"; no classes that term
+}
+
+export interface WhatIfOutcome {
+  programName: string | null
+  completedCredits: number
+  requiredCredits: number
+  creditsNeeded: number // Required credits the record doesn't cover yet
+  plannedCredits: number
+  plannedCourses: string[] // Course codes, in plan order
+  terms: number // Terms with classes until graduation
+  graduationTerm: string | null // Last planned term; null when nothing is left to plan
+  gpa: number | null
+  unscheduled: { code: string; detail: string }[] // Courses the plan couldn't fit
+}
+
+export interface WhatIfComparison {
+  current: WhatIfOutcome
+  scenario: WhatIfOutcome
+  added: string[] // Courses only the scenario plans
+  dropped: string[] // Courses only the current record plans
+  strategy: string // How both sides were planned: the primary plan's strategy
+}
+
+// The record with everything planning reads, held in memory
+interface WhatIfRecord extends StudentRecord {
+  student: StudentProfile & ProgramStudent
+  attempts: (CourseAttempt & { course: { code: string, credits: number } })[]
+  transferCredits: (TransferCreditRecord & { course: { code: string } | null })[]
+  electiveIds: string[] // Saved picks, in slot order
+  summerTerms: SummerTerm[]
+  preferences: PlanningPreferences
+  strategy: string | null // The primary plan's; null plans the fastest way
+  pins: (ScheduledCourse & { course: { code: string } })[] // The primary plan's pinned courses
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === "string")
+}
+
+// Describes what's wrong with a scenario's shape, or null when it can be run
+export function validateWhatIfScenario(scenario: WhatIfScenario): string | null {
+  const { programId, electiveSwaps, failedCourseIds, skippedTerms } = scenario
+
+  if (programId !== undefined && typeof programId !== "string") return "Invalid program"
+  if (electiveSwaps !== undefined && (
+    !Array.isArray(electiveSwaps) ||
+    electiveSwaps.some(swap => typeof swap?.fromId !== "string" || typeof swap?.toId !== "string")
+  )) {
+    return "electiveSwaps must be a list of { fromId, toId }"
+  }
+  if (failedCourseIds !== undefined && !isStringList(failedCourseIds)) return "failedCourseIds must be a list of course ids"
+  if (skippedTerms !== undefined && (!isStringList(skippedTerms) || !skippedTerms.every(term => parseTerm(term)))) {
+    return "Skipped terms look like \"Spring 2027\""
+  }
+
+  const changes = (programId ? 1 : 0) + (electiveSwaps?.length ?? 0) + (failedCourseIds?.length ?? 0) + (skippedTerms?.length ?? 0)
+  if (changes === 0) return "Pick at least one change to try"
+
+  return null
+}
+
+async function loadWhatIfRecord(
+  prisma: PrismaClient,
+  user: ProgramStudent & StudentProfile & { id: string }
+): Promise<WhatIfRecord> {
+  const [attempts, transferCredits, userRequirements, electiveSelections, summerTerms, preferences, primaryPlan] = await Promise.all([
+    prisma.userCourse.findMany({ where: { userId: user.id }, include: { course: { select: { code: true, credits: true } } } }),
+    prisma.transferCredit.findMany({ where: { userId: user.id }, include: { course: { select: { code: true } } } }),
+    prisma.userRequirement.findMany({ where: { userId: user.id, satisfied: true } }),
+    prisma.electiveSelection.findMany({ where: { userId: user.id }, orderBy: { slot: 'asc' } }),
+    prisma.summerTerm.findMany({ where: { userId: user.id } }),
+    prisma.planningPreferences.findUnique({ where: { userId: user.id } }),
+    prisma.schedule.findFirst({
+      where: { userId: user.id, isPrimary: true, archived: false },
+      include: { items: { where: { pinned: true }, include: { course: { select: { code: true } } } } }
+    }),
+  ])
+
+  return {
+    student: { programId: user.programId, catalogYearId: user.catalogYearId, bsToMs: user.bsToMs },
+    attempts,
+    transferCredits,
+    satisfiedRequirementIds: await withGpaRequirements(
+      prisma,
+      userRequirements.map(ur => ur.requirementId),
+      getAttemptsGpa(attempts)
+    ),
+    electiveIds: electiveSelections.map(selection => selection.courseId),
+    summerTerms,
+    preferences: toPlanningPreferences(preferences),
+    strategy: primaryPlan?.strategy ?? null,
+    pins: (primaryPlan?.items ?? []).map(({ courseId, semester, year, session, course }) => ({
+      courseId, semester, year, session, course,
+    })),
+  }
+}
+
+// Point the record at another catalog year's courses with the same codes, as
+// picking a program from that year would (see getCatalogYearMoves)
+async function moveRecordToCatalogYear(prisma: PrismaClient, record: WhatIfRecord, catalogYearId: string): Promise<WhatIfRecord> {
+  const courses = await prisma.course.findMany({ where: { catalogYearId }, select: { id: true, code: true } })
+  const courseIdsByCode = new Map(courses.map(c => [c.code, c.id]))
+  const pickCodes = await prisma.course.findMany({ where: { id: { in: record.electiveIds } }, select: { id: true, code: true } })
+
+  return {
+    ...record,
+    attempts: record.attempts.map(attempt => ({
+      ...attempt,
+      courseId: courseIdsByCode.get(attempt.course.code) ?? attempt.courseId,
+    })),
+    transferCredits: record.transferCredits.map(credit => ({
+      ...credit,
+      courseId: credit.course ? courseIdsByCode.get(credit.course.code) ?? credit.courseId : credit.courseId,
+    })),
+    electiveIds: record.electiveIds.flatMap(id => {
+      const code = pickCodes.find(c => c.id === id)?.code
+      return code && courseIdsByCode.has(code) ? [courseIdsByCode.get(code)!] : []
+    }),
+    pins: record.pins.flatMap(pin =>
+      courseIdsByCode.has(pin.course.code) ? [{ ...pin, courseId: courseIdsByCode.get(pin.course.code)! }] : []
+    ),
+  }
+}
+
+// The record as the scenario would leave it
+async function applyWhatIfScenario(
+  prisma: PrismaClient,
+  record: WhatIfRecord,
+  scenario: WhatIfScenario
+): Promise<{ record: WhatIfRecord } | { error: string }> {
+  let changed = record
+
+  const switchTo = scenario.programId && scenario.programId !== record.student.programId
+    ? await prisma.program.findUnique({ where: { id: scenario.programId } })
+    : null
+  if (scenario.programId && scenario.programId !== record.student.programId && !switchTo) {
+    return { error: "Program not found" }
+  }
+
+  // A swapped-in course has to be an elective of the scenario's program,
+  // matched by code since a program switch can move to another catalog year.
+  // Checked up front, before anything is audited or planned.
+  if (scenario.electiveSwaps?.length) {
+    const scenarioScope = await getProgramScope(prisma, switchTo
+      ? { programId: switchTo.id, catalogYearId: switchTo.catalogYearId }
+      : record.student)
+    const [swappedIn, scenarioCourses] = await Promise.all([
+      prisma.course.findMany({ where: { id: { in: scenario.electiveSwaps.map(swap => swap.toId) } }, select: { code: true } }),
+      loadProgramCourses(prisma, scenarioScope),
+    ])
+    if (
+      swappedIn.length < new Set(scenario.electiveSwaps.map(swap => swap.toId)).size ||
+      swappedIn.some(({ code }) => !scenarioCourses.find(course => course.code === code)?.isElective)
+    ) {
+      return { error: "Swapped-in courses have to be electives in the program" }
+    }
+  }
+
+  for (const { fromId, toId } of scenario.electiveSwaps ?? []) {
+    if (!changed.electiveIds.includes(fromId)) return { error: "Only your saved elective picks can be swapped" }
+    if (changed.electiveIds.includes(toId)) return { error: "That elective is already picked" }
+    changed = { ...changed, electiveIds: changed.electiveIds.map(id => id === fromId ? toId : id) }
+  }
+
+  for (const courseId of scenario.failedCourseIds ?? []) {
+    // The latest completed or enrolled attempt is the one that fails
+    const attempt = [...changed.attempts].sort(compareAttempts).reverse().find(a =>
+      a.courseId === courseId && (a.status === "completed" || a.status === "enrolled")
+    )
+    if (!attempt) return { error: "Only courses you've completed or are taking can be failed" }
+    changed = {
+      ...changed,
+      attempts: changed.attempts.map(a => a === attempt ? { ...a, status: "failed", grade: "F" } : a),
+    }
+  }
+
+  // An F can drop the GPA below a GPA requirement
+  if (scenario.failedCourseIds?.length) {
+    changed = {
+      ...changed,
+      satisfiedRequirementIds: await withGpaRequirements(prisma, changed.satisfiedRequirementIds, getAttemptsGpa(changed.attempts)),
+    }
+  }
+
+  // Last, so the swaps and failures above name courses of the current catalog year
+  if (switchTo) {
+    if (switchTo.catalogYearId !== (await getProgramScope(prisma, record.student)).catalogYearId) {
+      changed = await moveRecordToCatalogYear(prisma, changed, switchTo.catalogYearId)
+    }
+    changed = { ...changed, student: { ...changed.student, programId: switchTo.id, catalogYearId: switchTo.catalogYearId } }
+  }
+
+  if (scenario.skippedTerms?.length) {
+    const blockedTerms = [...new Set([...changed.preferences.blockedTerms, ...scenario.skippedTerms])]
+    changed = { ...changed, preferences: { ...changed.preferences, blockedTerms } }
+  }
+
+  return { record: changed }
+}
+
+// Audit the record and plan what's left with the primary plan's strategy and pins
+async function evaluateWhatIfRecord(prisma: PrismaClient, userId: string, record: WhatIfRecord, today: Date) {
+  const scope = await getProgramScope(prisma, record.student)
+  const [catalog, courses, courseGroups, slots] = await Promise.all([
+    loadAuditCatalog(prisma, record.student, userId),
+    loadProgramCourses(prisma, scope),
+    loadCourseGroups(prisma, scope.catalogYearId, userId),
+    getElectiveSlotCount(prisma, scope),
+  ])
+
+  const audit = auditStudentRecord(catalog, record)
+  const completions = getCompletions(record.attempts, record.transferCredits)
+  const { electives } = planElectives(
+    courses,
+    record.electiveIds,
+    slots,
+    new Set(completions.map(uc => uc.courseId)),
+    record.satisfiedRequirementIds,
+    catalog.electiveRules,
+    record.student
+  )
+  const result = generateStrategySchedule({
+    courses,
+    electives,
+    completions,
+    satisfiedRequirementIds: record.satisfiedRequirementIds,
+    summerTerms: record.summerTerms,
+    preferences: record.preferences,
+    today,
+    pins: record.pins,
+    courseGroups,
+  }, record.strategy)
+
+  const codeOf = (id: string) => courses.find(c => c.id === id)?.code ?? id
+  const plannedTerms = result.terms.filter(term => term.courseIds.length > 0)
+  const lastTerm = plannedTerms[plannedTerms.length - 1]
+
+  const outcome: WhatIfOutcome = {
+    programName: scope.programName,
+    completedCredits: audit.totalCredits,
+    requiredCredits: audit.requiredCredits,
+    creditsNeeded: Math.max(0, audit.requiredCredits - audit.totalCredits),
+    plannedCredits: plannedTerms.reduce((sum, term) => sum + term.credits, 0),
+    plannedCourses: plannedTerms.flatMap(term => term.courseIds.map(codeOf)),
+    terms: plannedTerms.length,
+    graduationTerm: lastTerm ? describeTerm(lastTerm.term) : null,
+    gpa: audit.gpa,
+    unscheduled: result.infeasibilities.map(infeasibility => ({
+      code: codeOf(infeasibility.courseId),
+      detail: infeasibility.detail,
+    })),
+  }
+
+  return { outcome, courses }
+}
+
+// Run the scenario next to the student's current record
+export async function compareWhatIf(
+  prisma: PrismaClient,
+  user: ProgramStudent & StudentProfile & { id: string },
+  scenario: WhatIfScenario,
+  today = new Date()
+): Promise<{ comparison: WhatIfComparison } | { error: string }> {
+  const record = await loadWhatIfRecord(prisma, user)
+  const applied = await applyWhatIfScenario(prisma, record, scenario)
+  if ("error" in applied) return applied
+
+  const changed = await evaluateWhatIfRecord(prisma, user.id, applied.record, today)
+  const current = await evaluateWhatIfRecord(prisma, user.id, record, today)
+
+  const currentCourses = new Set(current.outcome.plannedCourses)
+  const scenarioCourses = new Set(changed.outcome.plannedCourses)
+
+  return {
+    comparison: {
+      current: current.outcome,
+      scenario: changed.outcome,
+      added: changed.outcome.plannedCourses.filter(code => !currentCourses.has(code)),
+      dropped: current.outcome.plannedCourses.filter(code => !scenarioCourses.has(code)),
+      strategy: SCHEDULE_STRATEGIES[record.strategy ?? ""]?.name ?? SCHEDULE_STRATEGIES.fastest.name,
+    },
+  }
+}
@@ -0,0 +1,35 @@
+// How heavy a course is to carry in a term, on a 1 (light) to 5 (heaviest)
+// scale. An admin can set a course's score; otherwise it's the average of
+// what students who took it reported, and courses nobody has rated count as
+// average. A term's difficulty is the sum of its courses' scores.
+
+export const MIN_WORKLOAD = 1
+export const MAX_WORKLOAD = 5
+export const DEFAULT_WORKLOAD = 3
+
+export function isValidWorkload(rating: unknown): rating is number {
+  return Number.isInteger(rating) && (rating as number) >= MIN_WORKLOAD && (rating as number) <= MAX_WORKLOAD
+}
+
+// The admin's score, else the students' average (to one decimal), else the default
+export function getWorkloadScore(workload: number | null, reportedRatings: number[]): number {
+  if (workload !== null) return workload
+  if (reportedRatings.length === 0) return DEFAULT_WORKLOAD
+
+  const average = reportedRatings.reduce((sum, rating) => sum + rating, 0) / reportedRatings.length
+  return Math.round(average * 10) / 10
+}
+
+// Sum of course scores, e.g. for a term; rounded so averages don't pile up decimals
+export function sumWorkload(scores: number[]): number {
+  return Math.round(scores.reduce((sum, score) => sum + score, 0) * 10) / 10
+}
+
+// Wording for a term's total, by its average per course
+export function describeTermWorkload(total: number, courseCount: number): string {
+  if (courseCount === 0) return "Empty"
+  const average = total / courseCount
+  if (average >= 4) return "Heavy"
+  if (average >= 3) return "Moderate"
+  return "Light"
+}